@@ -1,6 +1,14 @@
 'use server';
 
-const CANVAS_API_BASE = 'https://byu.instructure.com/api/v1';
+import { createCanvasClient, CanvasClient, CANVAS_PAGE_SIZE } from '../lib/canvasClient';
+import { CanvasResult, getCanvasErrorCode, toCanvasFailure } from '../lib/canvasErrors';
+import { getCanvasEventId, getCanvasAssignmentEventId } from '../lib/eventIds';
+
+// Which Canvas instance to talk to and the student's access token for it
+export interface CanvasAuth {
+  token: string;
+  baseUrl: string; // e.g. https://byu.instructure.com
+}
 
 export interface CanvasCourse {
   id: number;
@@ -12,58 +20,190 @@ export interface CanvasCourse {
   workflow_state: string;
 }
 
-export async function fetchCanvasCourses(token: string): Promise<CanvasCourse[]> {
+export async function fetchCanvasCourses(auth: CanvasAuth): Promise<CanvasResult<CanvasCourse[]>> {
   try {
-    const response = await fetch(`${CANVAS_API_BASE}/courses?enrollment_type=student&enrollment_state=active&per_page=100`, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-    });
-
-    if (!response.ok) {
-      if (response.status === 401) {
-        throw new Error('Invalid Canvas API token. Please check your token in Canvas Sync settings.');
-      }
-      throw new Error(`Canvas API error: ${response.status} ${response.statusText}`);
-    }
-
-    const courses: CanvasCourse[] = await response.json();
+    const courses = await createCanvasClient(auth).getAll<CanvasCourse>(
+      `/courses?enrollment_type=student&enrollment_state=active&per_page=${CANVAS_PAGE_SIZE}`
+    );
     
     // Include all courses except those that are deleted or unpublished
     // This allows courses in various states (available, active, completed) to show up
-    return courses.filter(course => 
+    const visibleCourses = courses.filter(course => 
       course.workflow_state !== 'deleted' && course.workflow_state !== 'unpublished'
     );
+    return { ok: true, data: visibleCourses };
   } catch (error) {
     console.error('Error fetching Canvas courses:', error);
-    throw error instanceof Error 
-      ? error 
-      : new Error('Failed to fetch courses from Canvas');
+    return toCanvasFailure(error, 'Failed to fetch courses from Canvas');
   }
 }
 
-export async function fetchCourseAssignments(token: string, courseId: number) {
+// Failure for a URL that answers, but not like a Canvas instance
+function notCanvasSiteFailure(origin: string): CanvasResult<never> {
+  return { ok: false, code: 'invalid_url', message: `${origin} doesn't look like a Canvas site. Check the Canvas URL.` };
+}
+
+// Check that the URL points at a Canvas instance and the token works there.
+// Returns the Canvas user's display name.
+export async function validateCanvasConnection(auth: CanvasAuth): Promise<CanvasResult<string>> {
+  let client: CanvasClient;
   try {
-    // Include submission status to know if assignments have been submitted/completed
-    const response = await fetch(
-      `${CANVAS_API_BASE}/courses/${courseId}/assignments?per_page=100&include[]=submission&include[]=assignment_overrides`,
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      }
-    );
+    client = createCanvasClient(auth);
+  } catch (error) {
+    return toCanvasFailure(error, 'Invalid Canvas URL');
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch assignments: ${response.status}`);
+  let user: { id?: unknown; name?: string; short_name?: string } | null;
+  try {
+    user = await client.get('/users/self');
+  } catch (error) {
+    // A site that isn't Canvas answers /api/v1/users/self with a 404, a login page or something else odd
+    const code = getCanvasErrorCode(error);
+    if (code === 'not_found' || code === 'forbidden' || code === 'request_failed') {
+      return notCanvasSiteFailure(client.origin);
     }
+    return toCanvasFailure(error, 'Failed to connect to Canvas');
+  }
+
+  if (!user || typeof user.id !== 'number') {
+    return notCanvasSiteFailure(client.origin);
+  }
+  return { ok: true, data: user.name || user.short_name || 'Canvas user' };
+}
+
+// Fetch every student enrollment without filtering, including courses hidden in Junior Ledger
+export async function fetchAllStudentCourses(auth: CanvasAuth, activeOnly: boolean = true): Promise<CanvasResult<CanvasCourse[]>> {
+  try {
+    const courses = await createCanvasClient(auth).getAll<CanvasCourse>(
+      `/courses?enrollment_type=student${activeOnly ? '&enrollment_state=active&include[]=all_courses' : ''}&per_page=${CANVAS_PAGE_SIZE}`
+    );
+    return { ok: true, data: courses };
+  } catch (error) {
+    console.error('Error fetching all courses:', error);
+    return toCanvasFailure(error, 'Failed to fetch courses from Canvas');
+  }
+}
+
+export interface CanvasSubmission {
+  workflow_state: string; // 'unsubmitted' | 'submitted' | 'graded' | 'pending_review'
+  submitted_at: string | null;
+  score: number | null;
+  grade: string | null;
+  late: boolean;
+  missing: boolean;
+  excused: boolean | null;
+}
+
+export interface CanvasAssignment {
+  id: number;
+  name: string;
+  description: string | null;
+  due_at: string | null;
+  points_possible: number | null;
+  assignment_group_id: number;
+  submission_types?: string[]; // e.g. ['online_upload'], ['online_quiz'], ['discussion_topic']
+  omit_from_final_grade?: boolean;
+  html_url: string;
+  workflow_state?: string;
+  created_at: string;
+  updated_at: string;
+  submission?: CanvasSubmission; // Only present with include[]=submission
+  all_dates?: Array<{ id?: number; due_at: string | null }>;
+}
 
-    return await response.json();
+export async function fetchCourseAssignments(auth: CanvasAuth, courseId: number): Promise<CanvasResult<CanvasAssignment[]>> {
+  try {
+    // Include submission status to know if assignments have been submitted/completed
+    const assignments = await createCanvasClient(auth).getAll<CanvasAssignment>(
+      `/courses/${courseId}/assignments?per_page=${CANVAS_PAGE_SIZE}&include[]=submission&include[]=assignment_overrides`
+    );
+    return { ok: true, data: assignments };
   } catch (error) {
     console.error('Error fetching assignments:', error);
-    throw error instanceof Error 
-      ? error 
-      : new Error('Failed to fetch assignments from Canvas');
+    return toCanvasFailure(error, 'Failed to fetch assignments from Canvas');
+  }
+}
+
+// Scores Canvas calculates for the student's enrollment (percentages, letter grades if the course uses a grading scheme)
+export interface CanvasEnrollmentGrades {
+  current_score: number | null; // Ignores ungraded assignments
+  final_score: number | null; // Counts ungraded assignments as zero
+  current_grade: string | null;
+  final_grade: string | null;
+}
+
+export interface CanvasAssignmentGroup {
+  id: number;
+  name: string;
+  position: number;
+  group_weight: number | null; // Percent of the final grade when the course weights groups
+  rules?: {
+    drop_lowest?: number;
+    drop_highest?: number;
+    never_drop?: number[];
+  };
+  assignments?: CanvasAssignment[]; // With include[]=assignments
+}
+
+// Just the numbers a class card badge needs
+export interface CanvasCourseScore {
+  current_score: number | null;
+  current_grade: string | null;
+}
+
+export interface CanvasCourseGrades {
+  courseId: number;
+  enrollment: CanvasEnrollmentGrades | null; // null if Canvas hides grades for this course
+  applyGroupWeights: boolean;
+  assignmentGroups: CanvasAssignmentGroup[];
+}
+
+// Scores on the student's own enrollment, or null if Canvas hides grades for this course
+async function fetchEnrollmentGrades(client: CanvasClient, courseId: number): Promise<CanvasEnrollmentGrades | null> {
+  const enrollments = await client.getAll<{ grades?: CanvasEnrollmentGrades }>(
+    `/courses/${courseId}/enrollments?user_id=self&type[]=StudentEnrollment&per_page=${CANVAS_PAGE_SIZE}`
+  );
+  return enrollments.find(enrollment => enrollment.grades)?.grades || null;
+}
+
+// Fetch only the student's current course score, without assignments
+export async function fetchCourseScore(auth: CanvasAuth, courseId: number): Promise<CanvasResult<CanvasCourseScore | null>> {
+  try {
+    const grades = await fetchEnrollmentGrades(createCanvasClient(auth), courseId);
+    return {
+      ok: true,
+      data: grades ? { current_score: grades.current_score, current_grade: grades.current_grade } : null,
+    };
+  } catch (error) {
+    console.error('Error fetching course score:', error);
+    return toCanvasFailure(error, 'Failed to fetch grades from Canvas');
+  }
+}
+
+// Fetch the student's course scores, assignment group weights and per-assignment scores
+export async function fetchCourseGrades(auth: CanvasAuth, courseId: number): Promise<CanvasResult<CanvasCourseGrades>> {
+  try {
+    const client = createCanvasClient(auth);
+    const [enrollment, course, assignmentGroups] = await Promise.all([
+      fetchEnrollmentGrades(client, courseId),
+      client.get<{ apply_assignment_group_weights?: boolean }>(`/courses/${courseId}`),
+      client.getAll<CanvasAssignmentGroup>(
+        `/courses/${courseId}/assignment_groups?include[]=assignments&include[]=submission&per_page=${CANVAS_PAGE_SIZE}`
+      ),
+    ]);
+
+    return {
+      ok: true,
+      data: {
+        courseId,
+        enrollment,
+        applyGroupWeights: !!course.apply_assignment_group_weights,
+        assignmentGroups: assignmentGroups.sort((a, b) => a.position - b.position),
+      },
+    };
+  } catch (error) {
+    console.error('Error fetching grades:', error);
+    return toCanvasFailure(error, 'Failed to fetch grades from Canvas');
   }
 }
 
@@ -109,77 +249,42 @@ export interface CanvasFolder {
   for_submissions: boolean;
 }
 
-export async function fetchCourseFiles(token: string, courseId: number): Promise<CanvasFile[]> {
+export async function fetchCourseFiles(auth: CanvasAuth, courseId: number): Promise<CanvasResult<CanvasFile[]>> {
   try {
-    const response = await fetch(
-      `${CANVAS_API_BASE}/courses/${courseId}/files?per_page=100&sort=created_at&order=desc`,
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      }
+    const files = await createCanvasClient(auth).getAll<CanvasFile>(
+      `/courses/${courseId}/files?per_page=${CANVAS_PAGE_SIZE}&sort=created_at&order=desc`
     );
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch files: ${response.status}`);
-    }
-
-    return await response.json();
+    return { ok: true, data: files };
   } catch (error) {
     console.error('Error fetching files:', error);
-    throw error instanceof Error 
-      ? error 
-      : new Error('Failed to fetch files from Canvas');
+    return toCanvasFailure(error, 'Failed to fetch files from Canvas');
   }
 }
 
-export async function fetchCourseFolders(token: string, courseId: number): Promise<CanvasFolder[]> {
+export async function fetchCourseFolders(auth: CanvasAuth, courseId: number): Promise<CanvasResult<CanvasFolder[]>> {
   try {
-    const response = await fetch(
-      `${CANVAS_API_BASE}/courses/${courseId}/folders`,
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      }
+    const folders = await createCanvasClient(auth).getAll<CanvasFolder>(
+      `/courses/${courseId}/folders?per_page=${CANVAS_PAGE_SIZE}`
     );
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch folders: ${response.status}`);
-    }
-
-    return await response.json();
+    return { ok: true, data: folders };
   } catch (error) {
     console.error('Error fetching folders:', error);
-    throw error instanceof Error 
-      ? error 
-      : new Error('Failed to fetch folders from Canvas');
+    return toCanvasFailure(error, 'Failed to fetch folders from Canvas');
   }
 }
 
-export async function fetchFolderFiles(token: string, folderId: number): Promise<CanvasFile[]> {
+export async function fetchFolderFiles(auth: CanvasAuth, folderId: number): Promise<CanvasFile[]> {
   try {
-    const response = await fetch(
-      `${CANVAS_API_BASE}/folders/${folderId}/files?per_page=100&sort=created_at&order=desc`,
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      }
+    return await createCanvasClient(auth).getAll<CanvasFile>(
+      `/folders/${folderId}/files?per_page=${CANVAS_PAGE_SIZE}&sort=created_at&order=desc`
     );
-
-    if (!response.ok) {
-      // 403 means forbidden - folder might be restricted or require different permissions
-      // Return empty array instead of throwing error
-      if (response.status === 403 || response.status === 404) {
-        console.warn(`Folder ${folderId} is not accessible (${response.status})`);
-        return [];
-      }
-      throw new Error(`Failed to fetch folder files: ${response.status}`);
-    }
-
-    return await response.json();
   } catch (error) {
+    // 403 means forbidden - folder might be restricted or require different permissions
+    const code = getCanvasErrorCode(error);
+    if (code === 'forbidden' || code === 'not_found') {
+      console.warn(`Folder ${folderId} is not accessible (${code})`);
+      return [];
+    }
     console.error('Error fetching folder files:', error);
     // Return empty array on error instead of throwing
     // This allows the UI to continue working even if some folders can't be accessed
@@ -193,14 +298,11 @@ export async function fetchFolderFiles(token: string, folderId: number): Promise
 export async function downloadCanvasFileAsBase64(
   fileUrl: string,
   fileName: string,
-  token: string
+  auth: CanvasAuth
 ): Promise<string | null> {
   try {
-    const response = await fetch(fileUrl, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-    });
+    // The client refuses URLs outside the student's own Canvas instance
+    const response = await createCanvasClient(auth).request(fileUrl);
 
     if (!response.ok) {
       console.warn(`Failed to download Canvas file ${fileName}: ${response.status}`);
@@ -221,16 +323,9 @@ export async function downloadCanvasFileAsBase64(
   }
 }
 
-export async function testFolderAccess(token: string, folderId: number): Promise<boolean> {
+export async function testFolderAccess(auth: CanvasAuth, folderId: number): Promise<boolean> {
   try {
-    const response = await fetch(
-      `${CANVAS_API_BASE}/folders/${folderId}/files?per_page=1`,
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      }
-    );
+    const response = await createCanvasClient(auth).request(`/folders/${folderId}/files?per_page=1`);
 
     // Only return false (restricted) if we get a 403 Forbidden
     // All other statuses (200, 404, etc.) mean accessible
@@ -242,7 +337,7 @@ export async function testFolderAccess(token: string, folderId: number): Promise
 }
 
 export interface CanvasCalendarEvent {
-  id: number;
+  id: string; // Source-qualified, see app/lib/eventIds.ts
   title: string;
   start_at: string;
   end_at: string | null;
@@ -260,18 +355,22 @@ export interface CanvasCalendarEvent {
   type: string;
 }
 
+// Calendar event as Canvas returns it, before it gets a source-qualified ID
+type CanvasApiCalendarEvent = Omit<CanvasCalendarEvent, 'id'> & { id: number };
+
 // Fetch calendar events from Canvas (including assignments)
 export async function fetchCalendarEvents(
-  token: string,
+  auth: CanvasAuth,
   startDate?: string,
   endDate?: string,
   contextCodes?: string[]
-): Promise<CanvasCalendarEvent[]> {
+): Promise<CanvasResult<CanvasCalendarEvent[]>> {
   try {
     const allEvents: CanvasCalendarEvent[] = [];
+    const client = createCanvasClient(auth);
     
     // Fetch calendar events (both events and assignments)
-    let url = `${CANVAS_API_BASE}/calendar_events?per_page=100`;
+    let url = `/calendar_events?per_page=${CANVAS_PAGE_SIZE}`;
     
     if (startDate) {
       url += `&start_date=${startDate}`;
@@ -285,17 +384,12 @@ export async function fetchCalendarEvents(
       });
     }
 
-    const eventsResponse = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-    });
-
-    if (eventsResponse.ok) {
-      const events = await eventsResponse.json();
-      allEvents.push(...events);
-    } else {
-      console.warn('Failed to fetch calendar events:', eventsResponse.status);
+    try {
+      const canvasEvents = await client.getAll<CanvasApiCalendarEvent>(url);
+      allEvents.push(...canvasEvents.map(event => ({ ...event, id: getCanvasEventId(event.id) })));
+    } catch (error) {
+      if (getCanvasErrorCode(error) === 'invalid_token') throw error;
+      console.warn('Failed to fetch calendar events:', error);
     }
 
     // Also fetch assignments and convert them to calendar events
@@ -306,32 +400,22 @@ export async function fetchCalendarEvents(
 
         const courseId = parseInt(courseIdMatch[1], 10);
         try {
-          let assignmentsUrl = `${CANVAS_API_BASE}/courses/${courseId}/assignments?per_page=100&include[]=assignment_overrides`;
+          let assignmentsUrl = `/courses/${courseId}/assignments?per_page=${CANVAS_PAGE_SIZE}&include[]=assignment_overrides`;
           
           if (startDate) {
             assignmentsUrl += `&bucket=upcoming`;
           }
 
-          const assignmentsResponse = await fetch(assignmentsUrl, {
-            headers: {
-              'Authorization': `Bearer ${token}`,
-            },
-          });
-
-          if (!assignmentsResponse.ok) {
-            return [];
-          }
-
-          const assignments = await assignmentsResponse.json();
+          const assignments = await client.getAll<CanvasAssignment>(assignmentsUrl);
           
           // Convert assignments to calendar events
           return assignments
-            .filter((assignment: any) => assignment.due_at || assignment.all_dates)
-            .map((assignment: any) => {
+            .filter(assignment => assignment.due_at || assignment.all_dates)
+            .map((assignment): CanvasCalendarEvent | CanvasCalendarEvent[] | null => {
               // Handle assignments with multiple due dates
               if (assignment.all_dates && assignment.all_dates.length > 0) {
-                return assignment.all_dates.map((dateInfo: any) => ({
-                  id: assignment.id * 1000 + (dateInfo.id || 0), // Make unique IDs
+                return assignment.all_dates.map(dateInfo => ({
+                  id: getCanvasAssignmentEventId(assignment.id, dateInfo.id ?? null),
                   title: assignment.name,
                   start_at: dateInfo.due_at || assignment.due_at || '',
                   end_at: dateInfo.due_at || assignment.due_at || null,
@@ -350,7 +434,7 @@ export async function fetchCalendarEvents(
                 }));
               } else if (assignment.due_at) {
                 return {
-                  id: assignment.id,
+                  id: getCanvasAssignmentEventId(assignment.id),
                   title: assignment.name,
                   start_at: assignment.due_at,
                   end_at: assignment.due_at,
@@ -371,7 +455,7 @@ export async function fetchCalendarEvents(
               return null;
             })
             .flat()
-            .filter((event: any) => {
+            .filter((event): event is CanvasCalendarEvent => {
               if (!event || !event.start_at) return false;
               // Filter by date range if provided
               const eventDate = event.start_at.split('T')[0];
@@ -391,62 +475,50 @@ export async function fetchCalendarEvents(
       });
     }
 
-    // Remove duplicates (in case an assignment also appears as a calendar event)
+    // Remove duplicates (e.g. an event shared by two of the requested courses)
     const uniqueEvents = allEvents.filter((event, index, self) =>
-      index === self.findIndex((e) => 
-        e.id === event.id && e.context_code === event.context_code
-      )
+      index === self.findIndex((e) => e.id === event.id)
     );
 
-    return uniqueEvents;
+    return { ok: true, data: uniqueEvents };
   } catch (error) {
     console.error('Error fetching calendar events:', error);
-    throw error instanceof Error
-      ? error
-      : new Error('Failed to fetch calendar events from Canvas');
+    return toCanvasFailure(error, 'Failed to fetch calendar events from Canvas');
   }
 }
 
-// Fetch user's custom colors for courses
-export async function fetchCourseColor(token: string, courseId: number): Promise<string | null> {
+// Fetch the user's custom color for one course, or null if none is set
+async function fetchCourseColorWithClient(client: CanvasClient, courseId: number): Promise<string | null> {
   try {
-    const response = await fetch(
-      `${CANVAS_API_BASE}/users/self/colors/course_${courseId}`,
-      {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      }
-    );
-
-    if (!response.ok) {
-      // If color not set, return null (Canvas will use default)
-      if (response.status === 404) {
-        return null;
-      }
-      throw new Error(`Failed to fetch course color: ${response.status}`);
-    }
-
-    const data = await response.json();
+    const data = await client.get<{ hexcode?: string }>(`/users/self/colors/course_${courseId}`);
     return data.hexcode || null;
   } catch (error) {
-    console.error('Error fetching course color:', error);
+    // If color not set, return null (Canvas will use default)
+    if (getCanvasErrorCode(error) !== 'not_found') {
+      console.error('Error fetching course color:', error);
+    }
     // Return null on error so we can use a default color
     return null;
   }
 }
 
+// Fetch user's custom colors for courses
+export async function fetchCourseColor(auth: CanvasAuth, courseId: number): Promise<string | null> {
+  return fetchCourseColorWithClient(createCanvasClient(auth), courseId);
+}
+
 // Fetch colors for multiple courses at once
 export async function fetchCourseColors(
-  token: string,
+  auth: CanvasAuth,
   courseIds: number[]
 ): Promise<Record<number, string>> {
   const colors: Record<number, string> = {};
   
-  // Canvas doesn't have a bulk endpoint, so we fetch individually
-  // But we do it in parallel to be efficient
+  // Canvas doesn't have a bulk endpoint, so we fetch individually.
+  // The shared client caps how many of these run at once.
+  const client = createCanvasClient(auth);
   const promises = courseIds.map(async (courseId) => {
-    const color = await fetchCourseColor(token, courseId);
+    const color = await fetchCourseColorWithClient(client, courseId);
     if (color) {
       colors[courseId] = color;
     }
@@ -454,4 +526,4 @@ export async function fetchCourseColors(
 
   await Promise.all(promises);
   return colors;
-}
\ No newline at end of file
+}
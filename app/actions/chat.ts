@@ -1,160 +1,48 @@
 'use server';
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY || process.env.GOOGLE_AI_API_KEY || '');
+import { generateChatReply, toAssistantError } from '../lib/assistantChat';
+import { getLLMProvider } from '../lib/llm';
+import type { TextSegment } from '../lib/fileExtraction';
 
 export interface FileContext {
   fileName: string;
   text: string;
+  passage?: number; // Set when text is one retrieved passage of the file rather than the whole file (1-based)
+  pageKind?: 'page' | 'slide'; // Set when the passage comes from a single PDF page or slide
+  page?: number;
+  canvasId?: number; // Canvas file ID, used to open the cached file from a citation
+  segments?: TextSegment[]; // Page/slide text of the whole file; used for chunking in the browser
+}
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  text: string;
 }
 
+// Non-streaming variant of the assistant; the chat UI streams through /api/chat instead
 export async function sendChatMessage(
   message: string,
   tutorMode: boolean,
   courseId?: number,
   courseNickname?: string,
-  fileContexts?: FileContext[]
+  fileContexts?: FileContext[],
+  history: ChatTurn[] = []
 ): Promise<string> {
   try {
-    const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY || process.env.GOOGLE_AI_API_KEY;
-    
-    if (!apiKey) {
-      throw new Error('Google AI API key is not configured');
-    }
-    
-    // Validate API key format (should start with AIza and be ~39 chars)
-    if (!apiKey.startsWith('AIza') || apiKey.length < 35) {
-      throw new Error('API key format appears invalid. Google AI API keys should start with "AIza" and be approximately 39 characters long.');
-    }
-
-    // Based on available models: Gemini 3 Flash Preview first, then fallbacks
-    // Try models in order: Gemini 3 Flash Preview -> Gemini 2.5 Flash -> Gemini 2.0 Flash, etc.
-    const modelNames = [
-      'gemini-3-flash',        // Gemini 3 Flash Preview - try first
-      'gemini-3.0-flash',      // Gemini 3 Flash Preview (alternative format)
-      'gemini-2.5-flash',      // Gemini 2.5 Flash - stable fallback
-      'gemini-2.5-pro',        // Gemini 2.5 Pro
-      'gemini-2.0-flash',      // Gemini 2.0 Flash - most stable
-      'gemini-3-pro',          // Gemini 3 Pro Preview
-      'gemini-1.5-flash',      // Fallback
-      'gemini-1.5-pro'         // Fallback
-    ];
-    
-    let model;
-    let modelName = modelNames[0];
-    
-    // Initialize with first model (errors only occur on generateContent)
-    model = genAI.getGenerativeModel({ model: modelName });
-
-    let systemPrompt = '';
-    
-    // Build file context string if files are provided
-    let fileContextString = '';
-    if (courseId && fileContexts && fileContexts.length > 0) {
-      const contextSections = fileContexts.map((file, index) => {
-        // Limit each file's text to avoid token limits (first 10000 characters per file)
-        // If file is very long, we'll truncate but keep important context
-        const truncatedText = file.text.length > 10000 
-          ? file.text.substring(0, 10000) + '\n\n... (content truncated for length)'
-          : file.text;
-        const fileNumber = index + 1;
-        return `\n\n--- File ${fileNumber}: ${file.fileName} ---\n${truncatedText}\n--- End of File ${fileNumber}: ${file.fileName} ---`;
-      }).join('\n');
-      
-      const citationInstruction = `\n\nIMPORTANT CITATION FORMAT: When you reference information from the course documents above, cite your sources using numbered citations in square brackets. For example, if you use information from File 1, include [1] after the relevant statement. If you use information from File 2, include [2], and so on. You can cite multiple sources like [1][2] if information comes from multiple files. Always cite sources when using specific information, data, or quotes from the provided documents.`;
-      
-      fileContextString = `\n\nRELEVANT COURSE DOCUMENTS:\n${contextSections}\n\nWhen answering questions, use the information from these course documents as your primary source. If information is not found in these documents, state that clearly and provide general guidance based on ${courseNickname || 'accounting'} principles.${citationInstruction}`;
-    }
-    
-    if (courseId && courseNickname) {
-      // Course-specific assistant
-      const courseContext = `You are the ${courseNickname} Junior Assistant for a BYU Accounting student. You specialize in helping with ${courseNickname} coursework.${fileContexts && fileContexts.length > 0 ? ' You have access to course documents that should be your primary source of information.' : ''}`;
-      
-      if (tutorMode) {
-        systemPrompt = `${courseContext} Tutor Mode is ON. Do not give direct answers. Instead, ask Socratic questions to help the student find the answer themselves using GAAP principles and ${courseNickname} concepts. Guide them through their thinking process step by step.${fileContextString}`;
-      } else {
-        systemPrompt = `${courseContext} Tutor Mode is OFF. Give concise, professional accounting explanations related to ${courseNickname}. Be helpful and clear while maintaining academic rigor.${fileContextString}`;
-      }
-    } else {
-      // General assistant
-      if (tutorMode) {
-        systemPrompt = 'You are the Junior Ledger Assistant for a BYU Accounting student. Tutor Mode is ON. Do not give direct answers. Instead, ask Socratic questions to help the student find the answer themselves using GAAP principles. Guide them through their thinking process step by step.';
-      } else {
-        systemPrompt = 'You are the Junior Ledger Assistant for a BYU Accounting student. Tutor Mode is OFF. Give concise, professional accounting explanations. Be helpful and clear while maintaining academic rigor.';
-      }
-    }
-
-    const prompt = `${systemPrompt}\n\nStudent: ${message}\n\nAssistant:`;
-
-    let result;
-    try {
-      result = await model.generateContent(prompt);
-    } catch (modelError: any) {
-      // If the model doesn't exist, try other available models
-      if (modelError?.message?.includes('not found') || modelError?.message?.includes('404')) {
-        console.log(`Model ${modelName} not found, trying alternatives...`);
-        
-        // Try other models from the list
-        for (const altName of modelNames) {
-          if (altName === modelName) continue;
-          try {
-            const altModel = genAI.getGenerativeModel({ model: altName });
-            result = await altModel.generateContent(prompt);
-            console.log(`Successfully used model: ${altName}`);
-            break;
-          } catch (altErr) {
-            continue;
-          }
-        }
-        
-        if (!result) {
-          throw new Error(`No available models found. Available models in your account: Gemini 2.0 Flash, Gemini 2.5 Flash, Gemini 2.5 Pro, etc. Please check Google AI Studio for the exact model identifier.`);
-        }
-      } else {
-        throw modelError;
-      }
-    }
-    
-    const response = await result.response;
-    const text = response.text();
+    return await generateChatReply({ message, tutorMode, courseId, courseNickname, fileContexts, history });
+  } catch (error) {
+    console.error('Error calling the assistant model:', error);
+    throw toAssistantError(error);
+  }
+}
 
-    return text;
+// Embed texts for passage re-ranking. Returns null when the provider can't embed,
+// so retrieval falls back to keyword ranking instead of failing the message.
+export async function embedTexts(texts: string[]): Promise<number[][] | null> {
+  try {
+    return await getLLMProvider().embed(texts);
   } catch (error) {
-    console.error('Error calling Gemini API:', error);
-    
-    // Provide more helpful error messages
-    if (error instanceof Error) {
-      // Quota/Rate limit errors
-      if (error.message.includes('429') || error.message.includes('quota') || error.message.includes('Quota exceeded')) {
-        const retryMatch = error.message.match(/Please retry in ([\d.]+)s/);
-        const retrySeconds = retryMatch ? Math.ceil(parseFloat(retryMatch[1])) : null;
-        
-        let message = 'You\'ve exceeded your free tier quota for the Gemini API. ';
-        if (retrySeconds) {
-          message += `Please wait ${retrySeconds} seconds and try again. `;
-        }
-        message += 'For more information, visit https://ai.google.dev/gemini-api/docs/rate-limits or check your usage at https://ai.dev/usage';
-        
-        throw new Error(message);
-      }
-      
-      // API key errors
-      if (error.message.includes('API key not valid') || error.message.includes('API_KEY_INVALID')) {
-        throw new Error('Invalid API key. Please check your GOOGLE_GENERATIVE_AI_API_KEY (or GOOGLE_AI_API_KEY) in .env.local and ensure it\'s correct. Get a new key from https://aistudio.google.com/apikey');
-      }
-      if (error.message.includes('API key not found')) {
-        throw new Error('API key not found. Please set GOOGLE_GENERATIVE_AI_API_KEY (or GOOGLE_AI_API_KEY) in your .env.local file.');
-      }
-      
-      // Model not found errors
-      if (error.message.includes('not found') || error.message.includes('404')) {
-        throw new Error(`Model not available. ${error.message}`);
-      }
-      
-      throw new Error(`API Error: ${error.message}`);
-    }
-    
-    throw new Error('Failed to get response from AI assistant. Please check your API key and try again.');
+    console.error('Error embedding texts:', error);
+    return null;
   }
 }
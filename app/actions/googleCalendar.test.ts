@@ -0,0 +1,210 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchCalendarFeedEvents } from './googleCalendar';
+
+const FEED_URL = 'https://calendar.example.com/feed.ics';
+
+// Serve a calendar with the given VEVENT lines as the feed
+function serveFeed(...events: string[][]) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Junior Ledger//Tests//EN',
+    ...events.flatMap(event => ['BEGIN:VEVENT', ...event, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ];
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(lines.join('\r\n'))));
+}
+
+async function fetchEvents(timeZone: string, startDate?: string, endDate?: string) {
+  const events = await fetchCalendarFeedEvents(FEED_URL, 1, timeZone, startDate, endDate);
+  return events.map(({ title, start_at, end_at, all_day, all_day_date }) => ({ title, start_at, end_at, all_day, all_day_date }));
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fetchCalendarFeedEvents all-day events', () => {
+  it('spans each day up to the exclusive end date in the student\'s timezone', async () => {
+    serveFeed([
+      'UID:retreat@example.com',
+      'SUMMARY:Retreat',
+      'DTSTART;VALUE=DATE:20261030',
+      'DTEND;VALUE=DATE:20261101',
+    ]);
+
+    expect(await fetchEvents('America/Denver')).toEqual([
+      { title: 'Retreat', start_at: '2026-10-30T06:00:00.000Z', end_at: '2026-10-31T06:00:00.000Z', all_day: true, all_day_date: '2026-10-30' },
+      { title: 'Retreat', start_at: '2026-10-31T06:00:00.000Z', end_at: '2026-11-01T06:00:00.000Z', all_day: true, all_day_date: '2026-10-31' },
+    ]);
+  });
+
+  it('keeps the last day of a range and ends it at local midnight after fall back', async () => {
+    serveFeed([
+      'UID:break@example.com',
+      'SUMMARY:Fall break',
+      'DTSTART;VALUE=DATE:20261101',
+      'DTEND;VALUE=DATE:20261102',
+    ]);
+
+    expect(await fetchEvents('America/Denver', '2026-11-01', '2026-11-01')).toEqual([
+      { title: 'Fall break', start_at: '2026-11-01T06:00:00.000Z', end_at: '2026-11-02T07:00:00.000Z', all_day: true, all_day_date: '2026-11-01' },
+    ]);
+  });
+
+  it('repeats on the same calendar day, skipping EXDATEs', async () => {
+    serveFeed([
+      'UID:quiz-day@example.com',
+      'SUMMARY:Quiz day',
+      'DTSTART;VALUE=DATE:20261019',
+      'DTEND;VALUE=DATE:20261020',
+      'RRULE:FREQ=WEEKLY;COUNT=3',
+      'EXDATE;VALUE=DATE:20261026',
+    ]);
+
+    const events = await fetchEvents('America/Denver', '2026-10-01', '2026-11-30');
+    expect(events.map(event => event.all_day_date)).toEqual(['2026-10-19', '2026-11-02']);
+    expect(events.every(event => event.all_day)).toBe(true);
+  });
+});
+
+describe('fetchCalendarFeedEvents recurring events', () => {
+  it('keeps the wall-clock time in the event\'s timezone across a DST change', async () => {
+    serveFeed([
+      'UID:lecture@example.com',
+      'SUMMARY:Lecture',
+      'DTSTART;TZID=America/Denver:20261026T100000',
+      'DTEND;TZID=America/Denver:20261026T110000',
+      'RRULE:FREQ=WEEKLY;COUNT=3',
+    ]);
+
+    expect(await fetchEvents('America/Denver', '2026-10-01', '2026-11-30')).toEqual([
+      { title: 'Lecture', start_at: '2026-10-26T16:00:00.000Z', end_at: '2026-10-26T17:00:00.000Z', all_day: false, all_day_date: null },
+      { title: 'Lecture', start_at: '2026-11-02T17:00:00.000Z', end_at: '2026-11-02T18:00:00.000Z', all_day: false, all_day_date: null },
+      { title: 'Lecture', start_at: '2026-11-09T17:00:00.000Z', end_at: '2026-11-09T18:00:00.000Z', all_day: false, all_day_date: null },
+    ]);
+  });
+
+  it('reads floating times in the student\'s timezone', async () => {
+    serveFeed([
+      'UID:lab@example.com',
+      'SUMMARY:Lab',
+      'DTSTART:20261027T090000',
+      'DTEND:20261027T100000',
+      'RRULE:FREQ=WEEKLY;COUNT=2',
+    ]);
+
+    const events = await fetchEvents('America/Denver', '2026-10-01', '2026-11-30');
+    expect(events.map(event => event.start_at)).toEqual(['2026-10-27T15:00:00.000Z', '2026-11-03T16:00:00.000Z']);
+  });
+
+  it('replaces moved occurrences and drops cancelled ones', async () => {
+    const rule = [
+      'UID:seminar@example.com',
+      'SUMMARY:Seminar',
+      'DTSTART;TZID=Europe/Berlin:20261020T140000',
+      'DTEND;TZID=Europe/Berlin:20261020T150000',
+      'RRULE:FREQ=WEEKLY;COUNT=3',
+    ];
+    serveFeed(
+      rule,
+      [
+        'UID:seminar@example.com',
+        'SUMMARY:Seminar (room change)',
+        'RECURRENCE-ID;TZID=Europe/Berlin:20261027T140000',
+        'DTSTART;TZID=Europe/Berlin:20261027T160000',
+        'DTEND;TZID=Europe/Berlin:20261027T170000',
+      ],
+      [
+        'UID:seminar@example.com',
+        'SUMMARY:Seminar',
+        'STATUS:CANCELLED',
+        'RECURRENCE-ID;TZID=Europe/Berlin:20261103T140000',
+        'DTSTART;TZID=Europe/Berlin:20261103T140000',
+        'DTEND;TZID=Europe/Berlin:20261103T150000',
+      ]
+    );
+
+    const events = await fetchEvents('Europe/Berlin', '2026-10-01', '2026-11-30');
+    expect(events.map(({ title, start_at }) => ({ title, start_at }))).toEqual([
+      { title: 'Seminar', start_at: '2026-10-20T12:00:00.000Z' },
+      // After the EU change on October 25, 4pm is 15:00 UTC
+      { title: 'Seminar (room change)', start_at: '2026-10-27T15:00:00.000Z' },
+    ]);
+  });
+
+  it('only returns occurrences inside the requested days', async () => {
+    serveFeed([
+      'UID:standup@example.com',
+      'SUMMARY:Standup',
+      'DTSTART;TZID=America/Denver:20260105T090000',
+      'DTEND;TZID=America/Denver:20260105T091500',
+      'RRULE:FREQ=DAILY',
+    ]);
+
+    const events = await fetchEvents('America/Denver', '2026-03-07', '2026-03-09');
+    expect(events.map(event => event.start_at)).toEqual([
+      '2026-03-07T16:00:00.000Z',
+      '2026-03-08T15:00:00.000Z',
+      '2026-03-09T15:00:00.000Z',
+    ]);
+  });
+});
+
+describe('fetchCalendarFeedEvents occurrence IDs', () => {
+  it('gives each occurrence of a sub-daily recurrence its own ID', async () => {
+    serveFeed([
+      'UID:office-hours@example.com',
+      'SUMMARY:Office hours',
+      'DTSTART;TZID=America/Denver:20261020T090000',
+      'DTEND;TZID=America/Denver:20261020T093000',
+      'RRULE:FREQ=DAILY;BYHOUR=9,14;COUNT=4',
+    ]);
+
+    const events = await fetchCalendarFeedEvents(FEED_URL, 1, 'America/Denver', '2026-10-01', '2026-10-31');
+    expect(events.map(event => event.id)).toEqual([
+      'ical:1:office-hours%40example.com:20261020T150000Z',
+      'ical:1:office-hours%40example.com:20261020T200000Z',
+      'ical:1:office-hours%40example.com:20261021T150000Z',
+      'ical:1:office-hours%40example.com:20261021T200000Z',
+    ]);
+  });
+
+  it('keeps the originally scheduled start in the ID of a moved occurrence', async () => {
+    serveFeed(
+      [
+        'UID:review@example.com',
+        'SUMMARY:Review',
+        'DTSTART;TZID=America/Denver:20261020T090000',
+        'RRULE:FREQ=DAILY;COUNT=2',
+      ],
+      [
+        'UID:review@example.com',
+        'SUMMARY:Review',
+        'RECURRENCE-ID;TZID=America/Denver:20261021T090000',
+        'DTSTART;TZID=America/Denver:20261021T130000',
+      ]
+    );
+
+    const events = await fetchCalendarFeedEvents(FEED_URL, 1, 'America/Denver', '2026-10-01', '2026-10-31');
+    expect(events.map(({ id, start_at }) => ({ id, start_at }))).toEqual([
+      { id: 'ical:1:review%40example.com:20261020T150000Z', start_at: '2026-10-20T15:00:00.000Z' },
+      { id: 'ical:1:review%40example.com:20261021T150000Z', start_at: '2026-10-21T19:00:00.000Z' },
+    ]);
+  });
+
+  it('uses the day for all-day occurrences', async () => {
+    serveFeed([
+      'UID:reading@example.com',
+      'SUMMARY:Reading day',
+      'DTSTART;VALUE=DATE:20261019',
+      'RRULE:FREQ=WEEKLY;COUNT=2',
+    ]);
+
+    const events = await fetchCalendarFeedEvents(FEED_URL, 1, 'America/Denver', '2026-10-01', '2026-10-31');
+    expect(events.map(event => event.id)).toEqual([
+      'ical:1:reading%40example.com:20261019',
+      'ical:1:reading%40example.com:20261026',
+    ]);
+  });
+});
@@ -1,14 +1,133 @@
 'use server';
 
-import ical from 'node-ical';
+import ical, { VEvent } from 'node-ical';
+import { RRule } from 'rrule';
 import { CanvasCalendarEvent } from './canvas';
+import { getICalEventId, getCalendarFeedContextCode } from '../lib/eventIds';
+import {
+  getWallClock,
+  fromWallClock,
+  toFloating,
+  fromFloating,
+  isValidTimeZone,
+  getInstantInTimeZone,
+  addDays,
+  getDaysBetween,
+  MS_PER_DAY,
+  WallClock,
+} from '../lib/dates';
+
+// Recurring events are expanded this far around today when no date range is requested
+const DEFAULT_RECURRENCE_WINDOW_DAYS = 365;
+
+// One occurrence of a VEVENT; overrides (RECURRENCE-ID) carry their own details
+interface EventInstance {
+  event: Omit<VEvent, 'recurrences'>;
+  start: Date;
+  end: Date | null;
+  occurrenceKey: string | null; // Identifies the occurrence in its event ID, see getOccurrenceKey
+}
+
+// node-ical moves repeating all-day starts to UTC midnight on servers east of UTC; otherwise they're local midnight
+function getDateOnlyWallClock(date: Date): WallClock {
+  const isLocalMidnight = date.getHours() === 0 && date.getMinutes() === 0;
+  return isLocalMidnight ? getWallClock(date, null) : fromFloating(date);
+}
+
+// Calendar day of an all-day start or end from node-ical
+function getDateOnlyKey(date: Date): string {
+  return toFloating(getDateOnlyWallClock(date)).toISOString().slice(0, 10);
+}
+
+// Floating times (no TZID or Z) mean the same clock time wherever you are. node-ical reads
+// them in the server's timezone, so move them to the student's.
+function resolveFloatingTime(date: Date & { tz?: string }, timeZone: string): Date {
+  return date.tz ? date : fromWallClock(getWallClock(date, null), timeZone);
+}
+
+// Occurrence part of an event ID: when it was scheduled to start in UTC (20261020T150000Z),
+// or its day for all-day events (20261020). Several occurrences can fall on one day.
+function getOccurrenceKey(start: Date, isDateOnly: boolean): string {
+  return isDateOnly
+    ? getDateOnlyKey(start).replace(/-/g, '')
+    : start.toISOString().replace(/[-:]|\.\d{3}/g, '');
+}
+
+/**
+ * Expand a VEVENT into its occurrences between windowStart and windowEnd, skipping EXDATEs and
+ * replacing occurrences moved or edited with RECURRENCE-ID. Occurrences keep their wall-clock time
+ * in the event's timezone, so a 10am lecture stays at 10am after daylight saving time changes.
+ * Floating times are read in floatingTimeZone, the student's timezone.
+ */
+function expandRecurrences(event: VEvent, windowStart: Date, windowEnd: Date, floatingTimeZone: string): EventInstance[] {
+  const isDateOnly = event.datetype === 'date';
+  const resolve = (date: Date & { tz?: string }) => isDateOnly ? date : resolveFloatingTime(date, floatingTimeZone);
+
+  if (!event.rrule) {
+    return [{ event, start: resolve(event.start), end: event.end ? resolve(event.end) : null, occurrenceKey: null }];
+  }
+
+  // node-ical parses dates without a timezone in the server's timezone
+  const timeZone = !isDateOnly && event.start.tz && isValidTimeZone(event.start.tz) ? event.start.tz : null;
+  // ...but occurrences of floating events happen at that clock time in the student's timezone
+  const occurrenceTimeZone = isDateOnly ? null : timeZone || floatingTimeZone;
+  const floatingStart = toFloating(isDateOnly ? getDateOnlyWallClock(event.start) : getWallClock(event.start, timeZone));
+  const floatingDuration = event.end ? toFloating(getWallClock(event.end, timeZone)).getTime() - floatingStart.getTime() : 0;
+
+  // node-ical's own rule mixes UTC and local times, so rebuild it in floating time
+  const { origOptions } = event.rrule;
+  const until = origOptions.until
+    ? (isDateOnly ? origOptions.until : toFloating(getWallClock(origOptions.until, timeZone)))
+    : null;
+  const rule = new RRule({ ...origOptions, dtstart: floatingStart, tzid: null, until });
+
+  // Pad the window by a day and the event's length so occurrences overlapping an edge are kept
+  const rangeStart = new Date(toFloating(getWallClock(windowStart, timeZone)).getTime() - floatingDuration - MS_PER_DAY);
+  const rangeEnd = new Date(toFloating(getWallClock(windowEnd, timeZone)).getTime() + MS_PER_DAY);
+
+  const instances: EventInstance[] = [];
+  rule.between(rangeStart, rangeEnd, true).forEach(occurrence => {
+    const start = fromWallClock(fromFloating(occurrence), occurrenceTimeZone);
+    // node-ical keys EXDATE and RECURRENCE-ID by date only
+    const recurrenceKey = start.toISOString().slice(0, 10);
+    if (event.exdate && recurrenceKey in event.exdate) return;
+    if (event.recurrences && recurrenceKey in event.recurrences) return;
+
+    instances.push({
+      event,
+      start,
+      end: event.end ? fromWallClock(fromFloating(new Date(occurrence.getTime() + floatingDuration)), occurrenceTimeZone) : null,
+      occurrenceKey: getOccurrenceKey(start, isDateOnly),
+    });
+  });
+
+  // Moved or edited occurrences, wherever they were originally scheduled. Their IDs use the
+  // original start, so they keep the same ID when moved again.
+  Object.values(event.recurrences || {}).forEach(override => {
+    if (override.status === 'CANCELLED' || !override.start) return;
+    const scheduledStart = override.recurrenceid instanceof Date ? override.recurrenceid : override.start;
+    instances.push({
+      event: { ...event, ...override },
+      start: resolve(override.start),
+      end: override.end ? resolve(override.end) : null,
+      occurrenceKey: getOccurrenceKey(resolve(scheduledStart), isDateOnly),
+    });
+  });
+
+  return instances;
+}
 
 /**
- * Fetch and parse Google Calendar iCal feed
- * Maps iCal events to CanvasCalendarEvent format for compatibility with the UI
+ * Fetch and parse an iCal feed (Google, Outlook or any other calendar subscription)
+ * Maps iCal events to CanvasCalendarEvent format for compatibility with the UI,
+ * tagged with the feed's context code so the calendar knows which feed they came from.
+ * startDate and endDate are days in timeZone, the student's timezone, which is also used
+ * for all-day events and events with floating times.
  */
-export async function fetchGoogleCalendarEvents(
+export async function fetchCalendarFeedEvents(
   feedUrl: string,
+  feedId: number,
+  timeZone: string,
   startDate?: string,
   endDate?: string
 ): Promise<CanvasCalendarEvent[]> {
@@ -21,7 +140,7 @@ export async function fetchGoogleCalendarEvents(
     });
 
     if (!response.ok) {
-      throw new Error(`Failed to fetch Google Calendar feed: ${response.status} ${response.statusText}`);
+      throw new Error(`Failed to fetch calendar feed: ${response.status} ${response.statusText}`);
     }
 
     const icalText = await response.text();
@@ -31,150 +150,126 @@ export async function fetchGoogleCalendarEvents(
     
     // Filter and convert events to CanvasCalendarEvent format
     const calendarEvents: CanvasCalendarEvent[] = [];
-    const startDateObj = startDate ? new Date(startDate) : null;
-    const endDateObj = endDate ? new Date(endDate + 'T23:59:59') : null;
+    const contextCode = getCalendarFeedContextCode(feedId);
+    const userTimeZone = isValidTimeZone(timeZone) ? timeZone : 'UTC';
+    // The range runs from the start of startDate to the end of endDate (exclusive)
+    const startDateObj = startDate ? getInstantInTimeZone(startDate, null, userTimeZone) : null;
+    const endDateObj = endDate ? getInstantInTimeZone(addDays(endDate, 1), null, userTimeZone) : null;
+
+    // Recurring events are expanded within the requested range (or a year either side of today)
+    const now = Date.now();
+    const windowStart = startDateObj || new Date(now - DEFAULT_RECURRENCE_WINDOW_DAYS * MS_PER_DAY);
+    const windowEnd = endDateObj || new Date(now + DEFAULT_RECURRENCE_WINDOW_DAYS * MS_PER_DAY);
 
     for (const key in events) {
-      const event = events[key];
+      const component = events[key];
       
       // Only process VEVENT type
-      if (event.type !== 'VEVENT') continue;
-
-      // Extract event details
-      const start = event.start;
-      const end = event.end;
-      const summary = event.summary || 'Untitled Event';
-      const description = event.description || null;
-      const location = event.location || null;
+      if (component.type !== 'VEVENT') continue;
+      if (component.status === 'CANCELLED') continue;
+
+      for (const { event, start, end, occurrenceKey } of expandRecurrences(component, windowStart, windowEnd, userTimeZone)) {
+        const summary = event.summary || 'Untitled Event';
+        const description = event.description || null;
+        const location = event.location || null;
       
-      if (!start) continue; // Skip events without start time
+        if (!start) continue; // Skip events without start time
 
-      // Check if event is within date range (check start date)
-      if (startDateObj && start < startDateObj) {
-        // If event starts before range but might extend into range, check end date
-        if (end && end >= startDateObj) {
-          // Event extends into range, we'll handle it below
-        } else {
-          continue; // Event is completely before the range
+        // UID is required by the spec, but fall back to something stable for feeds that leave it out
+        const uid = event.uid || `${summary}@${start.toISOString()}`;
+
+        // All-day events are the ones with dates instead of times (VALUE=DATE); a timed event
+        // that happens to start at midnight isn't one. Their days are checked against the range below.
+        const isAllDay = event.datetype === 'date';
+
+        if (!isAllDay) {
+          // Skip events that end before the range or start after it
+          if (startDateObj && (end || start) < startDateObj) continue;
+          if (endDateObj && start >= endDateObj) continue;
         }
-      }
-      if (endDateObj && start > endDateObj) continue; // Event starts after range
-
-      // Determine if all-day event
-      // All-day events in iCal typically have dates without times (or start at midnight)
-      // Check if the start date has no time component or spans a full day
-      const isAllDay = start.getHours() === 0 && start.getMinutes() === 0 && start.getSeconds() === 0 && 
-                       (!end || (end.getTime() - start.getTime() >= 86400000 && end.getHours() === 0 && end.getMinutes() === 0));
-
-      // Parse location into name and address
-      let locationName = null;
-      let locationAddress = null;
-      if (location) {
-        // Try to split location by common separators
-        const locationParts = location.split(',').map(s => s.trim());
-        if (locationParts.length > 1) {
-          locationName = locationParts[0];
-          locationAddress = locationParts.slice(1).join(', ');
-        } else {
-          locationName = location;
+
+        // Parse location into name and address
+        let locationName = null;
+        let locationAddress = null;
+        if (location) {
+          // Try to split location by common separators
+          const locationParts = location.split(',').map(s => s.trim());
+          if (locationParts.length > 1) {
+            locationName = locationParts[0];
+            locationAddress = locationParts.slice(1).join(', ');
+          } else {
+            locationName = location;
+          }
         }
-      }
 
-      // Detect event type based on keywords in title or description
-      const eventText = `${summary} ${description || ''}`.toLowerCase();
-      let eventType = 'google-calendar';
-      
-      // Check for exam/test/quiz keywords
-      const examKeywords = ['exam', 'final', 'midterm', 'test', 'quiz', 'assessment', 'evaluation'];
-      const hasExamKeyword = examKeywords.some(keyword => eventText.includes(keyword));
-      
-      if (hasExamKeyword) {
-        eventType = 'google-calendar-exam';
-      }
+        // Exams are detected in the browser with the student's exam rules (see app/lib/examRules.ts)
+        const eventType = 'ical-feed';
+
+        if (isAllDay) {
+          // One event per day it spans; the end date is exclusive (Jan 1 to Jan 3 means Jan 1 and Jan 2)
+          const firstDayKey = getDateOnlyKey(start);
+          const numDays = end ? Math.max(1, getDaysBetween(firstDayKey, getDateOnlyKey(end))) : 1;
+
+          for (let i = 0; i < numDays; i++) {
+            const dayKey = addDays(firstDayKey, i);
+            const eventStartDate = getInstantInTimeZone(dayKey, null, userTimeZone);
+            const eventEndDate = getInstantInTimeZone(addDays(dayKey, 1), null, userTimeZone);
+
+            // Check if this day is within the requested date range
+            if (startDateObj && eventEndDate <= startDateObj) continue; // Event ends before range starts
+            if (endDateObj && eventStartDate >= endDateObj) continue; // Event starts after range ends
 
-      // Handle multi-day events by creating separate events for each day
-      if (end && isAllDay) {
-        // For all-day events, create one event per day they span
-        const startDate = new Date(start);
-        startDate.setHours(0, 0, 0, 0);
-        const endDate = new Date(end);
-        endDate.setHours(0, 0, 0, 0);
-        
-        // For all-day events, end date is exclusive (e.g., Jan 1 to Jan 3 means Jan 1 and Jan 2)
-        // Calculate number of days the event spans
-        const daysDiff = Math.floor((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-        
-        // Ensure at least one day (in case of single-day event where end = start + 1 day)
-        const numDays = Math.max(1, daysDiff);
-        
-        // Create one event per day
-        for (let i = 0; i < numDays; i++) {
-          const eventStartDate = new Date(startDate);
-          eventStartDate.setDate(eventStartDate.getDate() + i);
-          const eventEndDate = new Date(eventStartDate);
-          eventEndDate.setDate(eventEndDate.getDate() + 1);
-          
-          // Check if this day is within the requested date range
-          if (startDateObj && eventEndDate <= startDateObj) continue; // Event ends before range starts
-          if (endDateObj && eventStartDate > endDateObj) continue; // Event starts after range ends
-          
-          // Generate a unique ID for each day (based on original UID + day offset)
-          const eventIdBase = event.uid ? parseInt(event.uid.replace(/\D/g, '').slice(-9) || '0', 10) || Date.now() : Date.now();
-          const eventId = eventIdBase + i; // Add day offset to make each day unique
-          
+            // Each day of a multi-day event gets its own ID
+            const eventId = getICalEventId(feedId, uid, occurrenceKey, numDays > 1 ? dayKey : null);
+
+            const calendarEvent: CanvasCalendarEvent = {
+              id: eventId,
+              title: summary,
+              start_at: eventStartDate.toISOString(),
+              end_at: eventEndDate.toISOString(),
+              description: description,
+              location_name: locationName,
+              location_address: locationAddress,
+              context_code: contextCode,
+              workflow_state: 'active',
+              url: event.url || '',
+              html_url: event.url || '',
+              all_day: true,
+              all_day_date: dayKey,
+              created_at: event.created ? event.created.toISOString() : eventStartDate.toISOString(),
+              updated_at: event.lastmodified ? event.lastmodified.toISOString() : eventStartDate.toISOString(),
+              type: eventType,
+            };
+
+            calendarEvents.push(calendarEvent);
+          }
+        } else {
+          const startAt = start.toISOString();
+          const endAt = end ? end.toISOString() : null;
+          const eventId = getICalEventId(feedId, uid, occurrenceKey);
+
+          // Create event in CanvasCalendarEvent format
           const calendarEvent: CanvasCalendarEvent = {
             id: eventId,
             title: summary,
-            start_at: eventStartDate.toISOString(),
-            end_at: eventEndDate.toISOString(),
+            start_at: startAt,
+            end_at: endAt,
             description: description,
             location_name: locationName,
             location_address: locationAddress,
-            context_code: 'google_calendar',
+            context_code: contextCode,
             workflow_state: 'active',
             url: event.url || '',
             html_url: event.url || '',
-            all_day: true,
-            all_day_date: eventStartDate.toISOString().split('T')[0],
-            created_at: event.created ? event.created.toISOString() : eventStartDate.toISOString(),
-            updated_at: event.lastmodified ? event.lastmodified.toISOString() : eventStartDate.toISOString(),
+            all_day: false,
+            all_day_date: null,
+            created_at: event.created ? event.created.toISOString() : startAt,
+            updated_at: event.lastmodified ? event.lastmodified.toISOString() : startAt,
             type: eventType,
           };
-          
+
           calendarEvents.push(calendarEvent);
         }
-      } else {
-        // Regular (non-all-day) or single-day event
-        const startAt = start.toISOString();
-        const endAt = end ? end.toISOString() : null;
-        
-        // For all-day events, use date string without time
-        const allDayDate = isAllDay ? start.toISOString().split('T')[0] : null;
-
-        // Generate a stable ID from the event's UID or use timestamp
-        const eventId = event.uid ? parseInt(event.uid.replace(/\D/g, '').slice(-9) || '0', 10) || Date.now() : Date.now();
-
-        // Create event in CanvasCalendarEvent format
-        const calendarEvent: CanvasCalendarEvent = {
-          id: eventId,
-          title: summary,
-          start_at: startAt,
-          end_at: endAt,
-          description: description,
-          location_name: locationName,
-          location_address: locationAddress,
-          context_code: 'google_calendar',
-          workflow_state: 'active',
-          url: event.url || '',
-          html_url: event.url || '',
-          all_day: isAllDay,
-          all_day_date: allDayDate,
-          created_at: event.created ? event.created.toISOString() : startAt,
-          updated_at: event.lastmodified ? event.lastmodified.toISOString() : startAt,
-          type: eventType,
-        };
-
-        calendarEvents.push(calendarEvent);
       }
     }
 
@@ -187,9 +282,9 @@ export async function fetchGoogleCalendarEvents(
 
     return calendarEvents;
   } catch (error) {
-    console.error('Error fetching Google Calendar events:', error);
+    console.error('Error fetching calendar feed events:', error);
     throw error instanceof Error
       ? error
-      : new Error('Failed to fetch Google Calendar events');
+      : new Error('Failed to fetch calendar feed events');
   }
 }
\ No newline at end of file
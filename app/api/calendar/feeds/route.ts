@@ -0,0 +1,93 @@
+import {
+  createCalendarFeed,
+  updateCalendarFeed,
+  deleteCalendarFeed,
+  getCalendarExportConfigError,
+  isFeedToken,
+  CalendarExportConfig,
+} from '../../../lib/calendarFeedStore';
+
+type FeedRequestBody = Partial<CalendarExportConfig> & { feedToken?: unknown };
+
+// The JSON body if it's an object, or null
+async function readBody(request: Request): Promise<FeedRequestBody | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === 'object' && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+function getFeedToken(body: FeedRequestBody | null): string | null {
+  return body && typeof body.feedToken === 'string' && isFeedToken(body.feedToken) ? body.feedToken : null;
+}
+
+/**
+ * Create a calendar subscription. The body is a CalendarExportConfig; the response's
+ * feedToken goes in the subscription URL as /api/calendar?feed=<feedToken>.
+ */
+export async function POST(request: Request) {
+  const body = await readBody(request);
+  if (!body) {
+    return Response.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+  const configError = await getCalendarExportConfigError(body);
+  if (configError) {
+    return Response.json({ error: configError }, { status: 400 });
+  }
+
+  try {
+    const feedToken = await createCalendarFeed(body as CalendarExportConfig);
+    return Response.json({ feedToken });
+  } catch (error) {
+    console.error('Error creating calendar feed:', error);
+    return Response.json({ error: 'Failed to create calendar feed' }, { status: 500 });
+  }
+}
+
+/**
+ * Replace what a subscription exports (new course choices, a new Canvas token, changed
+ * personal events). The body is a CalendarExportConfig plus the feedToken.
+ */
+export async function PUT(request: Request) {
+  const body = await readBody(request);
+  const feedToken = getFeedToken(body);
+  if (!feedToken) {
+    return Response.json({ error: 'A feed token is required' }, { status: 400 });
+  }
+  const configError = await getCalendarExportConfigError(body);
+  if (configError) {
+    return Response.json({ error: configError }, { status: 400 });
+  }
+
+  try {
+    const updated = await updateCalendarFeed(feedToken, body as CalendarExportConfig);
+    if (!updated) {
+      return Response.json({ error: 'This calendar link was revoked or never existed' }, { status: 404 });
+    }
+    return Response.json({ ok: true });
+  } catch (error) {
+    console.error('Error updating calendar feed:', error);
+    return Response.json({ error: 'Failed to update calendar feed' }, { status: 500 });
+  }
+}
+
+/**
+ * Revoke a subscription. The body is { feedToken }; the subscription URL stops working
+ * and the stored Canvas token is deleted.
+ */
+export async function DELETE(request: Request) {
+  const feedToken = getFeedToken(await readBody(request));
+  if (!feedToken) {
+    return Response.json({ error: 'A feed token is required' }, { status: 400 });
+  }
+
+  try {
+    await deleteCalendarFeed(feedToken);
+    return Response.json({ ok: true });
+  } catch (error) {
+    console.error('Error revoking calendar feed:', error);
+    return Response.json({ error: 'Failed to revoke calendar feed' }, { status: 500 });
+  }
+}
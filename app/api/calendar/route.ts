@@ -0,0 +1,122 @@
+import { fetchCalendarEvents, fetchCanvasCourses, CanvasAuth, CanvasCourse } from '../../actions/canvas';
+import { getCanvasErrorCode, describeCanvasError, unwrapCanvasResult } from '../../lib/canvasErrors';
+import { buildICalendar, canvasEventToICal, personalEventToICal } from '../../lib/icalExport';
+import {
+  readCalendarFeed,
+  getCalendarExportConfigError,
+  CalendarExportConfig,
+} from '../../lib/calendarFeedStore';
+
+// Exported window, relative to today
+const EXPORT_PAST_DAYS = 30;
+const EXPORT_FUTURE_DAYS = 180;
+
+function getDateOffset(days: number): string {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+// Build the .ics file for an export config
+async function buildCalendarExport(config: CalendarExportConfig, download: boolean): Promise<Response> {
+  const auth: CanvasAuth = { token: config.canvasToken, baseUrl: config.canvasUrl };
+  const { sections } = config;
+
+  let courses: CanvasCourse[];
+  try {
+    courses = unwrapCanvasResult(await fetchCanvasCourses(auth));
+  } catch (error) {
+    console.error('Error exporting calendar:', error);
+    const status = getCanvasErrorCode(error) === 'invalid_token' ? 401 : 502;
+    return Response.json({ error: describeCanvasError(error, 'Failed to fetch courses from Canvas') }, { status });
+  }
+
+  const courseIds = config.courseIds.length > 0 ? config.courseIds : courses.map(course => course.id);
+  const courseNames = new Map(courses.map(course => [course.id, course.course_code || course.name]));
+  const getCourseName = (courseId: number | null) => (courseId !== null && courseNames.get(courseId)) || null;
+
+  const now = new Date();
+  const eventLines: string[][] = [];
+
+  if ((sections.includes('assignments') || sections.includes('events')) && courseIds.length > 0) {
+    try {
+      const canvasEvents = unwrapCanvasResult(await fetchCalendarEvents(
+        auth,
+        getDateOffset(-EXPORT_PAST_DAYS),
+        getDateOffset(EXPORT_FUTURE_DAYS),
+        courseIds.map(id => `course_${id}`)
+      ));
+      canvasEvents
+        .filter(event => sections.includes(event.type === 'assignment' ? 'assignments' : 'events'))
+        .forEach(event => {
+          const courseId = parseInt(event.context_code.replace('course_', ''), 10);
+          eventLines.push(canvasEventToICal(event, getCourseName(isNaN(courseId) ? null : courseId), now));
+        });
+    } catch (error) {
+      console.error('Error exporting calendar:', error);
+      const status = getCanvasErrorCode(error) === 'invalid_token' ? 401 : 502;
+      return Response.json({ error: describeCanvasError(error, 'Failed to fetch calendar events from Canvas') }, { status });
+    }
+  }
+
+  // Personal items for a course that isn't exported stay out too
+  if (sections.includes('personal')) {
+    config.personalEvents
+      .filter(event => event.courseId === null || courseIds.includes(event.courseId))
+      .forEach(event => eventLines.push(personalEventToICal(event, getCourseName(event.courseId), now)));
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'text/calendar; charset=utf-8',
+    'Cache-Control': 'no-cache',
+  };
+  if (download) {
+    headers['Content-Disposition'] = 'attachment; filename="junior-ledger.ics"';
+  }
+
+  return new Response(buildICalendar('Junior Ledger', eventLines), { headers });
+}
+
+/**
+ * Calendar subscription feed. Calendar apps fetch this URL, so it carries only an opaque
+ * feed token (see app/lib/calendarFeedStore.ts and ./feeds); what it exports is stored
+ * on the server.
+ *   feed        token from POST /api/calendar/feeds
+ *   download=1  send as an attachment instead of a subscribable feed
+ */
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+
+  let config: CalendarExportConfig | null;
+  try {
+    config = await readCalendarFeed(params.get('feed') || '');
+  } catch (error) {
+    console.error('Error reading calendar feed:', error);
+    return Response.json({ error: 'Failed to read calendar feed' }, { status: 500 });
+  }
+  if (!config) {
+    return Response.json({ error: 'This calendar link was revoked or never existed' }, { status: 404 });
+  }
+
+  return buildCalendarExport(config, params.get('download') === '1');
+}
+
+/**
+ * One-off .ics download. The export config is posted as JSON (see CalendarExportConfig;
+ * empty courseIds means every active course) and nothing is stored.
+ */
+export async function POST(request: Request) {
+  let config: unknown;
+  try {
+    config = await request.json();
+  } catch {
+    return Response.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const configError = await getCalendarExportConfigError(config);
+  if (configError) {
+    return Response.json({ error: configError }, { status: 400 });
+  }
+
+  return buildCalendarExport(config as CalendarExportConfig, true);
+}
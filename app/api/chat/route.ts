@@ -0,0 +1,60 @@
+import { streamChatReply, toAssistantError, ChatRequest } from '../../lib/assistantChat';
+
+/**
+ * Stream a Junior Assistant reply as plain text.
+ * The client reads the body incrementally and aborts the fetch to stop generation.
+ */
+export async function POST(request: Request) {
+  let chatRequest: ChatRequest;
+  try {
+    chatRequest = await request.json();
+  } catch {
+    return Response.json({ error: 'Invalid chat request' }, { status: 400 });
+  }
+
+  if (!chatRequest.message || typeof chatRequest.message !== 'string') {
+    return Response.json({ error: 'Message is required' }, { status: 400 });
+  }
+
+  const replyStream = streamChatReply(chatRequest, request.signal);
+
+  // Pull the first chunk before responding so setup errors (API key, quota, model)
+  // come back as a JSON error instead of a half-written stream
+  let firstChunk: IteratorResult<string>;
+  try {
+    firstChunk = await replyStream.next();
+  } catch (error) {
+    console.error('Error calling the assistant model:', error);
+    return Response.json({ error: toAssistantError(error).message }, { status: 500 });
+  }
+
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        if (!firstChunk.done) {
+          controller.enqueue(encoder.encode(firstChunk.value));
+          for await (const text of replyStream) {
+            controller.enqueue(encoder.encode(text));
+          }
+        }
+        controller.close();
+      } catch (error) {
+        // The client stopped the generation; nothing left to send
+        if (request.signal.aborted) return;
+        console.error('Error streaming the assistant response:', error);
+        controller.error(toAssistantError(error));
+      }
+    },
+    async cancel() {
+      await replyStream.return(undefined);
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
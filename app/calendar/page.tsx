@@ -1,13 +1,62 @@
 'use client';
 
 import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
-import { Calendar as CalendarIcon, Loader2, AlertCircle, Check, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Calendar as CalendarIcon, Loader2, AlertCircle, Check, ChevronLeft, ChevronRight, Plus, Pencil } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { getCanvasToken, getAutoRefreshInterval, getGoogleCalendarFeedUrl, getGoogleCalendarSelected, saveGoogleCalendarSelected } from '../lib/courseStorage';
+import { getCanvasAuth, getAutoRefreshInterval, updateCalendarFeed, CalendarFeed } from '../lib/courseStorage';
 import { fetchCalendarEvents, CanvasCalendarEvent, fetchCourseColors } from '../actions/canvas';
-import { fetchGoogleCalendarEvents } from '../actions/googleCalendar';
+import { fetchCalendarFeedEvents } from '../actions/googleCalendar';
+import { describeCanvasError, unwrapCanvasResult } from '../lib/canvasErrors';
 import { useCourses } from '../components/CoursesProvider';
 import { getCourseColors, saveCourseColors, getCalendarSelectedCourses, saveCalendarSelectedCourses } from '../lib/courseStorage';
+import { getPersonalEventsSelected, savePersonalEventsSelected, PersonalEvent } from '../lib/courseStorage';
+import { getCalendarView, saveCalendarView, getUserTimeZone, CalendarView } from '../lib/courseStorage';
+import {
+  usePersonalEvents,
+  expandPersonalEvents,
+  isPersonalCalendarEvent,
+  getPersonalEventCourseId,
+  getPersonalEventId,
+  formatReminder,
+} from '../lib/personalEvents';
+import { useTaskStates, getCalendarEventTaskKey } from '../lib/tasks';
+import { useExamClassifier } from '../lib/exams';
+import { useCalendarFeeds } from '../lib/calendarFeeds';
+import { getCalendarFeedId } from '../lib/eventIds';
+import { useTimeZone } from '../lib/timeZone';
+import { toDateKey, parseDateKey, addDays, getDateKeyInTimeZone, getMinutesIntoDay, formatTime } from '../lib/dates';
+import TaskActions from '../components/TaskActions';
+import PersonalEventForm from '../components/PersonalEventForm';
+
+const PERSONAL_EVENT_COLOR = '#7C3AED';
+
+const CALENDAR_VIEW_LABELS: Record<CalendarView, string> = {
+  month: 'Month',
+  week: 'Week',
+  agenda: 'Agenda',
+};
+
+const HOUR_HEIGHT_PX = 48;
+const WEEK_VIEW_SCROLL_TO_HOUR = 7;
+const AGENDA_WEEKS = 4;
+
+interface WeekEventBlock {
+  event: CanvasCalendarEvent;
+  top: number;
+  height: number;
+  lane: number;
+}
+
+// Sunday at local midnight of the week containing date
+function getStartOfWeek(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay());
+}
+
+// Deadlines have no end time, or end the minute they start
+function isDeadlineEvent(event: CanvasCalendarEvent): boolean {
+  if (!event.end_at) return true;
+  return Math.abs(new Date(event.end_at).getTime() - new Date(event.start_at).getTime()) < 2 * 60 * 1000;
+}
 
 export default function CalendarPage() {
   const { courses } = useCourses();
@@ -16,9 +65,20 @@ export default function CalendarPage() {
   const [error, setError] = useState<string | null>(null);
   const [courseColors, setCourseColors] = useState<Record<number, string>>({});
   const [selectedCourses, setSelectedCourses] = useState<Set<number> | null>(null);
-  const [googleCalendarSelected, setGoogleCalendarSelected] = useState<boolean>(true);
-  const [currentDate, setCurrentDate] = useState(new Date());
-  const [selectedDate, setSelectedDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  // currentDate is a calendar day (local midnight); selectedDate and day keys are YYYY-MM-DD in the
+  // student's timezone, which events are sorted into days by
+  const [currentDate, setCurrentDate] = useState(() => parseDateKey(getDateKeyInTimeZone(new Date(), getUserTimeZone())));
+  const [view, setView] = useState<CalendarView>('month');
+  const [selectedDate, setSelectedDate] = useState<string>(() => getDateKeyInTimeZone(new Date(), getUserTimeZone()));
+  const timeZone = useTimeZone();
+  const todayKey = getDateKeyInTimeZone(new Date(), timeZone);
+  const taskStates = useTaskStates();
+  const examClassifier = useExamClassifier();
+  const personalEvents = usePersonalEvents();
+  const calendarFeeds = useCalendarFeeds();
+  const [personalEventsSelected, setPersonalEventsSelected] = useState<boolean>(true);
+  // The personal event being edited; { event: null } while creating one
+  const [editingPersonalEvent, setEditingPersonalEvent] = useState<{ event: PersonalEvent | null } | null>(null);
 
   // Initialize selected courses - default to all courses selected
   useEffect(() => {
@@ -30,17 +90,18 @@ export default function CalendarPage() {
       setSelectedCourses(new Set(courses.map(c => c.canvasId)));
     }
     
-    // Initialize Google Calendar selection
-    setGoogleCalendarSelected(getGoogleCalendarSelected());
+    // Initialize personal event selection
+    setPersonalEventsSelected(getPersonalEventsSelected());
+    setView(getCalendarView());
   }, [courses]);
 
   // Load course colors from storage and fetch from Canvas if needed
   useEffect(() => {
     const loadCourseColors = async () => {
       const storedColors = getCourseColors();
-      const token = getCanvasToken();
+      const auth = getCanvasAuth();
       
-      if (!token || courses.length === 0) {
+      if (!auth || courses.length === 0) {
         if (Object.keys(storedColors).length > 0) {
           setCourseColors(storedColors);
         }
@@ -55,7 +116,7 @@ export default function CalendarPage() {
       if (coursesNeedingColors.length > 0) {
         try {
           const fetchedColors = await fetchCourseColors(
-            token,
+            auth,
             coursesNeedingColors.map(c => c.canvasId)
           );
           const updatedColors = { ...storedColors, ...fetchedColors };
@@ -76,9 +137,22 @@ export default function CalendarPage() {
     loadCourseColors();
   }, [courses]);
 
+  // Date range to load (current month ± 1 month), which also covers the week and agenda views;
+  // keyed by month so moving between weeks doesn't refetch
+  const currentYear = currentDate.getFullYear();
+  const currentMonth = currentDate.getMonth();
+  const dateRange = useMemo(() => {
+    const startDate = new Date(currentYear, currentMonth - 1, 1);
+    const endDate = new Date(currentYear, currentMonth + 2, 0);
+    return {
+      startDateStr: toDateKey(startDate),
+      endDateStr: toDateKey(endDate),
+    };
+  }, [currentYear, currentMonth]);
+
   // Fetch calendar events
   const loadCalendarEvents = useCallback(async () => {
-    const token = getCanvasToken();
+    const auth = getCanvasAuth();
     const allEvents: CanvasCalendarEvent[] = [];
 
     // Determine which courses to fetch for Canvas
@@ -91,25 +165,20 @@ export default function CalendarPage() {
     setError(null);
 
     try {
-      // Calculate date range (current month ± 1 month)
-      const startDate = new Date(currentDate.getFullYear(), currentDate.getMonth() - 1, 1);
-      const endDate = new Date(currentDate.getFullYear(), currentDate.getMonth() + 2, 0);
-      
-      const startDateStr = startDate.toISOString().split('T')[0];
-      const endDateStr = endDate.toISOString().split('T')[0];
+      const { startDateStr, endDateStr } = dateRange;
 
       // Fetch Canvas calendar events if we have a token and courses
-      if (token && courses.length > 0 && coursesToFetch.size > 0) {
+      if (auth && courses.length > 0 && coursesToFetch.size > 0) {
         try {
           // Build context codes for selected courses
           const contextCodes = Array.from(coursesToFetch).map(id => `course_${id}`);
 
-          const canvasEvents = await fetchCalendarEvents(
-            token,
+          const canvasEvents = unwrapCanvasResult(await fetchCalendarEvents(
+            auth,
             startDateStr,
             endDateStr,
             contextCodes
-          );
+          ));
           allEvents.push(...canvasEvents);
         } catch (err) {
           console.error('Error fetching Canvas events:', err);
@@ -117,25 +186,22 @@ export default function CalendarPage() {
         }
       }
 
-      // Fetch Google Calendar events if URL is configured and selected
-      if (googleCalendarSelected) {
-        const googleCalUrl = getGoogleCalendarFeedUrl();
-        if (googleCalUrl && googleCalUrl.trim() !== '') {
-          try {
-            const googleEvents = await fetchGoogleCalendarEvents(
-              googleCalUrl,
-              startDateStr,
-              endDateStr
-            );
-            allEvents.push(...googleEvents);
-          } catch (err) {
-            console.error('Error fetching Google Calendar events:', err);
-            // Show error but don't block other events from displaying
-            const errorMessage = err instanceof Error ? err.message : 'Failed to load Google Calendar events';
-            setError(errorMessage);
-          }
-        }
-      }
+      // Fetch events from every visible iCal feed; a failing feed doesn't block the others
+      const feedResults = await Promise.all(
+        calendarFeeds
+          .filter(feed => feed.visible && feed.url.trim() !== '')
+          .map(async (feed) => {
+            try {
+              return await fetchCalendarFeedEvents(feed.url, feed.id, timeZone, startDateStr, endDateStr);
+            } catch (err) {
+              console.error(`Error fetching calendar feed ${feed.label}:`, err);
+              const errorMessage = err instanceof Error ? err.message : 'Failed to load calendar feed';
+              setError(`${feed.label}: ${errorMessage}`);
+              return [];
+            }
+          })
+      );
+      allEvents.push(...feedResults.flat());
 
       // Sort all events by start time
       allEvents.sort((a, b) => {
@@ -146,14 +212,14 @@ export default function CalendarPage() {
 
       setEvents(allEvents);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load calendar events';
+      const errorMessage = describeCanvasError(err, 'Failed to load calendar events');
       setError(errorMessage);
       console.error('Error loading calendar events:', err);
       setEvents([]);
     } finally {
       setIsLoading(false);
     }
-  }, [currentDate, courses, selectedCourses, googleCalendarSelected]);
+  }, [dateRange, courses, selectedCourses, calendarFeeds, timeZone]);
 
   useEffect(() => {
     loadCalendarEvents();
@@ -169,8 +235,8 @@ export default function CalendarPage() {
       intervalRef.current = null;
     }
 
-    const token = getCanvasToken();
-    if (!token || courses.length === 0) return;
+    const auth = getCanvasAuth();
+    if (!auth || courses.length === 0) return;
 
     const intervalMinutes = getAutoRefreshInterval();
     if (intervalMinutes <= 0) return; // Auto-refresh disabled
@@ -217,11 +283,16 @@ export default function CalendarPage() {
     saveCalendarSelectedCourses(newSelected);
   };
 
-  // Toggle Google Calendar selection
-  const toggleGoogleCalendarSelection = () => {
-    const newSelected = !googleCalendarSelected;
-    setGoogleCalendarSelected(newSelected);
-    saveGoogleCalendarSelected(newSelected);
+  // Show or hide an iCal feed
+  const toggleFeedVisibility = (feed: CalendarFeed) => {
+    updateCalendarFeed(feed.id, { visible: !feed.visible });
+  };
+
+  // Toggle personal event selection
+  const togglePersonalEventsSelection = () => {
+    const newSelected = !personalEventsSelected;
+    setPersonalEventsSelected(newSelected);
+    savePersonalEventsSelected(newSelected);
   };
 
   // Get course color with fallback
@@ -235,51 +306,76 @@ export default function CalendarPage() {
     return match ? parseInt(match[1], 10) : null;
   };
 
-  // Check if event is from Google Calendar
-  const isGoogleCalendarEvent = useCallback((event: CanvasCalendarEvent): boolean => {
-    return event.type === 'google-calendar' || event.type === 'google-calendar-exam' || event.context_code === 'google_calendar';
-  }, []);
+  // Course an event belongs to (Canvas events) or is associated with (personal events)
+  const getEventCourseId = (event: CanvasCalendarEvent): number | null => {
+    return getCourseIdFromContext(event.context_code) ?? getPersonalEventCourseId(event.context_code);
+  };
+
+  // Color for an event: its course's color, or the color of its source
+  const getEventColor = (event: CanvasCalendarEvent): string => {
+    const courseId = getEventCourseId(event);
+    if (courseId) return getCourseColor(courseId);
+    if (isExamEvent(event)) return '#DC2626';
+    const feed = getEventFeed(event);
+    if (feed) return feed.color;
+    if (isPersonalCalendarEvent(event)) return PERSONAL_EVENT_COLOR;
+    return '#002E5D';
+  };
+
+  // iCal feed an event came from, if any
+  const getEventFeed = useCallback((event: CanvasCalendarEvent): CalendarFeed | null => {
+    const feedId = getCalendarFeedId(event);
+    return feedId === null ? null : calendarFeeds.find(feed => feed.id === feedId) || null;
+  }, [calendarFeeds]);
 
-  // Check if event is an exam/test
+  // Check if event is an exam/test using the shared exam detection rules
   const isExamEvent = useCallback((event: CanvasCalendarEvent): boolean => {
-    return event.type === 'google-calendar-exam';
-  }, []);
+    // Feeds with exam detection off only count events the student tagged by hand
+    const feed = getEventFeed(event);
+    return examClassifier({
+      title: feed && !feed.detectExams ? '' : event.title,
+      courseId: getCourseIdFromContext(event.context_code) ?? getPersonalEventCourseId(event.context_code),
+      taskKey: getCalendarEventTaskKey(event),
+    });
+  }, [examClassifier, getEventFeed]);
+
+  // Check if the student marked an event (or its assignment) done
+  const isEventDone = useCallback((event: CanvasCalendarEvent): boolean => {
+    return !!taskStates[getCalendarEventTaskKey(event)]?.done;
+  }, [taskStates]);
+
+  // Personal tasks and events are expanded locally, so they update without refetching Canvas
+  const personalCalendarEvents = useMemo(() => {
+    return expandPersonalEvents(personalEvents, dateRange.startDateStr, dateRange.endDateStr, timeZone);
+  }, [personalEvents, dateRange, timeZone]);
 
-  // Filter events by selected courses and Google Calendar selection
+  // Filter events by selected courses, feed visibility and personal event selection
   const filteredEvents = useMemo(() => {
-    if (!selectedCourses) return events;
-    return events.filter(event => {
-      // Filter Google Calendar events by selection
-      if (event.type === 'google-calendar' || event.type === 'google-calendar-exam' || event.context_code === 'google_calendar') {
-        return googleCalendarSelected;
+    const personal = personalEventsSelected ? personalCalendarEvents : [];
+    return [...events.filter(event => {
+      // Filter iCal feed events by visibility
+      if (getCalendarFeedId(event) !== null) {
+        return !!getEventFeed(event)?.visible;
       }
+      if (!selectedCourses) return true;
       
       // Filter Canvas events by selected courses
       const courseId = getCourseIdFromContext(event.context_code);
       return courseId !== null && selectedCourses.has(courseId);
-    });
-  }, [events, selectedCourses, googleCalendarSelected]);
-
-  // Helper function to get local date string from ISO string
-  const getLocalDateString = (isoString: string): string => {
-    const date = new Date(isoString);
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-  };
+    }), ...personal];
+  }, [events, selectedCourses, personalCalendarEvents, personalEventsSelected, getEventFeed]);
 
-  // Group events by date (using local timezone)
+  // Group events by date (in the student's timezone)
   const eventsByDate = useMemo(() => {
     const grouped: Record<string, CanvasCalendarEvent[]> = {};
     
     filteredEvents.forEach(event => {
-      // Use all_day_date if available, otherwise parse start_at in local timezone
+      // Use all_day_date if available, otherwise the day start_at falls on in the student's timezone
       let dateKey: string;
       if (event.all_day_date) {
         dateKey = event.all_day_date;
       } else if (event.start_at) {
-        dateKey = getLocalDateString(event.start_at);
+        dateKey = getDateKeyInTimeZone(event.start_at, timeZone);
       } else {
         return; // Skip events without a date
       }
@@ -300,26 +396,117 @@ export default function CalendarPage() {
     });
 
     return grouped;
-  }, [filteredEvents]);
+  }, [filteredEvents, timeZone]);
 
   // Get current month name and year
   const monthYear = useMemo(() => {
     return currentDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
   }, [currentDate]);
 
-  // Navigate months
-  const goToPreviousMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1, 1));
+  // Days shown by the week view and agenda view
+  const weekDays = useMemo(() => {
+    const start = getStartOfWeek(currentDate);
+    return Array.from({ length: 7 }, (_, index) => new Date(start.getFullYear(), start.getMonth(), start.getDate() + index));
+  }, [currentDate]);
+
+  const agendaDays = useMemo(() => {
+    const start = getStartOfWeek(currentDate);
+    return Array.from({ length: AGENDA_WEEKS * 7 }, (_, index) => new Date(start.getFullYear(), start.getMonth(), start.getDate() + index));
+  }, [currentDate]);
+
+  // Heading for the navigation bar
+  const periodTitle = useMemo(() => {
+    if (view === 'month') return monthYear;
+    const days = view === 'week' ? weekDays : agendaDays;
+    const first = days[0];
+    const last = days[days.length - 1];
+    const firstLabel = first.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    const lastLabel = last.toLocaleDateString('en-US', {
+      month: last.getMonth() === first.getMonth() ? undefined : 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+    return `${firstLabel} – ${lastLabel}`;
+  }, [view, monthYear, weekDays, agendaDays]);
+
+  // Navigate by month, week or agenda page depending on the view
+  const goToPrevious = () => {
+    if (view === 'month') {
+      setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1, 1));
+    } else {
+      const days = view === 'week' ? 7 : AGENDA_WEEKS * 7;
+      setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth(), currentDate.getDate() - days));
+    }
+  };
+
+  const goToNext = () => {
+    if (view === 'month') {
+      setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1));
+    } else {
+      const days = view === 'week' ? 7 : AGENDA_WEEKS * 7;
+      setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth(), currentDate.getDate() + days));
+    }
   };
 
-  const goToNextMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1));
+  const changeView = (newView: CalendarView) => {
+    setView(newView);
+    saveCalendarView(newView);
+  };
+
+  // Start the week view at the morning instead of midnight
+  const weekScrollRef = useCallback((element: HTMLDivElement | null) => {
+    if (element) {
+      element.scrollTop = WEEK_VIEW_SCROLL_TO_HOUR * HOUR_HEIGHT_PX;
+    }
+  }, []);
+
+  // Lay out one day of the week view: all-day events on top, timed events as blocks
+  // (side by side when they overlap) and deadlines as markers at their due time
+  const getWeekDayLayout = (dayEvents: CanvasCalendarEvent[]) => {
+    const allDay: CanvasCalendarEvent[] = [];
+    const blocks: WeekEventBlock[] = [];
+    const deadlines: { event: CanvasCalendarEvent; top: number }[] = [];
+    const laneEnds: number[] = [];
+
+    dayEvents.forEach(event => {
+      if (event.all_day || !event.start_at) {
+        allDay.push(event);
+        return;
+      }
+      const startMinutes = getMinutesIntoDay(event.start_at, timeZone);
+      const top = (startMinutes / 60) * HOUR_HEIGHT_PX;
+      if (isDeadlineEvent(event)) {
+        deadlines.push({ event, top });
+        return;
+      }
+
+      const durationMinutes = (new Date(event.end_at as string).getTime() - new Date(event.start_at).getTime()) / (1000 * 60);
+      // Events past midnight are cut off at the end of the day
+      const endMinutes = Math.min(24 * 60, startMinutes + durationMinutes);
+      let lane = laneEnds.findIndex(laneEnd => laneEnd <= startMinutes);
+      if (lane === -1) {
+        lane = laneEnds.length;
+      }
+      laneEnds[lane] = endMinutes;
+      blocks.push({
+        event,
+        top,
+        height: Math.max(20, ((endMinutes - startMinutes) / 60) * HOUR_HEIGHT_PX),
+        lane,
+      });
+    });
+
+    return { allDay, blocks, deadlines, laneCount: Math.max(1, laneEnds.length) };
   };
 
   const goToToday = () => {
-    const today = new Date();
-    setCurrentDate(today);
-    setSelectedDate(today.toISOString().split('T')[0]);
+    setCurrentDate(parseDateKey(todayKey));
+    setSelectedDate(todayKey);
+  };
+
+  // Show a day's events in the schedule above
+  const selectDay = (date: Date) => {
+    setSelectedDate(toDateKey(date));
   };
 
   // Check if a course is selected
@@ -346,7 +533,7 @@ export default function CalendarPage() {
       days.push({
         date,
         isCurrentMonth: false,
-        dateStr: date.toISOString().split('T')[0],
+        dateStr: toDateKey(date),
       });
     }
 
@@ -356,7 +543,7 @@ export default function CalendarPage() {
       days.push({
         date,
         isCurrentMonth: true,
-        dateStr: date.toISOString().split('T')[0],
+        dateStr: toDateKey(date),
       });
     }
 
@@ -367,18 +554,13 @@ export default function CalendarPage() {
       days.push({
         date,
         isCurrentMonth: false,
-        dateStr: date.toISOString().split('T')[0],
+        dateStr: toDateKey(date),
       });
     }
 
     return days;
   }, [currentDate]);
 
-  const formatTime = (dateString: string): string => {
-    const date = new Date(dateString);
-    return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
-  };
-
   // Format time display for events - show deadline if start and end are the same
   const formatEventTime = (event: CanvasCalendarEvent): string => {
     if (event.all_day) {
@@ -397,14 +579,14 @@ export default function CalendarPage() {
       
       // If they're the same or very close (like same minute), treat as deadline
       if (diffMinutes < 2) {
-        return `Due at ${formatTime(event.start_at)}`;
+        return `Due at ${formatTime(event.start_at, timeZone)}`;
       }
       
-      return `${formatTime(event.start_at)} - ${formatTime(event.end_at)}`;
+      return `${formatTime(event.start_at, timeZone)} - ${formatTime(event.end_at, timeZone)}`;
     }
     
     // No end time, just show start time as deadline
-    return `Due at ${formatTime(event.start_at)}`;
+    return `Due at ${formatTime(event.start_at, timeZone)}`;
   };
 
   // Get selected date's events (defaults to today)
@@ -413,32 +595,27 @@ export default function CalendarPage() {
   }, [eventsByDate, selectedDate]);
 
   // Check if selected date is today
-  const isSelectedDateToday = selectedDate === new Date().toISOString().split('T')[0];
+  const isSelectedDateToday = selectedDate === todayKey;
 
   // Format selected date for display
   const selectedDateDisplay = useMemo(() => {
-    const date = new Date(selectedDate + 'T00:00:00');
-    const today = new Date();
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
-
-    if (selectedDate === today.toISOString().split('T')[0]) {
+    const date = parseDateKey(selectedDate);
+
+    if (selectedDate === todayKey) {
       return "Today";
-    } else if (selectedDate === tomorrow.toISOString().split('T')[0]) {
+    } else if (selectedDate === addDays(todayKey, 1)) {
       return "Tomorrow";
-    } else if (selectedDate === yesterday.toISOString().split('T')[0]) {
+    } else if (selectedDate === addDays(todayKey, -1)) {
       return "Yesterday";
     } else {
       return date.toLocaleDateString('en-US', {
         weekday: 'long',
         month: 'long',
         day: 'numeric',
-        year: date.getFullYear() !== today.getFullYear() ? 'numeric' : undefined,
+        year: selectedDate.slice(0, 4) !== todayKey.slice(0, 4) ? 'numeric' : undefined,
       });
     }
-  }, [selectedDate]);
+  }, [selectedDate, todayKey]);
 
   return (
     <div className="space-y-6">
@@ -450,9 +627,16 @@ export default function CalendarPage() {
             Calendar
           </h1>
           <p className="text-lg text-gray-600">
-            View assignments and events from Canvas
+            View assignments and events from Canvas alongside your own plans
           </p>
         </div>
+        <button
+          onClick={() => setEditingPersonalEvent({ event: null })}
+          className="px-4 py-2 bg-[#002E5D] text-white rounded-lg hover:bg-[#004080] transition-colors text-sm font-medium flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          New Event
+        </button>
       </div>
 
       {/* Main Content Layout: 2/3 Today's Schedule, 1/3 Calendar Selection */}
@@ -468,22 +652,27 @@ export default function CalendarPage() {
               {selectedDateEvents.length > 0 ? (
                 <div className="space-y-3">
                   {selectedDateEvents.map((event) => {
-                  const courseId = getCourseIdFromContext(event.context_code);
-                  const isGoogleEvent = isGoogleCalendarEvent(event);
+                  const courseId = getEventCourseId(event);
+                  const feed = getEventFeed(event);
+                  const isPersonal = isPersonalCalendarEvent(event);
                   const isExam = isExamEvent(event);
-                  const color = courseId ? getCourseColor(courseId) : (isExam ? '#DC2626' : isGoogleEvent ? '#4285F4' : '#002E5D');
+                  const color = getEventColor(event);
                   const course = courseId ? courses.find(c => c.canvasId === courseId) : null;
+                  const isDone = isEventDone(event);
+                  const personalEvent = isPersonal
+                    ? personalEvents.find(candidate => candidate.id === getPersonalEventId(event)) || null
+                    : null;
                   
                   return (
                     <div
-                      key={`${event.type}-${event.id}`}
-                      className="p-4 rounded-lg border-l-4 hover:shadow-md transition-shadow"
+                      key={event.id}
+                      className={`p-4 rounded-lg border-l-4 hover:shadow-md transition-shadow ${isDone ? 'opacity-60' : ''}`}
                       style={{ borderLeftColor: color }}
                     >
                       <div className="flex items-start justify-between gap-4">
                         <div className="flex-1">
                           <div className="flex items-center gap-2 mb-1">
-                            <h3 className="font-semibold text-gray-900">{event.title}</h3>
+                            <h3 className={`font-semibold text-gray-900 ${isDone ? 'line-through' : ''}`}>{event.title}</h3>
                             {course && (
                               <span
                                 className="text-xs px-2 py-0.5 rounded-full text-white font-medium"
@@ -500,12 +689,20 @@ export default function CalendarPage() {
                                 📝 Exam/Test
                               </span>
                             )}
-                            {isGoogleEvent && !isExam && (
+                            {feed && !isExam && (
                               <span
                                 className="text-xs px-2 py-0.5 rounded-full text-white font-medium"
-                                style={{ backgroundColor: '#4285F4' }}
+                                style={{ backgroundColor: feed.color }}
                               >
-                                Google Calendar
+                                {feed.label}
+                              </span>
+                            )}
+                            {isPersonal && (
+                              <span
+                                className="text-xs px-2 py-0.5 rounded-full text-white font-medium"
+                                style={{ backgroundColor: PERSONAL_EVENT_COLOR }}
+                              >
+                                {event.type === 'personal-task' ? 'Task' : 'Personal'}
                               </span>
                             )}
                           </div>
@@ -517,22 +714,40 @@ export default function CalendarPage() {
                               📍 {event.location_name}
                             </p>
                           )}
+                          {personalEvent && formatReminder(personalEvent.reminderMinutes) && (
+                            <p className="text-sm text-gray-500 mt-1">
+                              🔔 {formatReminder(personalEvent.reminderMinutes)}
+                            </p>
+                          )}
                           {event.description && (
                             <p className="text-sm text-gray-600 mt-2 line-clamp-1">
                               {event.description.replace(/<[^>]*>/g, '')}
                             </p>
                           )}
                         </div>
-                        {event.html_url && (
-                          <a
-                            href={event.html_url}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-[#002E5D] hover:text-[#004080] text-sm font-medium whitespace-nowrap"
-                          >
-                            View →
-                          </a>
-                        )}
+                        <div className="flex items-center gap-2">
+                          {personalEvent && (
+                            <button
+                              onClick={() => setEditingPersonalEvent({ event: personalEvent })}
+                              className="p-1.5 text-gray-400 hover:text-[#002E5D] hover:bg-gray-100 rounded-lg transition-colors"
+                              aria-label="Edit event"
+                              title="Edit"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </button>
+                          )}
+                          {event.html_url && (
+                            <a
+                              href={event.html_url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-[#002E5D] hover:text-[#004080] text-sm font-medium whitespace-nowrap"
+                            >
+                              View →
+                            </a>
+                          )}
+                          <TaskActions taskKey={getCalendarEventTaskKey(event)} isExam={isExam} />
+                        </div>
                       </div>
                     </div>
                   );
@@ -555,14 +770,15 @@ export default function CalendarPage() {
               Calendars
             </h2>
             
-            {/* List of all calendars (Google Calendar + Canvas Courses) */}
+            {/* List of all calendars (iCal feeds + personal events + Canvas Courses) */}
             <div className="space-y-2">
-              {/* Google Calendar (if configured) */}
-              {getGoogleCalendarFeedUrl() && (
+              {/* iCal feeds */}
+              {calendarFeeds.map((feed) => (
                 <button
-                  onClick={toggleGoogleCalendarSelection}
+                  key={feed.id}
+                  onClick={() => toggleFeedVisibility(feed)}
                   className={`flex items-center gap-3 p-2 rounded-lg border transition-all w-full text-left ${
-                    googleCalendarSelected
+                    feed.visible
                       ? 'border-[#002E5D] bg-blue-50'
                       : 'border-gray-200 bg-white hover:border-gray-300'
                   }`}
@@ -570,22 +786,49 @@ export default function CalendarPage() {
                   <div
                     className="w-4 h-4 rounded border-2 flex items-center justify-center flex-shrink-0 transition-colors"
                     style={{
-                      backgroundColor: googleCalendarSelected ? '#002E5D' : 'white',
-                      borderColor: '#002E5D',
+                      backgroundColor: feed.visible ? feed.color : 'white',
+                      borderColor: feed.color,
                     }}
                   >
-                    {googleCalendarSelected && (
+                    {feed.visible && (
                       <Check className="w-2.5 h-2.5 text-white" strokeWidth={3} />
                     )}
                   </div>
-                  <span className={`text-sm font-medium flex-1 ${
-                    googleCalendarSelected ? 'text-gray-900' : 'text-gray-500'
+                  <span className={`text-sm font-medium flex-1 truncate ${
+                    feed.visible ? 'text-gray-900' : 'text-gray-500'
                   }`}>
-                    Google Calendar
+                    {feed.label}
                   </span>
                 </button>
-              )}
+              ))}
               
+              {/* Personal tasks and events */}
+              <button
+                onClick={togglePersonalEventsSelection}
+                className={`flex items-center gap-3 p-2 rounded-lg border transition-all w-full text-left ${
+                  personalEventsSelected
+                    ? 'border-[#002E5D] bg-blue-50'
+                    : 'border-gray-200 bg-white hover:border-gray-300'
+                }`}
+              >
+                <div
+                  className="w-4 h-4 rounded border-2 flex items-center justify-center flex-shrink-0 transition-colors"
+                  style={{
+                    backgroundColor: personalEventsSelected ? PERSONAL_EVENT_COLOR : 'white',
+                    borderColor: PERSONAL_EVENT_COLOR,
+                  }}
+                >
+                  {personalEventsSelected && (
+                    <Check className="w-2.5 h-2.5 text-white" strokeWidth={3} />
+                  )}
+                </div>
+                <span className={`text-sm font-medium flex-1 ${
+                  personalEventsSelected ? 'text-gray-900' : 'text-gray-500'
+                }`}>
+                  My Tasks &amp; Events
+                </span>
+              </button>
+
               {/* Canvas Courses */}
               {courses.length === 0 ? (
                 <p className="text-sm text-gray-500 py-2">No courses available. Please sync your Canvas account in Settings.</p>
@@ -648,25 +891,38 @@ export default function CalendarPage() {
       <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
         <div className="flex items-center justify-between mb-6">
           <button
-            onClick={goToPreviousMonth}
+            onClick={goToPrevious}
             className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
-            aria-label="Previous month"
+            aria-label={view === 'agenda' ? 'Previous weeks' : `Previous ${view}`}
           >
             <ChevronLeft className="w-5 h-5" />
           </button>
-          <div className="flex items-center gap-4">
-            <h2 className="text-2xl font-bold text-[#002E5D]">{monthYear}</h2>
+          <div className="flex items-center gap-4 flex-wrap justify-center">
+            <h2 className="text-2xl font-bold text-[#002E5D]">{periodTitle}</h2>
             <button
               onClick={goToToday}
               className="px-4 py-2 bg-[#002E5D] text-white rounded-lg hover:bg-[#004080] transition-colors text-sm font-medium"
             >
               Today
             </button>
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm font-medium">
+              {(Object.keys(CALENDAR_VIEW_LABELS) as CalendarView[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => changeView(option)}
+                  className={`px-3 py-2 transition-colors ${
+                    view === option ? 'bg-[#002E5D] text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {CALENDAR_VIEW_LABELS[option]}
+                </button>
+              ))}
+            </div>
           </div>
           <button
-            onClick={goToNextMonth}
+            onClick={goToNext}
             className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
-            aria-label="Next month"
+            aria-label={view === 'agenda' ? 'Next weeks' : `Next ${view}`}
           >
             <ChevronRight className="w-5 h-5" />
           </button>
@@ -677,6 +933,206 @@ export default function CalendarPage() {
           <div className="flex items-center justify-center py-12">
             <Loader2 className="w-8 h-8 animate-spin text-[#002E5D]" />
           </div>
+        ) : view === 'week' ? (
+          <div className="overflow-x-auto">
+            <div className="min-w-[700px]">
+              {/* Day headers and all-day events */}
+              <div className="grid grid-cols-[3.5rem_repeat(7,minmax(0,1fr))] border-b border-gray-200">
+                <div />
+                {weekDays.map(date => {
+                  const dateKey = toDateKey(date);
+                  const { allDay } = getWeekDayLayout(eventsByDate[dateKey] || []);
+                  const isToday = dateKey === todayKey;
+                  return (
+                    <div key={dateKey} className="px-1 pb-2 border-l border-gray-100">
+                      <button
+                        onClick={() => selectDay(date)}
+                        className={`w-full text-center py-1 rounded-lg transition-colors hover:bg-gray-100 ${
+                          dateKey === selectedDate ? 'bg-blue-50 text-[#002E5D]' : ''
+                        }`}
+                      >
+                        <div className="text-xs font-semibold text-gray-600">
+                          {date.toLocaleDateString('en-US', { weekday: 'short' })}
+                        </div>
+                        <div className={`text-lg font-bold ${isToday ? 'text-[#002E5D]' : 'text-gray-900'}`}>
+                          {date.getDate()}
+                        </div>
+                      </button>
+                      <div className="space-y-1 mt-1">
+                        {allDay.map(event => {
+                          const color = getEventColor(event);
+                          return (
+                            <button
+                              key={event.id}
+                              onClick={() => selectDay(date)}
+                              className={`w-full text-left text-xs p-1 rounded truncate font-medium ${isEventDone(event) ? 'line-through opacity-60' : ''}`}
+                              style={{ backgroundColor: `${color}20`, borderLeft: `3px solid ${color}`, color: '#1f2937' }}
+                              title={event.title}
+                            >
+                              {event.title}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Time grid */}
+              <div ref={weekScrollRef} className="max-h-[600px] overflow-y-auto">
+                <div className="grid grid-cols-[3.5rem_repeat(7,minmax(0,1fr))] relative" style={{ height: 24 * HOUR_HEIGHT_PX }}>
+                  <div className="relative">
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <div
+                        key={hour}
+                        className="absolute right-2 text-xs text-gray-500 -translate-y-1/2"
+                        style={{ top: hour * HOUR_HEIGHT_PX }}
+                      >
+                        {hour === 0 ? '' : new Date(2000, 0, 1, hour).toLocaleTimeString('en-US', { hour: 'numeric' })}
+                      </div>
+                    ))}
+                  </div>
+                  {weekDays.map(date => {
+                    const dateKey = toDateKey(date);
+                    const { blocks, deadlines, laneCount } = getWeekDayLayout(eventsByDate[dateKey] || []);
+                    const isToday = dateKey === todayKey;
+                    return (
+                      <div
+                        key={dateKey}
+                        onClick={() => selectDay(date)}
+                        className={`relative border-l border-gray-100 cursor-pointer ${dateKey === selectedDate ? 'bg-blue-50/40' : ''}`}
+                      >
+                        {Array.from({ length: 24 }, (_, hour) => (
+                          <div
+                            key={hour}
+                            className="absolute inset-x-0 border-t border-gray-100"
+                            style={{ top: hour * HOUR_HEIGHT_PX }}
+                          />
+                        ))}
+                        {blocks.map(({ event, top, height, lane }) => {
+                          const color = getEventColor(event);
+                          return (
+                            <div
+                              key={event.id}
+                              className={`absolute rounded px-1 py-0.5 text-xs overflow-hidden ${isEventDone(event) ? 'line-through opacity-60' : ''}`}
+                              style={{
+                                top,
+                                height,
+                                left: `${(lane / laneCount) * 100}%`,
+                                width: `${100 / laneCount}%`,
+                                backgroundColor: `${color}20`,
+                                borderLeft: `3px solid ${color}`,
+                                color: '#1f2937',
+                              }}
+                              title={`${event.title} (${formatEventTime(event)})`}
+                            >
+                              <div className="font-medium truncate">{event.title}</div>
+                              <div className="text-gray-600 truncate">{formatEventTime(event)}</div>
+                            </div>
+                          );
+                        })}
+                        {deadlines.map(({ event, top }) => {
+                          const color = getEventColor(event);
+                          return (
+                            <div
+                              key={event.id}
+                              className={`absolute inset-x-0 flex items-center gap-1 -translate-y-1/2 z-10 ${isEventDone(event) ? 'opacity-60' : ''}`}
+                              style={{ top }}
+                              title={`${event.title} (${formatEventTime(event)})`}
+                            >
+                              <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: color }} />
+                              <span
+                                className={`text-[10px] font-medium truncate px-1 rounded bg-white border ${isEventDone(event) ? 'line-through' : ''}`}
+                                style={{ borderColor: color }}
+                              >
+                                {event.title}
+                              </span>
+                            </div>
+                          );
+                        })}
+                        {isToday && (
+                          <div
+                            className="absolute inset-x-0 border-t-2 border-red-500 z-20 pointer-events-none"
+                            style={{ top: (getMinutesIntoDay(new Date(), timeZone) / 60) * HOUR_HEIGHT_PX }}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+          </div>
+        ) : view === 'agenda' ? (
+          <div className="max-h-[700px] overflow-y-auto space-y-6 pr-1">
+            {Array.from({ length: AGENDA_WEEKS }, (_, week) => {
+              const days = agendaDays.slice(week * 7, week * 7 + 7);
+              const daysWithEvents = days.filter(date => (eventsByDate[toDateKey(date)] || []).length > 0);
+              return (
+                <div key={toDateKey(days[0])}>
+                  <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2 sticky top-0 bg-white py-1">
+                    Week of {days[0].toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}
+                  </h3>
+                  {daysWithEvents.length === 0 ? (
+                    <p className="text-sm text-gray-400 italic">Nothing scheduled</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {daysWithEvents.map(date => {
+                        const dateKey = toDateKey(date);
+                        const isToday = dateKey === todayKey;
+                        return (
+                          <div key={dateKey} className="flex gap-4">
+                            <button
+                              onClick={() => selectDay(date)}
+                              className={`w-14 flex-shrink-0 text-center rounded-lg py-1 transition-colors hover:bg-gray-100 ${
+                                dateKey === selectedDate ? 'bg-blue-50' : ''
+                              }`}
+                            >
+                              <div className="text-xs font-semibold text-gray-600">
+                                {date.toLocaleDateString('en-US', { weekday: 'short' })}
+                              </div>
+                              <div className={`text-xl font-bold ${isToday ? 'text-[#002E5D]' : 'text-gray-900'}`}>
+                                {date.getDate()}
+                              </div>
+                            </button>
+                            <div className="flex-1 space-y-2">
+                              {eventsByDate[dateKey].map(event => {
+                                const courseId = getEventCourseId(event);
+                                const course = courseId ? courses.find(c => c.canvasId === courseId) : null;
+                                const isDone = isEventDone(event);
+                                return (
+                                  <button
+                                    key={event.id}
+                                    onClick={() => selectDay(date)}
+                                    className={`w-full text-left p-2 rounded-lg border-l-4 hover:bg-gray-50 transition-colors flex items-center justify-between gap-3 ${isDone ? 'opacity-60' : ''}`}
+                                    style={{ borderLeftColor: getEventColor(event) }}
+                                  >
+                                    <div className="min-w-0">
+                                      <p className={`text-sm font-medium text-gray-900 truncate ${isDone ? 'line-through' : ''}`}>{event.title}</p>
+                                      <p className="text-xs text-gray-600">
+                                        {formatEventTime(event)}
+                                        {course && ` · ${course.nickname}`}
+                                      </p>
+                                    </div>
+                                    {isExamEvent(event) && (
+                                      <span className="text-xs px-2 py-0.5 rounded-full text-white font-medium flex-shrink-0" style={{ backgroundColor: '#DC2626' }}>
+                                        📝 Exam/Test
+                                      </span>
+                                    )}
+                                  </button>
+                                );
+                              })}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
         ) : (
           <>
             {/* Day headers */}
@@ -692,7 +1148,7 @@ export default function CalendarPage() {
             <div className="grid grid-cols-7 gap-2">
               {calendarDays.map((day, index) => {
                 const dayEvents = eventsByDate[day.dateStr] || [];
-                const isToday = day.dateStr === new Date().toISOString().split('T')[0];
+                const isToday = day.dateStr === todayKey;
                 const isSelected = day.dateStr === selectedDate;
                 
                 return (
@@ -716,15 +1172,12 @@ export default function CalendarPage() {
                     </div>
                     <div className="space-y-1">
                       {dayEvents.slice(0, 3).map((event) => {
-                        const courseId = getCourseIdFromContext(event.context_code);
-                        const isGoogleEvent = isGoogleCalendarEvent(event);
-                        const isExam = isExamEvent(event);
-                        const color = courseId ? getCourseColor(courseId) : (isExam ? '#DC2626' : isGoogleEvent ? '#4285F4' : '#002E5D');
+                        const color = getEventColor(event);
                         
                         return (
                           <div
-                            key={`${event.type}-${event.id}`}
-                            className="text-xs p-1 rounded truncate font-medium"
+                            key={event.id}
+                            className={`text-xs p-1 rounded truncate font-medium ${isEventDone(event) ? 'line-through opacity-60' : ''}`}
                             style={{
                               backgroundColor: `${color}20`,
                               borderLeft: `3px solid ${color}`,
@@ -759,7 +1212,7 @@ export default function CalendarPage() {
       </div>
 
       {/* Event List for Selected Month */}
-      {!isLoading && filteredEvents.length > 0 && (
+      {!isLoading && view === 'month' && filteredEvents.length > 0 && (
         <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
           <h2 className="text-xl font-semibold text-[#002E5D] mb-4">
             Events in {monthYear}
@@ -768,13 +1221,13 @@ export default function CalendarPage() {
             {Object.keys(eventsByDate)
               .sort()
               .filter(dateStr => {
-                const date = new Date(dateStr);
+                const date = parseDateKey(dateStr);
                 return date.getMonth() === currentDate.getMonth() && 
                        date.getFullYear() === currentDate.getFullYear();
               })
               .map((dateStr) => {
                 const dateEvents = eventsByDate[dateStr];
-                const date = new Date(dateStr);
+                const date = parseDateKey(dateStr);
                 
                 return (
                   <div key={dateStr} className="border-l-4 border-[#002E5D] pl-4 py-2">
@@ -787,22 +1240,23 @@ export default function CalendarPage() {
                     </div>
                     <div className="space-y-2">
                       {dateEvents.map((event) => {
-                        const courseId = getCourseIdFromContext(event.context_code);
-                        const isGoogleEvent = isGoogleCalendarEvent(event);
+                        const courseId = getEventCourseId(event);
+                        const feed = getEventFeed(event);
+                        const isPersonal = isPersonalCalendarEvent(event);
                         const isExam = isExamEvent(event);
-                        const color = courseId ? getCourseColor(courseId) : (isExam ? '#DC2626' : isGoogleEvent ? '#4285F4' : '#002E5D');
+                        const color = getEventColor(event);
                         const course = courseId ? courses.find(c => c.canvasId === courseId) : null;
                         
                         return (
                           <div
-                            key={`${event.type}-${event.id}`}
-                            className="p-3 rounded-lg border-l-4"
+                            key={event.id}
+                            className={`p-3 rounded-lg border-l-4 ${isEventDone(event) ? 'opacity-60' : ''}`}
                             style={{ borderLeftColor: color }}
                           >
                             <div className="flex items-start justify-between gap-4">
                               <div className="flex-1">
                                 <div className="flex items-center gap-2 mb-1">
-                                  <h3 className="font-semibold text-gray-900">{event.title}</h3>
+                                  <h3 className={`font-semibold text-gray-900 ${isEventDone(event) ? 'line-through' : ''}`}>{event.title}</h3>
                                   {course && (
                                     <span
                                       className="text-xs px-2 py-0.5 rounded-full text-white font-medium"
@@ -819,12 +1273,20 @@ export default function CalendarPage() {
                                       📝 Exam/Test
                                     </span>
                                   )}
-                                  {isGoogleEvent && !isExam && (
+                                  {feed && !isExam && (
                                     <span
                                       className="text-xs px-2 py-0.5 rounded-full text-white font-medium"
-                                      style={{ backgroundColor: '#4285F4' }}
+                                      style={{ backgroundColor: feed.color }}
                                     >
-                                      Google Calendar
+                                      {feed.label}
+                                    </span>
+                                  )}
+                                  {isPersonal && (
+                                    <span
+                                      className="text-xs px-2 py-0.5 rounded-full text-white font-medium"
+                                      style={{ backgroundColor: PERSONAL_EVENT_COLOR }}
+                                    >
+                                      {event.type === 'personal-task' ? 'Task' : 'Personal'}
                                     </span>
                                   )}
                                 </div>
@@ -870,6 +1332,14 @@ export default function CalendarPage() {
           <p className="text-blue-800">No events found for the selected courses</p>
         </div>
       )}
+
+      {editingPersonalEvent && (
+        <PersonalEventForm
+          event={editingPersonalEvent.event}
+          defaultDate={selectedDate}
+          onClose={() => setEditingPersonalEvent(null)}
+        />
+      )}
     </div>
   );
 }
@@ -3,12 +3,16 @@
 import { useState, useEffect } from 'react';
 import { Info, CheckCircle2, Loader2, Link as LinkIcon, Eye, EyeOff } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { saveCanvasToken, getCanvasToken, getHiddenCourses, showCourse } from '../lib/courseStorage';
-import { fetchCanvasCourses, CanvasCourse } from '../actions/canvas';
+import { saveCanvasToken, getCanvasToken, getCanvasAuth, getCanvasBaseUrl, saveCanvasBaseUrl, getHiddenCourses, showCourse } from '../lib/courseStorage';
+import { fetchCanvasCourses, fetchAllStudentCourses, validateCanvasConnection } from '../actions/canvas';
+import { normalizeCanvasBaseUrl } from '../lib/canvasUrl';
+import { describeCanvasError, unwrapCanvasResult } from '../lib/canvasErrors';
 import { useCourses } from '../components/CoursesProvider';
 
 export default function CanvasSyncPage() {
   const [token, setToken] = useState('');
+  const [canvasUrl, setCanvasUrl] = useState('');
+  const [connectedAs, setConnectedAs] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [showInfo, setShowInfo] = useState(false);
@@ -22,29 +26,22 @@ export default function CanvasSyncPage() {
     if (savedToken) {
       setToken(savedToken);
     }
+    setCanvasUrl(getCanvasBaseUrl());
     loadHiddenCourses();
   }, []);
 
   const loadHiddenCourses = async () => {
-    const token = getCanvasToken();
-    if (!token) return;
+    const auth = getCanvasAuth();
+    if (!auth) return;
 
     try {
       // Fetch ALL courses including hidden ones to show in the hidden section
-      const response = await fetch(`https://byu.instructure.com/api/v1/courses?enrollment_type=student&enrollment_state=active&per_page=100&include[]=all_courses`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-      
-      if (response.ok) {
-        const allCourses = await response.json();
-        const hiddenIds = getHiddenCourses();
-        const hidden = allCourses
-          .filter((course: CanvasCourse) => hiddenIds.includes(course.id))
-          .map((course: CanvasCourse) => ({ id: course.id, name: course.name || course.course_code || 'Unnamed Course' }));
-        setHiddenCourses(hidden);
-      }
+      const allCourses = unwrapCanvasResult(await fetchAllStudentCourses(auth));
+      const hiddenIds = getHiddenCourses();
+      const hidden = allCourses
+        .filter(course => hiddenIds.includes(course.id))
+        .map(course => ({ id: course.id, name: course.name || course.course_code || 'Unnamed Course' }));
+      setHiddenCourses(hidden);
     } catch (err) {
       // Silently fail - hidden courses are optional
     }
@@ -64,16 +61,29 @@ export default function CanvasSyncPage() {
       return;
     }
 
+    let baseUrl: string;
+    try {
+      baseUrl = normalizeCanvasBaseUrl(canvasUrl);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid Canvas URL');
+      return;
+    }
+
     setIsLoading(true);
     setIsSuccess(false);
     setError(null);
 
     try {
-      // Test the token by fetching courses
-      await fetchCanvasCourses(token);
+      // Check the URL and token against /users/self, then make sure courses load
+      const auth = { token: token.trim(), baseUrl };
+      const userName = unwrapCanvasResult(await validateCanvasConnection(auth));
+      unwrapCanvasResult(await fetchCanvasCourses(auth));
       
-      // Save the token if successful
-      saveCanvasToken(token);
+      // Save the URL and token if successful
+      saveCanvasBaseUrl(baseUrl);
+      saveCanvasToken(auth.token);
+      setCanvasUrl(baseUrl);
+      setConnectedAs(userName);
       
       // Refresh courses to show them in the sidebar
       await refreshCourses();
@@ -86,7 +96,7 @@ export default function CanvasSyncPage() {
         setIsSuccess(false);
       }, 5000);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to connect to Canvas');
+      setError(describeCanvasError(err, 'Failed to connect to Canvas'));
     } finally {
       setIsLoading(false);
     }
@@ -100,13 +110,35 @@ export default function CanvasSyncPage() {
           Canvas Sync
         </h1>
         <p className="text-lg text-gray-600">
-          Connect your BYU Canvas account to sync assignments and deadlines
+          Connect your Canvas account to sync assignments and deadlines
         </p>
       </div>
 
       {/* Settings Form */}
       <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
         <form onSubmit={handleSync} className="space-y-6">
+          {/* Canvas URL Input */}
+          <div>
+            <label
+              htmlFor="canvas-url"
+              className="block text-sm font-semibold text-gray-700 mb-2"
+            >
+              Canvas URL
+            </label>
+            <input
+              type="text"
+              id="canvas-url"
+              value={canvasUrl}
+              onChange={(e) => setCanvasUrl(e.target.value)}
+              placeholder="https://byu.instructure.com"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#002E5D] focus:border-transparent"
+              disabled={isLoading}
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              The address you use to log in to Canvas at your school
+            </p>
+          </div>
+
           {/* Token Input */}
           <div>
             <label
@@ -152,7 +184,7 @@ export default function CanvasSyncPage() {
                       How to get your token
                     </h3>
                     <ol className="list-decimal list-inside space-y-1 text-sm text-blue-800">
-                      <li>Go to BYU Canvas and log in to your account</li>
+                      <li>Go to your school&apos;s Canvas site and log in to your account</li>
                       <li>Click on your profile picture in the top right</li>
                       <li>Select "Settings" from the dropdown menu</li>
                       <li>Scroll down to "Approved Integrations"</li>
@@ -198,7 +230,7 @@ export default function CanvasSyncPage() {
               >
                 <CheckCircle2 className="w-5 h-5 text-green-600 flex-shrink-0" />
                 <p className="text-green-800 font-medium">
-                  Connected to BYU Canvas
+                  Connected to Canvas{connectedAs ? ` as ${connectedAs}` : ''}
                 </p>
               </motion.div>
             )}
@@ -272,30 +304,23 @@ export default function CanvasSyncPage() {
         </p>
         <button
           onClick={async () => {
-            const token = getCanvasToken();
-            if (!token) {
+            const auth = getCanvasAuth();
+            if (!auth) {
               alert('Please sync your Canvas token first');
               return;
             }
             try {
-              const response = await fetch(`https://byu.instructure.com/api/v1/courses?enrollment_type=student&per_page=100`, {
-                headers: {
-                  'Authorization': `Bearer ${token}`,
-                },
-              });
-              if (response.ok) {
-                const allCourses = await response.json();
-                console.log('All Canvas Courses:', allCourses);
-                const acc409 = allCourses.find((c: any) => 
-                  c.name?.includes('409') || 
-                  c.course_code?.includes('409') ||
-                  c.name?.includes('Integrated Topics')
-                );
-                if (acc409) {
-                  alert(`Found ACC 409! Name: ${acc409.name}, Code: ${acc409.course_code}, State: ${acc409.workflow_state}, ID: ${acc409.id}\n\nCheck console (F12) for full list.`);
-                } else {
-                  alert(`Checked ${allCourses.length} courses. ACC 409 not found. Check the browser console (F12) to see all courses.`);
-                }
+              const allCourses = unwrapCanvasResult(await fetchAllStudentCourses(auth, false));
+              console.log('All Canvas Courses:', allCourses);
+              const acc409 = allCourses.find(c => 
+                c.name?.includes('409') || 
+                c.course_code?.includes('409') ||
+                c.name?.includes('Integrated Topics')
+              );
+              if (acc409) {
+                alert(`Found ACC 409! Name: ${acc409.name}, Code: ${acc409.course_code}, State: ${acc409.workflow_state}, ID: ${acc409.id}\n\nCheck console (F12) for full list.`);
+              } else {
+                alert(`Checked ${allCourses.length} courses. ACC 409 not found. Check the browser console (F12) to see all courses.`);
               }
             } catch (err) {
               console.error('Error fetching all courses:', err);
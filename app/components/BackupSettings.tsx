@@ -0,0 +1,163 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, Upload, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+import { useCourses } from './CoursesProvider';
+import { exportBackup, importBackup, ImportMode, ImportResult } from '../lib/backup';
+
+export default function BackupSettings() {
+  const { refreshCourses } = useCourses();
+  const [includeToken, setIncludeToken] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const blob = await exportBackup(includeToken);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `junior-ledger-backup-${new Date().toISOString().split('T')[0]}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting backup:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export backup');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importFile) return;
+    if (importMode === 'replace' && !window.confirm('Replace all Junior Ledger data on this device with the backup? This cannot be undone.')) {
+      return;
+    }
+
+    setIsImporting(true);
+    setError(null);
+    setImportResult(null);
+    try {
+      const result = await importBackup(importFile, importMode);
+      setImportResult(result);
+      await refreshCourses();
+    } catch (err) {
+      console.error('Error importing backup:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import backup');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Export */}
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 space-y-4">
+        <h2 className="text-xl font-semibold text-[#002E5D] flex items-center gap-2">
+          <Download className="w-5 h-5" />
+          Export Backup
+        </h2>
+        <p className="text-sm text-gray-600">
+          Downloads a zip with your course nicknames, hidden courses, chat histories, calendar settings and uploaded files. Downloaded Canvas files aren&apos;t included; they are fetched again from Canvas.
+        </p>
+        <label className="flex items-start gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={includeToken}
+            onChange={(e) => setIncludeToken(e.target.checked)}
+            className="mt-0.5"
+          />
+          <span>
+            Include my Canvas access token
+            <span className="block text-xs text-gray-500">Also includes your calendar subscription link. Anyone with the backup file could use them to access your Canvas account.</span>
+          </span>
+        </label>
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="px-4 py-2 bg-[#002E5D] text-white rounded-lg hover:bg-[#004080] transition-colors disabled:opacity-50 flex items-center gap-2"
+        >
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Export
+        </button>
+      </div>
+
+      {/* Import */}
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 space-y-4">
+        <h2 className="text-xl font-semibold text-[#002E5D] flex items-center gap-2">
+          <Upload className="w-5 h-5" />
+          Restore Backup
+        </h2>
+        <input
+          type="file"
+          accept=".zip,application/zip"
+          onChange={(e) => {
+            setImportFile(e.target.files?.[0] || null);
+            setImportResult(null);
+            setError(null);
+          }}
+          className="block text-sm text-gray-700"
+        />
+        <div className="space-y-2 text-sm text-gray-700">
+          <label className="flex items-start gap-2">
+            <input
+              type="radio"
+              name="import-mode"
+              checked={importMode === 'merge'}
+              onChange={() => setImportMode('merge')}
+              className="mt-0.5"
+            />
+            <span>
+              Merge
+              <span className="block text-xs text-gray-500">Keep what&apos;s on this device and add anything missing from the backup.</span>
+            </span>
+          </label>
+          <label className="flex items-start gap-2">
+            <input
+              type="radio"
+              name="import-mode"
+              checked={importMode === 'replace'}
+              onChange={() => setImportMode('replace')}
+              className="mt-0.5"
+            />
+            <span>
+              Replace
+              <span className="block text-xs text-gray-500">Delete Junior Ledger data on this device, then restore the backup.</span>
+            </span>
+          </label>
+        </div>
+        <button
+          onClick={handleImport}
+          disabled={!importFile || isImporting}
+          className="px-4 py-2 bg-[#002E5D] text-white rounded-lg hover:bg-[#004080] transition-colors disabled:opacity-50 flex items-center gap-2"
+        >
+          {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          Restore
+        </button>
+
+        {importResult && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-start gap-3">
+            <CheckCircle2 className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+            <p className="text-green-800 text-sm">
+              Restored {importResult.settingsRestored} setting{importResult.settingsRestored !== 1 ? 's' : ''} and {importResult.filesRestored} file{importResult.filesRestored !== 1 ? 's' : ''} from the backup made {new Date(importResult.exportedAt).toLocaleString()}.
+              {importResult.restoredCanvasToken ? ' The backup included a Canvas token.' : ''}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, Link as LinkIcon, Check, AlertCircle, RefreshCw, Trash2 } from 'lucide-react';
+import { useCourses } from './CoursesProvider';
+import {
+  getCanvasToken,
+  getCanvasBaseUrl,
+  getCalendarExportFeedToken,
+  saveCalendarExportFeedToken,
+} from '../lib/courseStorage';
+import { usePersonalEvents } from '../lib/personalEvents';
+import { ICAL_EXPORT_SECTIONS, ICalExportSection } from '../lib/icalExport';
+import type { CalendarExportConfig } from '../lib/calendarFeedStore';
+
+const SECTION_LABELS: Record<ICalExportSection, string> = {
+  assignments: 'Assignments',
+  events: 'Canvas events',
+  personal: 'Personal tasks & events',
+};
+
+export default function CalendarExportSettings() {
+  const { courses } = useCourses();
+  const personalEvents = usePersonalEvents();
+  const [excludedCourseIds, setExcludedCourseIds] = useState<number[]>([]);
+  const [sections, setSections] = useState<ICalExportSection[]>(ICAL_EXPORT_SECTIONS);
+  const [feedToken, setFeedToken] = useState<string | null>(() => getCalendarExportFeedToken());
+  const [copied, setCopied] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleCourse = (courseId: number) => {
+    setExcludedCourseIds(prev => prev.includes(courseId) ? prev.filter(id => id !== courseId) : [...prev, courseId]);
+    setCopied(false);
+  };
+
+  const toggleSection = (section: ICalExportSection) => {
+    setSections(prev => prev.includes(section) ? prev.filter(s => s !== section) : [...prev, section]);
+    setCopied(false);
+  };
+
+  // Export config from the current choices, or null if there's nothing to export
+  const buildExportConfig = (): CalendarExportConfig | null => {
+    const canvasToken = getCanvasToken();
+    if (!canvasToken) {
+      setError('Connect Canvas above before exporting your calendar.');
+      return null;
+    }
+    const courseIds = courses.map(course => course.canvasId).filter(id => !excludedCourseIds.includes(id));
+    if (sections.length === 0 || courseIds.length === 0) {
+      setError('Choose at least one course and one kind of item to export.');
+      return null;
+    }
+    setError(null);
+    setStatus(null);
+
+    return {
+      canvasToken,
+      canvasUrl: getCanvasBaseUrl(),
+      courseIds,
+      sections,
+      personalEvents: sections.includes('personal') ? personalEvents : [],
+    };
+  };
+
+  // Send a request to the export API, throwing with the API's error message if it fails
+  const sendExportRequest = async (url: string, method: string, body: object): Promise<Response> => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || `Request failed (${response.status})`);
+    }
+    return response;
+  };
+
+  const runExportAction = async (action: () => Promise<void>, fallbackMessage: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error(fallbackMessage, err);
+      setError(err instanceof Error ? err.message : fallbackMessage);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDownload = () => {
+    const config = buildExportConfig();
+    if (!config) return;
+    runExportAction(async () => {
+      const response = await sendExportRequest('/api/calendar', 'POST', config);
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'junior-ledger.ics';
+      link.click();
+      URL.revokeObjectURL(url);
+    }, 'Could not download your calendar');
+  };
+
+  const handleCreateFeed = () => {
+    const config = buildExportConfig();
+    if (!config) return;
+    runExportAction(async () => {
+      const response = await sendExportRequest('/api/calendar/feeds', 'POST', config);
+      const { feedToken: createdToken } = await response.json();
+      saveCalendarExportFeedToken(createdToken);
+      setFeedToken(createdToken);
+      setCopied(false);
+    }, 'Could not create a subscription link');
+  };
+
+  const handleUpdateFeed = () => {
+    const config = buildExportConfig();
+    if (!config || !feedToken) return;
+    runExportAction(async () => {
+      await sendExportRequest('/api/calendar/feeds', 'PUT', { ...config, feedToken });
+      setStatus('Subscribed calendars will pick up these choices and your current personal items on their next refresh.');
+    }, 'Could not update the subscription');
+  };
+
+  const handleRevokeFeed = () => {
+    if (!feedToken) return;
+    setError(null);
+    setStatus(null);
+    runExportAction(async () => {
+      await sendExportRequest('/api/calendar/feeds', 'DELETE', { feedToken });
+      saveCalendarExportFeedToken(null);
+      setFeedToken(null);
+      setCopied(false);
+      setStatus('Link revoked. Calendars subscribed to it will stop updating.');
+    }, 'Could not revoke the subscription link');
+  };
+
+  const handleCopy = async (useWebcal: boolean) => {
+    if (!feedToken) return;
+    const url = `${window.location.origin}/api/calendar?feed=${feedToken}`;
+    try {
+      await navigator.clipboard.writeText(useWebcal ? url.replace(/^https?:\/\//, 'webcal://') : url);
+      setCopied(true);
+    } catch (err) {
+      console.error('Error copying calendar URL:', err);
+      setError('Could not copy the link. Check your browser permissions.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+      <h2 className="text-xl font-semibold text-[#002E5D] mb-2 flex items-center gap-2">
+        <Download className="w-5 h-5" />
+        Export Calendar
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Download your Junior Ledger calendar as an .ics file, or subscribe to it from your phone&apos;s calendar app so
+        assignments and exams show up next to everything else. Personal items keep their reminders.
+      </p>
+
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Include</h3>
+          <div className="flex flex-wrap gap-x-6 gap-y-2">
+            {ICAL_EXPORT_SECTIONS.map(section => (
+              <label key={section} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={sections.includes(section)}
+                  onChange={() => toggleSection(section)}
+                  className="rounded border-gray-300 text-[#002E5D] focus:ring-[#002E5D]"
+                />
+                {SECTION_LABELS[section]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {courses.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Courses</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {courses.map(course => (
+                <label key={course.canvasId} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!excludedCourseIds.includes(course.canvasId)}
+                    onChange={() => toggleCourse(course.canvasId)}
+                    className="rounded border-gray-300 text-[#002E5D] focus:ring-[#002E5D]"
+                  />
+                  <span className="truncate">{course.nickname}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleDownload}
+            disabled={isWorking}
+            className="px-4 py-2 bg-[#002E5D] text-white rounded-lg hover:bg-[#004080] transition-colors text-sm font-medium flex items-center gap-1 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            Download .ics
+          </button>
+          {feedToken ? (
+            <>
+              <button
+                onClick={() => handleCopy(true)}
+                className="px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-1"
+              >
+                {copied ? <Check className="w-4 h-4 text-green-700" /> : <LinkIcon className="w-4 h-4" />}
+                {copied ? 'Copied' : 'Copy subscription link'}
+              </button>
+              <button
+                onClick={() => handleCopy(false)}
+                className="px-4 py-2 text-sm text-gray-600 hover:text-[#002E5D] transition-colors"
+              >
+                Copy https link
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={handleCreateFeed}
+              disabled={isWorking}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-1 disabled:opacity-50"
+            >
+              <LinkIcon className="w-4 h-4" />
+              Create subscription link
+            </button>
+          )}
+        </div>
+        {feedToken && (
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleUpdateFeed}
+              disabled={isWorking}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-1 disabled:opacity-50"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Update subscription
+            </button>
+            <button
+              onClick={handleRevokeFeed}
+              disabled={isWorking}
+              className="px-3 py-1.5 text-sm text-red-700 border border-red-200 rounded-lg hover:bg-red-50 transition-colors flex items-center gap-1 disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4" />
+              Revoke link
+            </button>
+          </div>
+        )}
+        {status && (
+          <p className="text-sm text-gray-600">{status}</p>
+        )}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-800">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+          <p className="text-xs text-yellow-800">
+            <strong>Note:</strong> Anyone with the subscription link can see your exported calendar, so only add it to your
+            own calendar apps, and revoke it if it leaks. The link doesn&apos;t contain your Canvas token; Junior Ledger keeps
+            the token and your personal items encrypted on its server until you revoke the link. The course choices and
+            personal items are saved when you create the link; click Update subscription after changing them.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
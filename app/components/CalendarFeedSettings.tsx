@@ -0,0 +1,168 @@
+'use client';
+
+import { useState } from 'react';
+import { Calendar as CalendarIcon, Info, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { addCalendarFeed, updateCalendarFeed, deleteCalendarFeed, CALENDAR_FEED_COLORS } from '../lib/courseStorage';
+import { useCalendarFeeds } from '../lib/calendarFeeds';
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#002E5D] focus:border-transparent text-sm';
+
+// Calendar apps often share webcal:// links, which are the same feed over https
+const normalizeFeedUrl = (url: string): string => url.trim().replace(/^webcal:\/\//i, 'https://');
+
+const isValidFeedUrl = (url: string): boolean => /^https?:\/\/\S+$/i.test(url);
+
+export default function CalendarFeedSettings() {
+  const feeds = useCalendarFeeds();
+  const [newLabel, setNewLabel] = useState('');
+  const [newUrl, setNewUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const url = normalizeFeedUrl(newUrl);
+    if (!isValidFeedUrl(url)) {
+      setError('Enter an iCal URL starting with https://, http:// or webcal://');
+      return;
+    }
+    addCalendarFeed(newLabel.trim() || 'Calendar', url);
+    setNewLabel('');
+    setNewUrl('');
+    setError(null);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+      <h2 className="text-xl font-semibold text-[#002E5D] mb-2 flex items-center gap-2">
+        <CalendarIcon className="w-5 h-5" />
+        Calendar Subscriptions
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Add iCal feeds from Google Calendar, Outlook, club calendars or the BYU academic calendar. Their events appear
+        on the calendar in their own color, and you can hide any of them from the calendar sidebar.
+      </p>
+
+      <div className="space-y-4">
+        {feeds.map(feed => (
+          <div key={feed.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+            <div className="flex items-center gap-3">
+              <input
+                type="text"
+                value={feed.label}
+                onChange={(e) => updateCalendarFeed(feed.id, { label: e.target.value })}
+                className={`${inputClassName} flex-1 font-medium`}
+                aria-label="Calendar name"
+              />
+              <button
+                onClick={() => deleteCalendarFeed(feed.id)}
+                className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                aria-label={`Remove ${feed.label}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <input
+              type="url"
+              value={feed.url}
+              onChange={(e) => updateCalendarFeed(feed.id, { url: e.target.value })}
+              onBlur={(e) => updateCalendarFeed(feed.id, { url: normalizeFeedUrl(e.target.value) })}
+              className={`${inputClassName} w-full`}
+              aria-label={`${feed.label} iCal URL`}
+            />
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+              <div className="flex items-center gap-1.5" role="radiogroup" aria-label={`${feed.label} color`}>
+                {CALENDAR_FEED_COLORS.map(color => (
+                  <button
+                    key={color}
+                    onClick={() => updateCalendarFeed(feed.id, { color })}
+                    className={`w-5 h-5 rounded-full transition-transform ${
+                      feed.color === color ? 'ring-2 ring-offset-2 ring-gray-400 scale-110' : 'hover:scale-110'
+                    }`}
+                    style={{ backgroundColor: color }}
+                    role="radio"
+                    aria-checked={feed.color === color}
+                    aria-label={color}
+                  />
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={feed.detectExams}
+                  onChange={(e) => updateCalendarFeed(feed.id, { detectExams: e.target.checked })}
+                  className="rounded border-gray-300 text-[#002E5D] focus:ring-[#002E5D]"
+                />
+                Detect exams
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={feed.visible}
+                  onChange={(e) => updateCalendarFeed(feed.id, { visible: e.target.checked })}
+                  className="rounded border-gray-300 text-[#002E5D] focus:ring-[#002E5D]"
+                />
+                Show on calendar
+              </label>
+            </div>
+          </div>
+        ))}
+
+        {/* Add a feed */}
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            value={newLabel}
+            onChange={(e) => setNewLabel(e.target.value)}
+            placeholder="Name, e.g. Google Calendar"
+            className={`${inputClassName} sm:w-48`}
+          />
+          <input
+            type="url"
+            value={newUrl}
+            onChange={(e) => {
+              setNewUrl(e.target.value);
+              setError(null);
+            }}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="https://calendar.google.com/calendar/ical/..."
+            className={`${inputClassName} flex-1`}
+          />
+          <button
+            onClick={handleAdd}
+            className="px-4 py-2 bg-[#002E5D] text-white rounded-lg hover:bg-[#004080] transition-colors text-sm font-medium flex items-center justify-center gap-1"
+          >
+            <Plus className="w-4 h-4" />
+            Add
+          </button>
+        </div>
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-800">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <h3 className="font-semibold text-blue-900 mb-2 flex items-center gap-2">
+            <Info className="w-4 h-4" />
+            How to get a Google Calendar iCal URL
+          </h3>
+          <ol className="list-decimal list-inside space-y-1 text-sm text-blue-800">
+            <li>Go to <a href="https://calendar.google.com" target="_blank" rel="noopener noreferrer" className="underline">Google Calendar</a></li>
+            <li>Click the settings icon (⚙️) next to your calendar name</li>
+            <li>Scroll down to &quot;Integrate calendar&quot; section</li>
+            <li>Copy the &quot;Secret address in iCal format&quot; URL</li>
+            <li>Paste it in the field above</li>
+          </ol>
+          <p className="text-sm text-blue-800 mt-2">
+            In Outlook, use Settings → Calendar → Shared calendars → Publish a calendar and copy the ICS link.
+          </p>
+          <div className="mt-3 pt-3 border-t border-blue-200">
+            <p className="text-xs text-blue-700">
+              <strong>Note:</strong> Use the &quot;Secret address&quot; URL to keep your calendar private. Do not share this URL with others.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
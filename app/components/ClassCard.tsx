@@ -3,8 +3,14 @@
 import { motion } from 'framer-motion';
 import { BookOpen, Loader2 } from 'lucide-react';
 import { useState, useEffect } from 'react';
-import { fetchCourseAssignments } from '../actions/canvas';
-import { getCanvasToken, getCachedAssignments, saveCachedAssignments } from '../lib/courseStorage';
+import { fetchCourseScore, CanvasCourseScore } from '../actions/canvas';
+import { unwrapCanvasResult } from '../lib/canvasErrors';
+import { getCanvasAuth, getCachedCourseScore, saveCachedCourseScore } from '../lib/courseStorage';
+import { loadCourseAssignments, isAssignmentSubmitted } from '../lib/assignments';
+import { useTaskStates, getAssignmentTaskKey, isTaskHidden } from '../lib/tasks';
+import { formatPercent, getScoreColorClass } from '../lib/grades';
+import { useTimeZone } from '../lib/timeZone';
+import { getDateKeyInTimeZone, getDaysBetween } from '../lib/dates';
 
 interface ClassCardProps {
   name: string;
@@ -21,44 +27,23 @@ interface NextAssignment {
 export default function ClassCard({ name, courseCode, courseId, index }: ClassCardProps) {
   const [nextAssignment, setNextAssignment] = useState<NextAssignment | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [courseScore, setCourseScore] = useState<CanvasCourseScore | null>(null);
+  const taskStates = useTaskStates();
+  const timeZone = useTimeZone();
 
   useEffect(() => {
     const fetchNextAssignment = async () => {
-      const token = getCanvasToken();
-      if (!token) {
+      const auth = getCanvasAuth();
+      if (!auth) {
         setIsLoading(false);
         return;
       }
 
       try {
-        // Check cache first
-        const cached = getCachedAssignments(courseId);
-        let assignments: any[];
-        
-        if (cached) {
-          // Use cached assignments
-          assignments = cached.assignments;
-          setIsLoading(false);
-        } else {
-          // Fetch from API
-          assignments = await fetchCourseAssignments(token, courseId);
-          // Cache the assignments
-          saveCachedAssignments(courseId, assignments);
-        }
-
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
+        // Uses cached assignments when available
+        const assignments = await loadCourseAssignments(auth, courseId);
 
-        // Helper function to check if assignment is completed/submitted in Canvas
-        const isAssignmentSubmitted = (assignment: any): boolean => {
-          // Check if assignment has a submission object from Canvas
-          if (assignment.submission) {
-            const workflowState = assignment.submission.workflow_state;
-            // Assignment is considered completed if it's been submitted or graded
-            return workflowState === 'submitted' || workflowState === 'graded';
-          }
-          return false;
-        };
+        const todayKey = getDateKeyInTimeZone(new Date(), timeZone);
 
         // Filter for upcoming assignments with due dates, excluding completed/submitted ones from Canvas
         const upcomingAssignments = assignments
@@ -66,9 +51,9 @@ export default function ClassCard({ name, courseCode, courseId, index }: ClassCa
             if (!assignment.due_at) return false;
             // Filter out assignments that have been submitted/completed in Canvas
             if (isAssignmentSubmitted(assignment)) return false;
-            const dueDate = new Date(assignment.due_at);
-            dueDate.setHours(0, 0, 0, 0);
-            return dueDate >= today;
+            // Filter out assignments marked done or snoozed here
+            if (isTaskHidden(taskStates[getAssignmentTaskKey(assignment.id)])) return false;
+            return getDateKeyInTimeZone(assignment.due_at, timeZone) >= todayKey;
           })
           .sort((a: any, b: any) => {
             const dateA = new Date(a.due_at).getTime();
@@ -80,7 +65,7 @@ export default function ClassCard({ name, courseCode, courseId, index }: ClassCa
           const next = upcomingAssignments[0];
           setNextAssignment({
             name: next.name,
-            dueDate: next.due_at,
+            dueDate: next.due_at as string,
           });
         } else {
           setNextAssignment(null);
@@ -94,17 +79,31 @@ export default function ClassCard({ name, courseCode, courseId, index }: ClassCa
     };
 
     fetchNextAssignment();
+  }, [courseId, taskStates, timeZone]);
+
+  useEffect(() => {
+    const auth = getCanvasAuth();
+    if (!auth) return;
+
+    // Only the score is fetched and cached; the course page loads the full grade breakdown
+    const cached = getCachedCourseScore(courseId);
+    const load = cached
+      ? Promise.resolve(cached.score)
+      : fetchCourseScore(auth, courseId).then(unwrapCanvasResult).then(score => {
+          saveCachedCourseScore(courseId, score);
+          return score;
+        });
+
+    load
+      .then(score => setCourseScore(score))
+      .catch(error => {
+        console.error(`Error fetching grades for course ${courseId}:`, error);
+      });
   }, [courseId]);
 
   const formatDueDate = (dateString: string) => {
-    const date = new Date(dateString);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const dueDate = new Date(date);
-    dueDate.setHours(0, 0, 0, 0);
-
-    const diffTime = dueDate.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    // Calendar days in the student's timezone, so a 1am deadline isn't "Today" the evening before
+    const diffDays = getDaysBetween(getDateKeyInTimeZone(new Date(), timeZone), getDateKeyInTimeZone(dateString, timeZone));
 
     if (diffDays === 0) {
       return 'Today';
@@ -113,7 +112,7 @@ export default function ClassCard({ name, courseCode, courseId, index }: ClassCa
     } else if (diffDays <= 7) {
       return `In ${diffDays} days`;
     } else {
-      return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+      return new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone });
     }
   };
 
@@ -136,6 +135,15 @@ export default function ClassCard({ name, courseCode, courseId, index }: ClassCa
             )}
           </div>
         </div>
+        {courseScore?.current_score != null && (
+          <span
+            className={`px-2 py-1 bg-gray-100 rounded-full text-sm font-semibold flex-shrink-0 ${getScoreColorClass(courseScore.current_score)}`}
+            title="Current score in Canvas"
+          >
+            {courseScore.current_grade ? `${courseScore.current_grade} · ` : ''}
+            {formatPercent(courseScore.current_score)}
+          </span>
+        )}
       </div>
       <div className="border-t border-gray-100 pt-4">
         <p className="text-sm text-gray-500 mb-1">Next Deadline</p>
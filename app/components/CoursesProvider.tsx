@@ -2,8 +2,9 @@
 
 import { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import { fetchCanvasCourses } from '../actions/canvas';
+import { describeCanvasError, getCanvasErrorCode, unwrapCanvasResult } from '../lib/canvasErrors';
 import { 
-  getCanvasToken, 
+  getCanvasAuth, 
   applyNicknamesToCourses, 
   CourseWithNickname,
   saveCourseNickname as saveNickname,
@@ -30,8 +31,8 @@ export function CoursesProvider({ children }: { children: ReactNode }) {
   const [error, setError] = useState<string | null>(null);
 
   const refreshCourses = async () => {
-    const token = getCanvasToken();
-    if (!token) {
+    const auth = getCanvasAuth();
+    if (!auth) {
       setCourses([]);
       return;
     }
@@ -40,12 +41,16 @@ export function CoursesProvider({ children }: { children: ReactNode }) {
     setError(null);
 
     try {
-      const canvasCourses = await fetchCanvasCourses(token);
+      const canvasCourses = unwrapCanvasResult(await fetchCanvasCourses(auth));
       const coursesWithNicknames = applyNicknamesToCourses(canvasCourses);
       setCourses(coursesWithNicknames);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load courses');
-      setCourses([]);
+      setError(describeCanvasError(err, 'Failed to load courses'));
+      // Keep showing the last loaded courses while Canvas is only temporarily unavailable
+      const code = getCanvasErrorCode(err);
+      if (code !== 'rate_limited' && code !== 'server_error' && code !== 'network') {
+        setCourses([]);
+      }
     } finally {
       setIsLoading(false);
     }
@@ -82,8 +87,8 @@ export function CoursesProvider({ children }: { children: ReactNode }) {
       intervalRef.current = null;
     }
 
-    const token = getCanvasToken();
-    if (!token) return;
+    const auth = getCanvasAuth();
+    if (!auth) return;
 
     const intervalMinutes = getAutoRefreshInterval();
     if (intervalMinutes <= 0) return; // Auto-refresh disabled
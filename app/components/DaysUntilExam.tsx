@@ -1,23 +1,67 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
 import { useCourses } from './CoursesProvider';
-import { fetchCourseAssignments } from '../actions/canvas';
-import { getCanvasToken, getCachedAssignments, saveCachedAssignments } from '../lib/courseStorage';
+import { getCanvasAuth } from '../lib/courseStorage';
+import { loadCourseAssignments, isAssignmentSubmitted } from '../lib/assignments';
+import { useTaskStates, getAssignmentTaskKey, isTaskHidden } from '../lib/tasks';
+import { useExamClassifier, getStudyProgress, StudyProgress } from '../lib/exams';
+import { usePersonalEvents } from '../lib/personalEvents';
+import { useTimeZone } from '../lib/timeZone';
+import { getDateKeyInTimeZone, parseDateKey, addDays, getDaysBetween, formatTime } from '../lib/dates';
+
+interface UpcomingExam {
+  id: number;
+  name: string;
+  courseId: number;
+  courseName: string;
+  dueAt: string;
+}
+
+// Exams within this many days of the first one are shown together on the timeline
+const EXAM_WEEK_DAYS = 14;
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+// Time left as "3d 4h", or hours and minutes on the last day
+function formatTimeRemaining(dueAt: string, now: Date): string {
+  const remaining = new Date(dueAt).getTime() - now.getTime();
+  if (remaining <= 0) return 'Now';
+  const days = Math.floor(remaining / (24 * MS_PER_HOUR));
+  const hours = Math.floor((remaining % (24 * MS_PER_HOUR)) / MS_PER_HOUR);
+  if (days > 0) return `${days}d ${hours}h`;
+  const minutes = Math.floor((remaining % MS_PER_HOUR) / (1000 * 60));
+  return `${hours}h ${minutes}m`;
+}
+
+function getReadinessColorClass(progress: StudyProgress): string {
+  const ratio = progress.done / progress.total;
+  if (ratio >= 0.75) return 'bg-green-400';
+  if (ratio >= 0.4) return 'bg-[#FFD700]';
+  return 'bg-red-400';
+}
 
 export default function DaysUntilExam() {
-  const [daysUntil, setDaysUntil] = useState<number | null>(null);
-  const [examName, setExamName] = useState<string | null>(null);
-  const [examCourseName, setExamCourseName] = useState<string | null>(null);
+  const [exams, setExams] = useState<UpcomingExam[]>([]);
+  const [now, setNow] = useState(() => new Date());
   const { courses } = useCourses();
+  const taskStates = useTaskStates();
+  const personalEvents = usePersonalEvents();
+  const isExam = useExamClassifier();
+  const timeZone = useTimeZone();
+
+  // Keep the hours remaining current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
 
   useEffect(() => {
     const fetchExams = async () => {
-      const token = getCanvasToken();
-      if (!token || courses.length === 0) {
-        setDaysUntil(null);
-        setExamName(null);
-        setExamCourseName(null);
+      const auth = getCanvasAuth();
+      if (!auth || courses.length === 0) {
+        setExams([]);
         return;
       }
 
@@ -26,20 +70,11 @@ export default function DaysUntilExam() {
         const allAssignments = await Promise.all(
           courses.map(async (course) => {
             try {
-              // Check cache first
-              const cached = getCachedAssignments(course.canvasId);
-              let assignments: any[];
-              
-              if (cached) {
-                assignments = cached.assignments;
-              } else {
-                assignments = await fetchCourseAssignments(token, course.canvasId);
-                // Cache the assignments
-                saveCachedAssignments(course.canvasId, assignments);
-              }
+              const assignments = await loadCourseAssignments(auth, course.canvasId);
               
               return assignments.map((assignment: any) => ({
                 ...assignment,
+                courseId: course.canvasId,
                 courseName: course.nickname,
               }));
             } catch (error) {
@@ -52,37 +87,21 @@ export default function DaysUntilExam() {
         // Flatten the array of assignments
         const flatAssignments = allAssignments.flat();
 
-        // Filter for exams (assignments containing "exam" or "final" in the name, case-insensitive)
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-
-        // Helper function to check if assignment is completed/submitted in Canvas
-        const isAssignmentSubmitted = (assignment: any): boolean => {
-          // Check if assignment has a submission object from Canvas
-          if (assignment.submission) {
-            const workflowState = assignment.submission.workflow_state;
-            // Assignment is considered completed if it's been submitted or graded
-            return workflowState === 'submitted' || workflowState === 'graded';
-          }
-          return false;
-        };
+        // Filter for exams using the shared exam detection rules
+        const todayKey = getDateKeyInTimeZone(new Date(), timeZone);
 
         const upcomingExams = flatAssignments
           .filter((assignment: any) => {
             if (!assignment.due_at) return false;
             // Filter out assignments that have been submitted/completed in Canvas
             if (isAssignmentSubmitted(assignment)) return false;
+            // Filter out exams marked done or snoozed here
+            if (isTaskHidden(taskStates[getAssignmentTaskKey(assignment.id)])) return false;
             
-            const assignmentName = (assignment.name || '').toLowerCase();
-            const isExam = assignmentName.includes('exam') || 
-                          assignmentName.includes('final') ||
-                          assignmentName.includes('midterm') ||
-                          assignmentName.includes('test');
-            if (!isExam) return false;
+            const taskKey = getAssignmentTaskKey(assignment.id);
+            if (!isExam({ title: assignment.name || '', courseId: assignment.courseId, taskKey })) return false;
             
-            const dueDate = new Date(assignment.due_at);
-            dueDate.setHours(0, 0, 0, 0);
-            return dueDate >= today;
+            return getDateKeyInTimeZone(assignment.due_at, timeZone) >= todayKey;
           })
           .sort((a: any, b: any) => {
             const dateA = new Date(a.due_at).getTime();
@@ -90,57 +109,143 @@ export default function DaysUntilExam() {
             return dateA - dateB;
           });
 
-        if (upcomingExams.length > 0) {
-          const nearestExam = upcomingExams[0];
-          const examDate = new Date(nearestExam.due_at);
-          examDate.setHours(0, 0, 0, 0);
-          
-          const diffTime = examDate.getTime() - today.getTime();
-          const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-          
-          setDaysUntil(Math.max(0, diffDays));
-          setExamName(nearestExam.name);
-          setExamCourseName(nearestExam.courseName || null);
-        } else {
-          setDaysUntil(null);
-          setExamName(null);
-          setExamCourseName(null);
-        }
+        setExams(upcomingExams.map(exam => ({
+          id: exam.id,
+          name: exam.name,
+          courseId: exam.courseId,
+          courseName: exam.courseName,
+          dueAt: exam.due_at,
+        })));
       } catch (error) {
         console.error('Error fetching exams:', error);
-        setDaysUntil(null);
-        setExamName(null);
-        setExamCourseName(null);
+        setExams([]);
       }
     };
 
     fetchExams();
-  }, [courses]);
+  }, [courses, taskStates, isExam, timeZone]);
+
+  // Study-plan progress for each exam, from the course's personal tasks before it
+  const studyProgress = useMemo(() => {
+    const progress: Record<number, StudyProgress | null> = {};
+    exams.forEach(exam => {
+      progress[exam.id] = getStudyProgress(personalEvents, taskStates, exam.courseId, new Date(exam.dueAt), timeZone);
+    });
+    return progress;
+  }, [exams, personalEvents, taskStates, timeZone]);
+
+  // One column per day from the first exam through the rest of its exam week
+  const timelineDays = useMemo(() => {
+    if (exams.length < 2) return [];
+    const firstKey = getDateKeyInTimeZone(exams[0].dueAt, timeZone);
+    const lastKey = getDateKeyInTimeZone(exams[exams.length - 1].dueAt, timeZone);
+    const dayCount = Math.min(EXAM_WEEK_DAYS, getDaysBetween(firstKey, lastKey) + 1);
 
-  if (daysUntil === null) {
+    return Array.from({ length: dayCount }, (_, index) => {
+      const dateKey = addDays(firstKey, index);
+      return {
+        dateKey,
+        date: parseDateKey(dateKey),
+        exams: exams.filter(exam => getDateKeyInTimeZone(exam.dueAt, timeZone) === dateKey),
+      };
+    });
+  }, [exams, timeZone]);
+
+  if (exams.length === 0) {
     return null;
   }
 
+  const nearestExam = exams[0];
+  // Calendar days in the student's timezone, so an exam tomorrow morning is 1 day away tonight
+  const daysUntil = Math.max(0, getDaysBetween(getDateKeyInTimeZone(now, timeZone), getDateKeyInTimeZone(nearestExam.dueAt, timeZone)));
+
   return (
-    <div className="bg-gradient-to-r from-[#002E5D] to-[#004080] text-white rounded-lg shadow-lg p-6 mb-6">
+    <div className="bg-gradient-to-r from-[#002E5D] to-[#004080] text-white rounded-lg shadow-lg p-6 mb-6 space-y-5">
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold mb-1">Days Until Exam</h2>
-          {examName ? (
-            <div>
-              <p className="text-white/80 text-sm font-medium">{examName}</p>
-              {examCourseName && (
-                <p className="text-white/70 text-xs mt-0.5">{examCourseName}</p>
-              )}
-            </div>
-          ) : (
-            <p className="text-white/80 text-sm">Final exams approaching</p>
+          <div>
+            <p className="text-white/80 text-sm font-medium">{nearestExam.name}</p>
+            <p className="text-white/70 text-xs mt-0.5">{nearestExam.courseName}</p>
+          </div>
+          {exams.length > 1 && (
+            <p className="text-white/60 text-xs mt-2">{exams.length} upcoming exams</p>
           )}
         </div>
         <div className="text-6xl font-bold text-[#FFD700]">
           {daysUntil}
         </div>
       </div>
+
+      {/* Every upcoming exam */}
+      {exams.length > 1 && (
+        <div className="flex gap-3 overflow-x-auto pb-1 -mx-1 px-1 snap-x">
+          {exams.map(exam => {
+            const progress = studyProgress[exam.id];
+            return (
+              <div key={exam.id} className="snap-start flex-shrink-0 w-56 bg-white/10 rounded-lg p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold truncate" title={exam.name}>{exam.name}</p>
+                    <p className="text-xs text-white/70 truncate">{exam.courseName}</p>
+                  </div>
+                  <span className="text-sm font-bold text-[#FFD700] whitespace-nowrap">{formatTimeRemaining(exam.dueAt, now)}</span>
+                </div>
+                <p className="text-xs text-white/60">
+                  {new Date(exam.dueAt).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone })}
+                  {' · '}
+                  {formatTime(exam.dueAt, timeZone)}
+                </p>
+                {/* Readiness from study tasks */}
+                {progress ? (
+                  <div>
+                    <div className="h-1.5 bg-white/20 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${getReadinessColorClass(progress)}`}
+                        style={{ width: `${(progress.done / progress.total) * 100}%` }}
+                      />
+                    </div>
+                    <p className="text-xs text-white/70 mt-1">{progress.done}/{progress.total} study tasks done</p>
+                  </div>
+                ) : (
+                  <Link href="/calendar" className="text-xs text-white/60 hover:text-white underline">
+                    No study plan yet
+                  </Link>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Exam week timeline */}
+      {timelineDays.length > 1 && (
+        <div>
+          <h3 className="text-sm font-semibold text-white/80 mb-2">Exam Week</h3>
+          <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${timelineDays.length}, minmax(0, 1fr))` }}>
+            {timelineDays.map(day => (
+              <div
+                key={day.dateKey}
+                className={`rounded-md p-1.5 min-h-16 ${day.exams.length > 0 ? 'bg-white/15' : 'bg-white/5'}`}
+              >
+                <p className="text-[10px] uppercase text-white/60">
+                  {day.date.toLocaleDateString('en-US', { weekday: 'short' })}
+                </p>
+                <p className="text-xs font-semibold">{day.date.getDate()}</p>
+                {day.exams.map(exam => (
+                  <p
+                    key={exam.id}
+                    className="mt-1 text-[10px] leading-tight bg-[#FFD700] text-[#002E5D] font-medium rounded px-1 truncate"
+                    title={`${exam.name} (${exam.courseName})`}
+                  >
+                    {exam.courseName}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
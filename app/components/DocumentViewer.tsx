@@ -0,0 +1,154 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { X, FileText, Download } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { ChatSource, getCachedCanvasFile, getCourseFiles, getCachedExtractedText } from '../lib/courseStorage';
+import { TextSegment } from '../lib/fileExtraction';
+
+interface DocumentViewerProps {
+  courseId: number;
+  source: ChatSource;
+  page?: number; // Page or slide to jump to
+  onClose: () => void;
+}
+
+export default function DocumentViewer({ courseId, source, page, onClose }: DocumentViewerProps) {
+  const [fileUrl, setFileUrl] = useState<string | null>(null);
+  const [isPdf, setIsPdf] = useState(false);
+  // Extracted page/slide text, shown when the file itself can't be displayed inline
+  const [segments, setSegments] = useState<TextSegment[]>([]);
+  const targetSegmentRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getCachedExtractedText(courseId).then(cached => {
+      const match = cached?.texts.find(text =>
+        source.canvasId ? text.canvasId === source.canvasId : text.fileName === source.fileName
+      );
+      if (!cancelled) setSegments(match?.segments || []);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [courseId, source.canvasId, source.fileName]);
+
+  // Load the cached file (stored as a base64 data URL) into an object URL
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+
+    const loadFile = async () => {
+      const cachedFile = source.canvasId
+        ? await getCachedCanvasFile(courseId, source.canvasId)
+        : (await getCourseFiles(courseId)).find(file => file.name === source.fileName);
+      if (!cachedFile || cancelled) return;
+
+      const blob = await (await fetch(cachedFile.data)).blob();
+      if (cancelled) return;
+      url = URL.createObjectURL(blob);
+      setFileUrl(url);
+      setIsPdf(cachedFile.type === 'application/pdf' || cachedFile.name.toLowerCase().endsWith('.pdf'));
+    };
+
+    loadFile().catch(error => {
+      console.error('Error opening cached file:', error);
+    });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [courseId, source.canvasId, source.fileName]);
+
+  // Scroll the cited slide/page into view in the text fallback
+  useEffect(() => {
+    targetSegmentRef.current?.scrollIntoView({ block: 'start' });
+  }, [segments, isPdf]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const pageKind = segments[0]?.kind || source.pageKind || 'page';
+  const locationLabel = page ? `${pageKind === 'slide' ? 'Slide' : 'Page'} ${page}` : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.97 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="w-full max-w-4xl h-[85vh] flex flex-col bg-white rounded-lg shadow-xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 bg-[#002E5D] text-white">
+          <div className="flex items-center gap-2 min-w-0">
+            <FileText className="w-5 h-5 flex-shrink-0" />
+            <span className="font-semibold truncate">{source.fileName}</span>
+            {locationLabel && <span className="text-sm text-blue-200 flex-shrink-0">{locationLabel}</span>}
+          </div>
+          <div className="flex items-center gap-2">
+            {fileUrl && (
+              <a
+                href={fileUrl}
+                download={source.fileName}
+                className="p-1 rounded hover:bg-white/10 transition-colors"
+                title="Download"
+              >
+                <Download className="w-5 h-5" />
+              </a>
+            )}
+            <button
+              onClick={onClose}
+              className="p-1 rounded hover:bg-white/10 transition-colors"
+              aria-label="Close document"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Body */}
+        {isPdf && fileUrl ? (
+          // Browser PDF viewers honor #page=N
+          <iframe
+            key={page}
+            src={`${fileUrl}${page ? `#page=${page}` : ''}`}
+            title={source.fileName}
+            className="flex-1 w-full border-0"
+          />
+        ) : segments.length > 0 ? (
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {segments.map(segment => {
+              const isTarget = segment.number === page;
+              return (
+                <div
+                  key={`${segment.kind}-${segment.number}`}
+                  ref={isTarget ? targetSegmentRef : undefined}
+                  className={`rounded-lg border p-3 ${isTarget ? 'border-[#002E5D] bg-blue-50' : 'border-gray-200'}`}
+                >
+                  <div className="text-xs font-semibold text-gray-500 mb-1">
+                    {segment.kind === 'slide' ? 'Slide' : 'Page'} {segment.number}
+                  </div>
+                  <p className="text-sm text-gray-800 whitespace-pre-wrap">{segment.text}</p>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="flex-1 flex items-center justify-center p-6 text-sm text-gray-500 text-center">
+            {fileUrl
+              ? 'This file type can\'t be previewed here. Use the download button to open it.'
+              : 'This file isn\'t cached on this device yet. Open the course assistant again to download it.'}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
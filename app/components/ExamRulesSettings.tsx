@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { GraduationCap, Plus, Trash2, RotateCcw, Tag } from 'lucide-react';
+import { useCourses } from './CoursesProvider';
+import { getExamRuleSettings, saveExamRuleSettings, getExamTags, clearExamTags } from '../lib/courseStorage';
+import {
+  createExamClassifier,
+  validateExamPattern,
+  isRegexPattern,
+  DEFAULT_EXAM_RULE_SETTINGS,
+  CourseExamMode,
+  ExamRuleSettings,
+} from '../lib/examRules';
+
+const COURSE_MODE_LABELS: Record<CourseExamMode | 'default', string> = {
+  default: 'Use the rules above',
+  add: 'Rules above plus these',
+  replace: 'Only these',
+  off: 'Never detect exams',
+};
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#002E5D] focus:border-transparent text-sm';
+
+// Split a comma-separated pattern list typed by the student
+const parsePatternList = (value: string): string[] =>
+  value.split(',').map(pattern => pattern.trim()).filter(Boolean);
+
+export default function ExamRulesSettings() {
+  const { courses } = useCourses();
+  const [settings, setSettings] = useState<ExamRuleSettings>(() => getExamRuleSettings());
+  const [tagCount, setTagCount] = useState(() => Object.keys(getExamTags()).length);
+  const [newPattern, setNewPattern] = useState('');
+  const [patternError, setPatternError] = useState<string | null>(null);
+  const [testTitle, setTestTitle] = useState('');
+
+  const update = (next: ExamRuleSettings) => {
+    setSettings(next);
+    saveExamRuleSettings(next);
+  };
+
+  const handleAddRule = () => {
+    const validationError = validateExamPattern(newPattern);
+    if (validationError) {
+      setPatternError(validationError);
+      return;
+    }
+    update({ ...settings, rules: [...settings.rules, { pattern: newPattern.trim(), enabled: true }] });
+    setNewPattern('');
+    setPatternError(null);
+  };
+
+  const handleCourseModeChange = (courseId: number, mode: CourseExamMode | 'default') => {
+    const courseOverrides = { ...settings.courseOverrides };
+    if (mode === 'default') {
+      delete courseOverrides[courseId];
+    } else {
+      courseOverrides[courseId] = { mode, patterns: courseOverrides[courseId]?.patterns || [] };
+    }
+    update({ ...settings, courseOverrides });
+  };
+
+  const handleCoursePatternsChange = (courseId: number, value: string) => {
+    const override = settings.courseOverrides[courseId];
+    if (!override) return;
+    const patterns = parsePatternList(value).filter(pattern => !validateExamPattern(pattern));
+    update({ ...settings, courseOverrides: { ...settings.courseOverrides, [courseId]: { ...override, patterns } } });
+  };
+
+  // Test titles against the global rules only, ignoring course overrides and tags
+  const testClassifier = useMemo(() => createExamClassifier({ ...settings, courseOverrides: {} }), [settings]);
+
+  return (
+    <div className="space-y-6">
+      {/* Global rules */}
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-[#002E5D] flex items-center gap-2">
+              <GraduationCap className="w-5 h-5" />
+              Exam Detection
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Assignments and calendar events whose titles match these rules count as exams everywhere: the exam countdown,
+              the calendar, your to-do list and notifications. Keywords match whole words; write <code>/pattern/</code> for a
+              regular expression.
+            </p>
+          </div>
+          <button
+            onClick={() => update({ ...settings, rules: DEFAULT_EXAM_RULE_SETTINGS.rules })}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-1 flex-shrink-0"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          {settings.rules.length === 0 && (
+            <p className="text-sm text-gray-500 italic">No rules. Only manually tagged items count as exams.</p>
+          )}
+          {settings.rules.map((rule, index) => (
+            <div key={`${rule.pattern}-${index}`} className="flex items-center gap-3 p-2 border border-gray-200 rounded-lg">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => update({
+                  ...settings,
+                  rules: settings.rules.map((existing, i) => i === index ? { ...existing, enabled: e.target.checked } : existing),
+                })}
+                className="rounded border-gray-300 text-[#002E5D] focus:ring-[#002E5D]"
+                aria-label={`Use ${rule.pattern}`}
+              />
+              <code className={`flex-1 text-sm truncate ${rule.enabled ? 'text-gray-900' : 'text-gray-400'}`}>{rule.pattern}</code>
+              <span className="text-xs px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full">
+                {isRegexPattern(rule.pattern) ? 'Regex' : 'Keyword'}
+              </span>
+              <button
+                onClick={() => update({ ...settings, rules: settings.rules.filter((_, i) => i !== index) })}
+                className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                aria-label={`Remove ${rule.pattern}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newPattern}
+            onChange={(e) => {
+              setNewPattern(e.target.value);
+              setPatternError(null);
+            }}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddRule()}
+            placeholder="e.g. quiz or /unit \d+ assessment/"
+            className={`${inputClassName} flex-1`}
+          />
+          <button
+            onClick={handleAddRule}
+            className="px-4 py-2 bg-[#002E5D] text-white rounded-lg hover:bg-[#004080] transition-colors text-sm font-medium flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" />
+            Add
+          </button>
+        </div>
+        {patternError && <p className="text-sm text-red-700">{patternError}</p>}
+
+        <div className="border-t border-gray-100 pt-4">
+          <input
+            type="text"
+            value={testTitle}
+            onChange={(e) => setTestTitle(e.target.value)}
+            placeholder="Try a title, e.g. Midterm 2"
+            className={`${inputClassName} w-full`}
+          />
+          {testTitle.trim() && (
+            <p className={`text-sm mt-2 ${testClassifier({ title: testTitle }) ? 'text-red-700 font-medium' : 'text-gray-600'}`}>
+              {testClassifier({ title: testTitle }) ? 'Counts as an exam' : 'Not an exam'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Per-course overrides */}
+      {courses.length > 0 && (
+        <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold text-[#002E5D]">Courses</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Change detection for one course, e.g. when its weekly &quot;tests&quot; aren&apos;t exams. Separate keywords with commas.
+            </p>
+          </div>
+          <div className="space-y-3">
+            {courses.map(course => {
+              const override = settings.courseOverrides[course.canvasId];
+              return (
+                <div key={course.canvasId} className="space-y-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <span className="text-sm font-medium text-gray-700 truncate">{course.nickname}</span>
+                    <select
+                      value={override?.mode || 'default'}
+                      onChange={(e) => handleCourseModeChange(course.canvasId, e.target.value as CourseExamMode | 'default')}
+                      className={inputClassName}
+                    >
+                      {(Object.keys(COURSE_MODE_LABELS) as (CourseExamMode | 'default')[]).map(mode => (
+                        <option key={mode} value={mode}>{COURSE_MODE_LABELS[mode]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {override && override.mode !== 'off' && (
+                    <input
+                      type="text"
+                      defaultValue={override.patterns.join(', ')}
+                      onBlur={(e) => handleCoursePatternsChange(course.canvasId, e.target.value)}
+                      placeholder="e.g. practical, /lab exam \d/"
+                      className={`${inputClassName} w-full`}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Manual tags */}
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 space-y-3">
+        <h2 className="text-xl font-semibold text-[#002E5D] flex items-center gap-2">
+          <Tag className="w-5 h-5" />
+          Manual Tags
+        </h2>
+        <p className="text-sm text-gray-600">
+          Use the <GraduationCap className="w-4 h-4 inline" /> button on an assignment or event to mark it as an exam (or not).
+          Manual tags always override the rules.
+        </p>
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-700">{tagCount} item{tagCount === 1 ? '' : 's'} tagged</span>
+          {tagCount > 0 && (
+            <button
+              onClick={() => {
+                clearExamTags();
+                setTagCount(0);
+              }}
+              className="px-3 py-1.5 text-sm text-red-700 border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+            >
+              Clear manual tags
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Award, Loader2, RefreshCw, ChevronDown, ChevronRight, Calculator } from 'lucide-react';
+import { fetchCourseGrades, CanvasCourseGrades } from '../actions/canvas';
+import { getCanvasAuth, getCachedGrades, saveCachedGrades } from '../lib/courseStorage';
+import { describeCanvasError, unwrapCanvasResult } from '../lib/canvasErrors';
+import { calculateCourseGrade, formatPercent, getScoreColorClass } from '../lib/grades';
+import WhatIfCalculator from './WhatIfCalculator';
+
+interface GradePanelProps {
+  courseId: number;
+}
+
+export default function GradePanel({ courseId }: GradePanelProps) {
+  const [grades, setGrades] = useState<CanvasCourseGrades | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedGroup, setExpandedGroup] = useState<number | null>(null);
+  const [showWhatIf, setShowWhatIf] = useState(false);
+
+  const loadGrades = useCallback(async (force: boolean) => {
+    const auth = getCanvasAuth();
+    if (!auth) return;
+
+    // Use cached grades unless the student asked for a refresh
+    const cached = force ? null : getCachedGrades(courseId);
+    if (cached) {
+      setGrades(cached.grades);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = unwrapCanvasResult(await fetchCourseGrades(auth, courseId));
+      saveCachedGrades(courseId, data);
+      setGrades(data);
+    } catch (err) {
+      setError(describeCanvasError(err, 'Failed to load grades'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [courseId]);
+
+  useEffect(() => {
+    loadGrades(false);
+  }, [loadGrades]);
+
+  const calculated = grades ? calculateCourseGrade(grades) : null;
+  // Prefer Canvas's own scores; fall back to our calculation if Canvas hides them
+  const currentScore = grades?.enrollment?.current_score ?? calculated?.percent ?? null;
+  const finalScore = grades?.enrollment?.final_score ?? null;
+  const letterGrade = grades?.enrollment?.current_grade ?? null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-semibold text-[#002E5D] flex items-center gap-2">
+          <Award className="w-6 h-6" />
+          Grades
+        </h2>
+        <div className="flex items-center gap-1">
+          {grades && (
+            <button
+              onClick={() => setShowWhatIf(!showWhatIf)}
+              className={`px-3 py-1.5 text-sm rounded-lg transition-colors flex items-center gap-1 ${
+                showWhatIf ? 'bg-[#002E5D] text-white' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              <Calculator className="w-4 h-4" />
+              What-if
+            </button>
+          )}
+          <button
+            onClick={() => loadGrades(true)}
+            disabled={isLoading}
+            className="p-2 text-gray-400 hover:text-[#002E5D] hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+            aria-label="Refresh grades"
+          >
+            {isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : <RefreshCw className="w-5 h-5" />}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-700 mb-4">{error}</p>
+      )}
+
+      {!grades ? (
+        !error && <div className="text-center py-8 text-gray-500">Loading grades...</div>
+      ) : (
+        <div className="space-y-4">
+          {/* Course score */}
+          <div className="flex items-end gap-6">
+            <div>
+              <p className="text-sm text-gray-500">Current score</p>
+              <p className={`text-3xl font-bold ${getScoreColorClass(currentScore)}`}>
+                {formatPercent(currentScore)}
+                {letterGrade && <span className="ml-2 text-xl">{letterGrade}</span>}
+              </p>
+            </div>
+            {finalScore !== null && (
+              <div>
+                <p className="text-sm text-gray-500">Final score</p>
+                <p className="text-lg font-semibold text-gray-700">{formatPercent(finalScore)}</p>
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            {grades.applyGroupWeights
+              ? 'This course weights assignment groups.'
+              : 'This course grades by total points.'}
+            {' '}The final score counts ungraded work as zero.
+          </p>
+
+          {/* What-if calculator */}
+          {showWhatIf && (
+            <div className="border-t border-gray-100 pt-4">
+              <WhatIfCalculator grades={grades} />
+            </div>
+          )}
+
+          {/* Assignment groups */}
+          {!showWhatIf && calculated && calculated.groups.length > 0 && (
+            <div className="space-y-2">
+              {calculated.groups.map(group => {
+                const isExpanded = expandedGroup === group.id;
+                return (
+                  <div key={group.id} className="border border-gray-200 rounded-lg">
+                    <button
+                      onClick={() => setExpandedGroup(isExpanded ? null : group.id)}
+                      className="w-full flex items-center justify-between p-3 hover:bg-gray-50 transition-colors text-left"
+                    >
+                      <div className="flex items-center gap-2 min-w-0">
+                        {isExpanded ? <ChevronDown className="w-4 h-4 flex-shrink-0" /> : <ChevronRight className="w-4 h-4 flex-shrink-0" />}
+                        <span className="font-medium text-gray-900 truncate">{group.name}</span>
+                        {grades.applyGroupWeights && (
+                          <span className="text-xs text-gray-500 flex-shrink-0">{group.weight}%</span>
+                        )}
+                      </div>
+                      <div className="text-right flex-shrink-0">
+                        <span className={`font-semibold ${getScoreColorClass(group.percent)}`}>{formatPercent(group.percent)}</span>
+                        <span className="block text-xs text-gray-500">
+                          {group.possible > 0 ? `${group.earned} / ${group.possible} pts` : 'No graded work'}
+                        </span>
+                      </div>
+                    </button>
+
+                    {isExpanded && (
+                      <div className="px-3 pb-3 space-y-1 text-sm">
+                        {group.assignments.length === 0 ? (
+                          <p className="text-gray-500 italic">No assignments</p>
+                        ) : (
+                          group.assignments.map(assignment => (
+                            <a
+                              key={assignment.id}
+                              href={assignment.htmlUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="flex items-center justify-between gap-2 py-1 border-b border-gray-100 hover:text-[#002E5D]"
+                            >
+                              <span className={`truncate ${assignment.dropped ? 'line-through text-gray-400' : 'text-gray-800'}`}>
+                                {assignment.name}
+                              </span>
+                              <span className="text-gray-600 flex-shrink-0">
+                                {assignment.excused
+                                  ? 'Excused'
+                                  : assignment.score === null
+                                    ? `– / ${assignment.pointsPossible}`
+                                    : `${assignment.score} / ${assignment.pointsPossible}`}
+                              </span>
+                            </a>
+                          ))
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
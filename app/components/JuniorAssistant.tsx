@@ -1,19 +1,29 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
-import { Send, MessageSquare, Loader2 } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, MessageSquare, Loader2, Square } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { sendChatMessage, FileContext } from '../actions/chat';
-import { getCourseChatMessages, saveCourseChatMessages, ChatMessage, getCourseFiles, getCanvasToken, getCachedCanvasFiles, cacheCanvasFile, getCachedCanvasFile, CachedCanvasFile, getCachedExtractedText, saveCachedExtractedText, CachedExtractedText } from '../lib/courseStorage';
-import { extractTextFromFiles, canvasFileToExtractionFormat, isFileTypeSupported } from '../lib/fileExtraction';
+import { FileContext, ChatTurn, embedTexts } from '../actions/chat';
+import { getCourseChatMessages, saveCourseChatMessages, ChatMessage, getCourseFiles, getCanvasAuth, getCachedCanvasFiles, cacheCanvasFile, getCachedCanvasFile, CachedCanvasFile, getCachedExtractedText, saveCachedExtractedText, CachedExtractedText, ChatSource, markCanvasFilesAccessed, enforceCacheSizeLimit } from '../lib/courseStorage';
+import { buildChunkIndex, retrievePassages } from '../lib/retrieval';
+import { extractTextFromFiles, canvasFileToExtractionFormat, isFileTypeSupported, TextSegment } from '../lib/fileExtraction';
 import { fetchCourseFiles, fetchCourseFolders, fetchFolderFiles, downloadCanvasFileAsBase64, CanvasFile } from '../actions/canvas';
+import { unwrapCanvasResult } from '../lib/canvasErrors';
 import MessageContent from './MessageContent';
+import DocumentViewer from './DocumentViewer';
 
 interface JuniorAssistantProps {
   courseId?: number;
   courseNickname?: string;
 }
 
+// Whether cached extracted text can be used as-is. PDFs and slide decks extracted before
+// page boundaries were kept need re-extracting so their passages can be cited by page.
+function isCachedTextUsable(cachedText: CachedExtractedText): boolean {
+  const hasPageBoundaries = cachedText.segments !== undefined || !/\.(pdf|pptx)$/i.test(cachedText.fileName);
+  return Boolean(cachedText.text && cachedText.text.trim().length > 0 && hasPageBoundaries);
+}
+
 export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssistantProps = {}) {
   const getInitialMessages = (): ChatMessage[] => {
     if (courseId) {
@@ -34,15 +44,21 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
   const [inputValue, setInputValue] = useState('');
   const [tutorMode, setTutorMode] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messageIdCounter = useRef(2);
   
   // Store extracted file contexts
   const [fileContexts, setFileContexts] = useState<FileContext[]>([]);
+  // Passage index over the extracted course documents, rebuilt when the documents change
+  const chunkIndex = useMemo(() => buildChunkIndex(fileContexts), [fileContexts]);
   const [isExtractingFiles, setIsExtractingFiles] = useState(false);
   const [extractionStatus, setExtractionStatus] = useState<string>('');
   const [showDocumentList, setShowDocumentList] = useState(false);
   const documentListRef = useRef<HTMLDivElement>(null);
+  // Cited document currently open in the viewer
+  const [openCitation, setOpenCitation] = useState<{ source: ChatSource; page?: number } | null>(null);
 
   // Extract text from course files when courseId changes
   useEffect(() => {
@@ -60,7 +76,7 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
     setExtractionStatus('Loading files...');
     try {
       // Check for cached extracted text first
-      const cachedExtractedText = getCachedExtractedText(courseId);
+      const cachedExtractedText = await getCachedExtractedText(courseId);
       const cachedTextMap = new Map<string, CachedExtractedText>();
       
       if (cachedExtractedText) {
@@ -71,36 +87,45 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
       }
       
       // Get user-uploaded files
-      const uploadedFiles = getCourseFiles(courseId);
+      const uploadedFiles = await getCourseFiles(courseId);
       
       // Get cached Canvas files
-      const cachedCanvasFiles = getCachedCanvasFiles(courseId);
+      const cachedCanvasFiles = await getCachedCanvasFiles(courseId);
       const cachedFilesMap = new Map<number, CachedCanvasFile>();
       cachedCanvasFiles.forEach(file => {
         cachedFilesMap.set(file.canvasId, file);
       });
       
       // Fetch Canvas files metadata
-      const token = getCanvasToken();
+      const auth = getCanvasAuth();
       let canvasFiles: CanvasFile[] = [];
+      // Canvas files whose extracted text is still current but whose download is no longer cached
+      const textOnlyCanvasFiles: Array<{ canvasId: number; text: CachedExtractedText }> = [];
+      // IDs of every file in the course, or null when Canvas couldn't give a complete listing
+      let listedCanvasFileIds: Set<number> | null = null;
       
-      if (token) {
+      if (auth) {
         try {
           // Fetch root-level files
-          const rootFiles = await fetchCourseFiles(token, courseId).catch(() => []);
-          canvasFiles = [...rootFiles];
+          const rootFiles = await fetchCourseFiles(auth, courseId).then(unwrapCanvasResult).catch(() => null);
+          canvasFiles = [...(rootFiles || [])];
           
           // Fetch files from folders
-          const folders = await fetchCourseFolders(token, courseId).catch(() => []);
-          const folderFilesPromises = folders
+          const folders = await fetchCourseFolders(auth, courseId).then(unwrapCanvasResult).catch(() => null);
+          const folderFilesPromises = (folders || [])
             .filter(folder => !folder.hidden && folder.name !== 'course files' && folder.files_count > 0)
-            .map(folder => fetchFolderFiles(token, folder.id).catch(() => []));
+            .map(folder => fetchFolderFiles(auth, folder.id).catch(() => []));
           
           const folderFilesArrays = await Promise.all(folderFilesPromises);
           folderFilesArrays.forEach(files => {
             canvasFiles.push(...files);
           });
           
+          // Folders are only fetched when they hold files, so an empty result means that folder failed
+          if (rootFiles && folders && folderFilesArrays.every(files => files.length > 0) && canvasFiles.length > 0) {
+            listedCanvasFileIds = new Set(canvasFiles.map(file => file.id));
+          }
+          
           // Filter out duplicates and locked/hidden files
           const seenIds = new Set<number>();
           canvasFiles = canvasFiles.filter(file => {
@@ -124,6 +149,14 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
             const cachedFile = cachedFilesMap.get(canvasFile.id);
             const fileModifiedAt = new Date(canvasFile.modified_at || canvasFile.updated_at).getTime();
             
+            // The download was evicted or purged, but its text was extracted from this same version
+            const cachedText = cachedTextMap.get(`canvas-${canvasFile.id}`);
+            if (!cachedFile && cachedText && isCachedTextUsable(cachedText) &&
+                cachedText.fileModifiedAt && new Date(cachedText.fileModifiedAt).getTime() === fileModifiedAt) {
+              textOnlyCanvasFiles.push({ canvasId: canvasFile.id, text: cachedText });
+              return;
+            }
+            
             if (!cachedFile) {
               // New file - needs to be downloaded
               filesToDownload.push(canvasFile);
@@ -159,13 +192,13 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
                   downloadCanvasFileAsBase64(
                     file.url, 
                     file.display_name || file.filename, 
-                    token
+                    auth
                   )
                 )
               );
               
               // Cache downloaded files
-              downloadedBase64Data.forEach((base64Data, index) => {
+              await Promise.all(downloadedBase64Data.map(async (base64Data, index) => {
                 const file = batch[index];
                 if (base64Data) {
                   const cachedFile: CachedCanvasFile = {
@@ -179,10 +212,10 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
                     cachedAt: new Date().toISOString(),
                     courseId: courseId
                   };
-                  cacheCanvasFile(courseId, cachedFile);
+                  await cacheCanvasFile(courseId, cachedFile);
                   filesToUse.push(cachedFile);
                 }
-              });
+              }));
             }
           } else {
             setExtractionStatus('Checking cached files...');
@@ -208,11 +241,12 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
         const cachedText = cachedTextMap.get(key);
         
         // Only use cached text if it exists, has been extracted, and has non-empty text
-        if (cachedText && cachedText.extractedAt && cachedText.text && cachedText.text.trim().length > 0) {
+        if (cachedText && cachedText.extractedAt && isCachedTextUsable(cachedText)) {
           // Use cached extracted text
           contextsFromCache.push({
             fileName: file.name,
-            text: cachedText.text
+            text: cachedText.text,
+            segments: cachedText.segments
           });
         } else {
           // Need to extract text (no cache, empty cache, or invalid cache)
@@ -225,7 +259,7 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
       });
       
       // Check Canvas files
-      if (token) {
+      if (auth) {
         const allCachedFiles = Array.from(cachedFilesMap.values());
         allCachedFiles.forEach(cachedFile => {
           const key = `canvas-${cachedFile.canvasId}`;
@@ -237,11 +271,13 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
             const currentFileModifiedAt = new Date(cachedFile.modifiedAt).getTime();
             
             // If the cached text was extracted for a file with the same modification time and has non-empty text, use it
-            if (cachedTextFileModifiedAt === currentFileModifiedAt && cachedText.text && cachedText.text.trim().length > 0) {
+            if (cachedTextFileModifiedAt === currentFileModifiedAt && isCachedTextUsable(cachedText)) {
               // Use cached extracted text (file hasn't been updated since extraction)
               contextsFromCache.push({
                 fileName: cachedFile.name,
-                text: cachedText.text
+                text: cachedText.text,
+                canvasId: cachedFile.canvasId,
+                segments: cachedText.segments
               });
               return;
             }
@@ -256,25 +292,50 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
             fileModifiedAt: cachedFile.modifiedAt
           });
         });
+        
+        textOnlyCanvasFiles.forEach(({ canvasId, text }) => {
+          contextsFromCache.push({
+            fileName: text.fileName,
+            text: text.text,
+            canvasId,
+            segments: text.segments
+          });
+        });
+        
+        // Keep recently used downloads when the cache is trimmed
+        await markCanvasFilesAccessed(courseId, Array.from(cachedFilesMap.keys()));
       }
       
+      // Keep text extracted from Canvas files that aren't available right now (download purged or evicted,
+      // listing failed or came back empty), dropping it only once Canvas no longer lists the file
+      const coveredCanvasIds = new Set([...contextsFromCache, ...filesToExtract].map(file => file.canvasId));
+      cachedTextMap.forEach(cachedText => {
+        if (!cachedText.canvasId || coveredCanvasIds.has(cachedText.canvasId) || !isCachedTextUsable(cachedText)) return;
+        if (listedCanvasFileIds && !listedCanvasFileIds.has(cachedText.canvasId)) return;
+        contextsFromCache.push({
+          fileName: cachedText.fileName,
+          text: cachedText.text,
+          canvasId: cachedText.canvasId,
+          segments: cachedText.segments
+        });
+      });
+      
       // Extract text from files that need it
-      let extractedTexts: Array<{ fileName: string; text: string; canvasId?: number; fileModifiedAt?: string }> = [];
+      let extractedTexts: Array<{ fileName: string; text: string; segments?: TextSegment[]; canvasId?: number; fileModifiedAt?: string }> = [];
       
       if (filesToExtract.length > 0) {
         setExtractionStatus(`Extracting text from ${filesToExtract.length} file${filesToExtract.length !== 1 ? 's' : ''}...`);
         
         // Extract text from files that need it
-        const extractionResults = await extractTextFromFiles(
-          filesToExtract.map(f => ({ name: f.name, type: f.type, data: f.data }))
-        );
+        const extractionResults = await extractTextFromFiles(filesToExtract);
         
         extractedTexts = extractionResults
-          .map((result, index) => ({
+          .map(result => ({
             fileName: result.fileName,
             text: result.text,
-            canvasId: filesToExtract[index].canvasId,
-            fileModifiedAt: filesToExtract[index].fileModifiedAt
+            segments: result.segments,
+            canvasId: result.file.canvasId,
+            fileModifiedAt: result.file.fileModifiedAt
           }))
           .filter(result => result.text.trim().length > 0);
         
@@ -283,6 +344,7 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
           canvasId: result.canvasId,
           fileName: result.fileName,
           text: result.text,
+          segments: result.segments,
           fileModifiedAt: result.fileModifiedAt,
           extractedAt: new Date().toISOString()
         }));
@@ -302,6 +364,9 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
           }
           
           // Check Canvas files
+          if (!foundCachedText && context.canvasId) {
+            foundCachedText = cachedTextMap.get(`canvas-${context.canvasId}`);
+          }
           if (!foundCachedText) {
             const allCachedFiles = Array.from(cachedFilesMap.values());
             const matchingFile = allCachedFiles.find(f => f.name === context.fileName);
@@ -318,7 +383,7 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
         });
         
         // Save all cached texts
-        saveCachedExtractedText(courseId, cachedTexts);
+        await saveCachedExtractedText(courseId, cachedTexts);
       } else {
         // All texts are from cache, but we still need to save them to ensure cache is maintained
         const allCachedTexts: CachedExtractedText[] = [];
@@ -332,7 +397,7 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
           }
         });
         if (allCachedTexts.length > 0) {
-          saveCachedExtractedText(courseId, allCachedTexts);
+          await saveCachedExtractedText(courseId, allCachedTexts);
         }
         setExtractionStatus('Using cached extracted text...');
       }
@@ -342,18 +407,20 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
         ...contextsFromCache,
         ...extractedTexts.map(result => ({
           fileName: result.fileName,
-          text: result.text
+          text: result.text,
+          canvasId: result.canvasId,
+          segments: result.segments
         }))
       ];
       
       // Log for debugging - identify any files that are missing
-      const totalFilesExpected = uploadedFiles.length + (token ? Array.from(cachedFilesMap.values()).length : 0);
+      const totalFilesExpected = uploadedFiles.length + (auth ? Array.from(cachedFilesMap.values()).length : 0);
       if (allContexts.length !== totalFilesExpected) {
         console.log(`File count mismatch: ${allContexts.length} contexts available, ${totalFilesExpected} files total`);
         const contextFileNames = new Set(allContexts.map(c => c.fileName));
         const allFileNames = [
           ...uploadedFiles.map(f => f.name),
-          ...(token ? Array.from(cachedFilesMap.values()).map(f => f.name) : [])
+          ...(auth ? Array.from(cachedFilesMap.values()).map(f => f.name) : [])
         ];
         const missingFiles = allFileNames.filter(name => !contextFileNames.has(name));
         if (missingFiles.length > 0) {
@@ -363,6 +430,9 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
       
       setFileContexts(allContexts);
       setExtractionStatus('');
+      
+      // Trim old downloads now that their text is cached
+      await enforceCacheSizeLimit();
     } catch (error) {
       console.error('Error extracting file content:', error);
       setFileContexts([]);
@@ -447,43 +517,126 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
       sender: 'user',
     };
 
+    // Earlier conversation the assistant should remember (greeting and error replies excluded)
+    const history: ChatTurn[] = messages
+      .filter(msg => !msg.isError && msg.id !== '1')
+      .map(msg => ({ role: msg.sender, text: msg.text }));
+
     const updatedMessages = [...messages, newMessage];
     setMessages(updatedMessages);
     setInputValue('');
     setIsLoading(true);
 
+    const assistantMessageId = `msg-${Date.now()}-${messageIdCounter.current++}`;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let receivedText = '';
+
+    let sources: ChatSource[] | undefined;
+
+    // Replace the streaming assistant message with its latest state
+    const updateAssistantMessage = (text: string, isError?: boolean) => {
+      setMessages(prev => {
+        const assistantMessage: ChatMessage = { id: assistantMessageId, text, sender: 'assistant', isError, sources };
+        return prev.some(msg => msg.id === assistantMessageId)
+          ? prev.map(msg => msg.id === assistantMessageId ? assistantMessage : msg)
+          : [...prev, assistantMessage];
+      });
+    };
+
     try {
-      // Pass file contexts only if we have a courseId (course-specific assistant)
-      const contextsToUse = courseId ? fileContexts : undefined;
-      const response = await sendChatMessage(
-        userMessage, 
-        tutorMode, 
-        courseId, 
-        courseNickname,
-        contextsToUse
-      );
-      const assistantMessageId = `msg-${Date.now()}-${messageIdCounter.current++}`;
-      const assistantMessage: ChatMessage = {
-        id: assistantMessageId,
-        text: response,
-        sender: 'assistant'
-      };
-      setMessages(prev => [...prev, assistantMessage]);
+      // Pass course document passages only if we have a courseId (course-specific assistant)
+      let contextsToUse: FileContext[] | undefined;
+      if (courseId && chunkIndex.chunks.length > 0) {
+        // Include the previous question so follow-ups ("what about the second one?") still match
+        const previousQuestion = [...history].reverse().find(turn => turn.role === 'user')?.text || '';
+        const passages = await retrievePassages(
+          chunkIndex,
+          `${userMessage} ${previousQuestion}`,
+          process.env.NEXT_PUBLIC_RAG_EMBEDDINGS === 'true' ? embedTexts : undefined
+        );
+        contextsToUse = passages.map(passage => ({
+          fileName: passage.fileName,
+          text: passage.text,
+          passage: passage.chunkIndex + 1,
+          pageKind: passage.pageKind,
+          page: passage.page,
+        }));
+        sources = passages.map(passage => ({
+          fileName: passage.fileName,
+          passage: passage.chunkIndex + 1,
+          pageKind: passage.pageKind,
+          page: passage.page,
+          canvasId: passage.canvasId,
+          excerpt: passage.text.slice(0, 160).replace(/\s+/g, ' ').trim() + (passage.text.length > 160 ? '...' : ''),
+        }));
+      }
+      const response = await fetch('/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          message: userMessage,
+          tutorMode,
+          courseId,
+          courseNickname,
+          fileContexts: contextsToUse,
+          history,
+        }),
+        signal: abortController.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Assistant request failed: ${response.status}`);
+      }
+
+      // Render tokens as they arrive
+      setStreamingMessageId(assistantMessageId);
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        receivedText += decoder.decode(value, { stream: true });
+        updateAssistantMessage(receivedText);
+      }
+      receivedText += decoder.decode();
+      updateAssistantMessage(receivedText);
     } catch (error) {
-      const errorMessageId = `msg-${Date.now()}-${messageIdCounter.current++}`;
-      const errorMessage: ChatMessage = {
-        id: errorMessageId,
-        text: error instanceof Error 
-          ? `Error: ${error.message}` 
-          : 'Sorry, I encountered an error. Please try again.',
-        sender: 'assistant'
-      };
-      setMessages(prev => [...prev, errorMessage]);
+      if (abortController.signal.aborted) {
+        // Stopped by the student - keep whatever was generated so far
+        if (!receivedText) {
+          updateAssistantMessage('Stopped before the assistant replied.', true);
+        }
+      } else if (receivedText) {
+        updateAssistantMessage(`${receivedText}\n\n(Response interrupted: ${error instanceof Error ? error.message : 'connection lost'})`);
+      } else {
+        updateAssistantMessage(
+          error instanceof Error
+            ? `Error: ${error.message}`
+            : 'Sorry, I encountered an error. Please try again.',
+          true
+        );
+      }
     } finally {
+      abortControllerRef.current = null;
+      setStreamingMessageId(null);
       setIsLoading(false);
     }
   };
 
+  // Stop the current generation, keeping the partial answer
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Abort any in-flight generation when the assistant unmounts
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
   const assistantName = courseId && courseNickname 
     ? `${courseNickname} Junior Assistant`
     : 'Junior Assistant';
@@ -580,7 +733,11 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
                 }`}
               >
                 {message.sender === 'assistant' ? (
-                  <MessageContent text={message.text} fileContexts={courseId ? fileContexts : undefined} />
+                  <MessageContent
+                    text={message.text}
+                    sources={message.sources ?? (courseId ? fileContexts : undefined)}
+                    onOpenSource={courseId ? (source, page) => setOpenCitation({ source, page }) : undefined}
+                  />
                 ) : (
                   <p className="text-sm whitespace-pre-wrap">{message.text}</p>
                 )}
@@ -592,7 +749,7 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
       </div>
 
       {/* Loading Indicator */}
-      {isLoading && (
+      {isLoading && !streamingMessageId && (
         <div className="px-4 pb-2">
           <div className="flex items-center gap-2 text-gray-500 text-sm">
             <Loader2 className="w-4 h-4 animate-spin" />
@@ -612,19 +769,36 @@ export default function JuniorAssistant({ courseId, courseNickname }: JuniorAssi
             className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#002E5D] focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
             disabled={isLoading || isExtractingFiles}
           />
-          <button
-            type="submit"
-            disabled={isLoading || !inputValue.trim() || isExtractingFiles}
-            className="px-4 py-2 bg-[#002E5D] text-white rounded-lg hover:bg-[#004080] transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {isLoading ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            ) : (
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={handleStop}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center gap-2"
+              aria-label="Stop generating"
+              title="Stop generating"
+            >
+              <Square className="w-4 h-4" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!inputValue.trim() || isExtractingFiles}
+              className="px-4 py-2 bg-[#002E5D] text-white rounded-lg hover:bg-[#004080] transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
               <Send className="w-4 h-4" />
-            )}
-          </button>
+            </button>
+          )}
         </div>
       </form>
+
+      {courseId && openCitation && (
+        <DocumentViewer
+          courseId={courseId}
+          source={openCitation.source}
+          page={openCitation.page}
+          onClose={() => setOpenCitation(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,14 +1,15 @@
 'use client';
 
 import React from 'react';
-import { FileContext } from '../actions/chat';
+import { ChatSource } from '../lib/courseStorage';
 
 interface MessageContentProps {
   text: string;
-  fileContexts?: FileContext[];
+  sources?: ChatSource[];
+  onOpenSource?: (source: ChatSource, page?: number) => void; // Makes citations clickable
 }
 
-export default function MessageContent({ text, fileContexts = [] }: MessageContentProps) {
+export default function MessageContent({ text, sources = [], onOpenSource }: MessageContentProps) {
   // Parse text and render markdown (bold) and citations
   const renderContent = (): React.ReactNode[] => {
     const parts: React.ReactNode[] = [];
@@ -16,8 +17,9 @@ export default function MessageContent({ text, fileContexts = [] }: MessageConte
     let partKey = 0;
 
     // Pattern to match citations: [1], [2], etc. but not markdown links or images
-    // Citation pattern: [ followed by one or more digits, followed by ]
-    const citationPattern = /\[(\d+)\]/g;
+    // Citation pattern: [ followed by one or more digits, optionally a page or slide
+    // (e.g. [2, p. 14] or [3, slide 5]), followed by ]
+    const citationPattern = /\[(\d+)(?:,\s*(p\.|page|slide)\s*(\d+))?\]/gi;
     const matches = Array.from(text.matchAll(citationPattern));
 
     if (matches.length === 0) {
@@ -35,16 +37,26 @@ export default function MessageContent({ text, fileContexts = [] }: MessageConte
 
       // Add citation component
       const citationNum = parseInt(match[1], 10);
-      const fileIndex = citationNum - 1; // Convert to 0-based index
-      const fileName = fileContexts[fileIndex]?.fileName || `File ${citationNum}`;
+      const source = sources[citationNum - 1]; // Convert to 0-based index
+      // Prefer the page the model cited; fall back to the page the passage came from
+      const citedKind = match[2]?.toLowerCase() === 'slide' ? 'slide' : 'page';
+      const page = match[3] ? parseInt(match[3], 10) : source?.page;
+      const pageKind = match[3] ? citedKind : source?.pageKind;
+      const pageLabel = page ? (pageKind === 'slide' ? `slide ${page}` : `p. ${page}`) : '';
+      const fileName = source
+        ? `${source.fileName}${pageLabel ? `, ${pageLabel}` : source.passage ? ` (passage ${source.passage})` : ''}`
+        : `Source ${citationNum}`;
+      const canOpen = Boolean(source && onOpenSource);
 
       parts.push(
         <sup
           key={`citation-${partKey++}`}
-          className="text-blue-600 hover:text-blue-800 cursor-help font-medium relative group"
-          title={fileName}
+          className={`text-blue-600 hover:text-blue-800 font-medium relative group ${canOpen ? 'cursor-pointer' : 'cursor-help'}`}
+          title={source?.excerpt ? `${fileName}: ${source.excerpt}` : fileName}
+          onClick={canOpen && source ? () => onOpenSource?.(source, page) : undefined}
+          role={canOpen ? 'button' : undefined}
         >
-          [{citationNum}]
+          [{citationNum}{pageLabel ? `, ${pageLabel}` : ''}]
           <span className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-2 py-1 text-xs text-white bg-gray-800 rounded shadow-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap z-10">
             {fileName}
           </span>
@@ -0,0 +1,53 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useCourses } from './CoursesProvider';
+import { getNotificationPreferences } from '../lib/courseStorage';
+import {
+  checkDueNotifications,
+  registerBackgroundChecks,
+  stopBackgroundChecks,
+  getNotificationPermission,
+  NOTIFICATION_CHECK_INTERVAL_MS,
+} from '../lib/notifications';
+
+// Checks for due deadline notifications every minute while the app is open; each check
+// also refreshes what the service worker shows in the background, where the browser allows it
+export default function NotificationScheduler() {
+  const { courses } = useCourses();
+
+  useEffect(() => {
+    let intervalId: ReturnType<typeof setInterval> | null = null;
+
+    const start = () => {
+      if (intervalId) {
+        clearInterval(intervalId);
+        intervalId = null;
+      }
+      if (!getNotificationPreferences().enabled || getNotificationPermission() !== 'granted') {
+        stopBackgroundChecks();
+        return;
+      }
+
+      const check = () => {
+        checkDueNotifications(courses).catch(error => {
+          console.error('Error checking notifications:', error);
+        });
+      };
+      registerBackgroundChecks().then(check);
+      intervalId = setInterval(check, NOTIFICATION_CHECK_INTERVAL_MS);
+    };
+
+    start();
+    window.addEventListener('notificationPreferencesChanged', start);
+
+    return () => {
+      if (intervalId) {
+        clearInterval(intervalId);
+      }
+      window.removeEventListener('notificationPreferencesChanged', start);
+    };
+  }, [courses]);
+
+  return null;
+}
@@ -0,0 +1,264 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Bell, BellOff, Moon, AlertCircle, Send } from 'lucide-react';
+import { useCourses } from './CoursesProvider';
+import { getNotificationPreferences, saveNotificationPreferences, NotificationPreferences } from '../lib/courseStorage';
+import { AssignmentType } from '../lib/assignments';
+import {
+  getNotificationPermission,
+  requestNotificationPermission,
+  registerNotificationWorker,
+  registerBackgroundChecks,
+  showTestNotification,
+  NotificationPermissionState,
+} from '../lib/notifications';
+
+const LEAD_TIME_OPTIONS: { label: string; hours: number }[] = [
+  { label: '1 hour before', hours: 1 },
+  { label: '3 hours before', hours: 3 },
+  { label: '6 hours before', hours: 6 },
+  { label: '12 hours before', hours: 12 },
+  { label: '1 day before', hours: 24 },
+  { label: '2 days before', hours: 48 },
+  { label: '3 days before', hours: 72 },
+  { label: '1 week before', hours: 7 * 24 },
+];
+
+const NOTIFICATION_TYPE_LABELS: Record<AssignmentType, string> = {
+  assignment: 'Assignments',
+  quiz: 'Quizzes',
+  discussion: 'Discussions',
+  exam: 'Exams',
+};
+
+const NOTIFICATION_TYPES = Object.keys(NOTIFICATION_TYPE_LABELS) as AssignmentType[];
+
+const selectClassName = 'px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#002E5D] text-sm';
+
+export default function NotificationSettings() {
+  const { courses } = useCourses();
+  const [preferences, setPreferences] = useState<NotificationPreferences>(() => getNotificationPreferences());
+  const [permission, setPermission] = useState<NotificationPermissionState>(() => getNotificationPermission());
+  const [error, setError] = useState<string | null>(null);
+  // Whether the browser lets the service worker check while every tab is closed (null until known)
+  const [backgroundChecks, setBackgroundChecks] = useState<boolean | null>(null);
+
+  const update = (changes: Partial<NotificationPreferences>) => {
+    const next = { ...preferences, ...changes };
+    setPreferences(next);
+    saveNotificationPreferences(next);
+  };
+
+  const handleToggleEnabled = async () => {
+    setError(null);
+    if (preferences.enabled) {
+      update({ enabled: false });
+      return;
+    }
+
+    const result = await requestNotificationPermission();
+    setPermission(result);
+    if (result !== 'granted') {
+      setError(result === 'unsupported'
+        ? 'This browser does not support notifications.'
+        : 'Notifications are blocked. Allow them for this site in your browser settings, then try again.');
+      return;
+    }
+    await registerNotificationWorker();
+    update({ enabled: true });
+  };
+
+  const handleTest = async () => {
+    setError(null);
+    try {
+      await showTestNotification();
+    } catch (err) {
+      console.error('Error showing test notification:', err);
+      setError('Could not show a test notification');
+    }
+  };
+
+  const isActive = preferences.enabled && permission === 'granted';
+
+  useEffect(() => {
+    if (!isActive) return;
+    registerBackgroundChecks().then(setBackgroundChecks);
+  }, [isActive]);
+
+  return (
+    <div className="space-y-6">
+      {/* Enable */}
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-[#002E5D] flex items-center gap-2">
+              {isActive ? <Bell className="w-5 h-5" /> : <BellOff className="w-5 h-5" />}
+              Deadline Notifications
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Get a browser notification before assignments, quizzes and exams are due, and for reminders on your own events.
+            </p>
+          </div>
+          <button
+            onClick={handleToggleEnabled}
+            className={`px-4 py-2 rounded-lg transition-colors text-sm font-medium flex-shrink-0 ${
+              preferences.enabled
+                ? 'border border-gray-300 hover:bg-gray-50'
+                : 'bg-[#002E5D] text-white hover:bg-[#004080]'
+            }`}
+          >
+            {preferences.enabled ? 'Turn off' : 'Turn on'}
+          </button>
+        </div>
+        {preferences.enabled && permission !== 'granted' && (
+          <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+            Notifications are on here but blocked by your browser. Allow them for this site to receive them.
+          </p>
+        )}
+        {isActive && backgroundChecks === false && (
+          <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+            This browser only lets Junior Ledger check for deadlines while it&apos;s open in a tab, so nothing arrives
+            once every tab is closed. In Chrome, installing Junior Ledger as an app lets it check in the background.
+          </p>
+        )}
+        {isActive && backgroundChecks && (
+          <p className="text-sm text-gray-600">
+            Junior Ledger also checks in the background while it&apos;s closed. Your browser decides how often,
+            so those notifications can arrive later than the lead time you picked.
+          </p>
+        )}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-800">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+        {isActive && (
+          <button
+            onClick={handleTest}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-1"
+          >
+            <Send className="w-4 h-4" />
+            Send a test notification
+          </button>
+        )}
+      </div>
+
+      {/* Lead times by type */}
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 space-y-4">
+        <h2 className="text-xl font-semibold text-[#002E5D]">When to Notify</h2>
+        <div className="space-y-3">
+          {NOTIFICATION_TYPES.map(type => (
+            <div key={type} className="flex items-center justify-between gap-4">
+              <span className="text-sm font-medium text-gray-700">{NOTIFICATION_TYPE_LABELS[type]}</span>
+              <select
+                value={preferences.leadHours[type] ?? ''}
+                onChange={(e) => update({
+                  leadHours: { ...preferences.leadHours, [type]: e.target.value === '' ? null : parseInt(e.target.value, 10) },
+                })}
+                className={selectClassName}
+              >
+                <option value="">Don&apos;t notify</option>
+                {LEAD_TIME_OPTIONS.map(option => (
+                  <option key={option.hours} value={option.hours}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <label className="flex items-center justify-between gap-4 cursor-pointer">
+            <span className="text-sm font-medium text-gray-700">
+              Personal tasks &amp; events
+              <span className="block text-xs font-normal text-gray-500">Uses the reminder set on each event in the calendar</span>
+            </span>
+            <input
+              type="checkbox"
+              checked={preferences.personalReminders}
+              onChange={(e) => update({ personalReminders: e.target.checked })}
+              className="rounded border-gray-300 text-[#002E5D] focus:ring-[#002E5D]"
+            />
+          </label>
+        </div>
+      </div>
+
+      {/* Per-course overrides */}
+      {courses.length > 0 && (
+        <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold text-[#002E5D]">Courses</h2>
+            <p className="text-sm text-gray-600 mt-1">Mute a course or give it its own lead time for every type.</p>
+          </div>
+          <div className="space-y-3">
+            {courses.map(course => {
+              const hasOverride = course.canvasId in preferences.courseLeadHours;
+              const override = preferences.courseLeadHours[course.canvasId];
+              const value = !hasOverride ? 'default' : override === null ? 'muted' : String(override);
+              return (
+                <div key={course.canvasId} className="flex items-center justify-between gap-4">
+                  <span className="text-sm font-medium text-gray-700 truncate">{course.nickname}</span>
+                  <select
+                    value={value}
+                    onChange={(e) => {
+                      const courseLeadHours = { ...preferences.courseLeadHours };
+                      if (e.target.value === 'default') {
+                        delete courseLeadHours[course.canvasId];
+                      } else {
+                        courseLeadHours[course.canvasId] = e.target.value === 'muted' ? null : parseInt(e.target.value, 10);
+                      }
+                      update({ courseLeadHours });
+                    }}
+                    className={selectClassName}
+                  >
+                    <option value="default">Default</option>
+                    <option value="muted">Muted</option>
+                    {LEAD_TIME_OPTIONS.map(option => (
+                      <option key={option.hours} value={option.hours}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Quiet hours */}
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-[#002E5D] flex items-center gap-2">
+              <Moon className="w-5 h-5" />
+              Quiet Hours
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">Notifications wait until quiet hours end, unless the deadline passes first.</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={preferences.quietHours.enabled}
+            onChange={(e) => update({ quietHours: { ...preferences.quietHours, enabled: e.target.checked } })}
+            className="rounded border-gray-300 text-[#002E5D] focus:ring-[#002E5D]"
+            aria-label="Enable quiet hours"
+          />
+        </div>
+        {preferences.quietHours.enabled && (
+          <div className="flex items-center gap-3 text-sm text-gray-700">
+            <span>From</span>
+            <input
+              type="time"
+              value={preferences.quietHours.start}
+              onChange={(e) => e.target.value && update({ quietHours: { ...preferences.quietHours, start: e.target.value } })}
+              className={selectClassName}
+            />
+            <span>to</span>
+            <input
+              type="time"
+              value={preferences.quietHours.end}
+              onChange={(e) => e.target.value && update({ quietHours: { ...preferences.quietHours, end: e.target.value } })}
+              className={selectClassName}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Trash2, CalendarPlus } from 'lucide-react';
+import { useCourses } from './CoursesProvider';
+import {
+  addPersonalEvent,
+  updatePersonalEvent,
+  deletePersonalEvent,
+  PersonalEvent,
+  PersonalEventKind,
+  PersonalEventRecurrence,
+} from '../lib/courseStorage';
+import { RECURRENCE_LABELS, REMINDER_OPTIONS } from '../lib/personalEvents';
+
+interface PersonalEventFormProps {
+  event: PersonalEvent | null; // null to create a new one
+  defaultDate: string;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#002E5D] focus:border-transparent text-sm';
+
+export default function PersonalEventForm({ event, defaultDate, onClose }: PersonalEventFormProps) {
+  const { courses } = useCourses();
+  const [kind, setKind] = useState<PersonalEventKind>(event?.kind || 'event');
+  const [title, setTitle] = useState(event?.title || '');
+  const [courseId, setCourseId] = useState<number | null>(event?.courseId ?? null);
+  const [date, setDate] = useState(event?.date || defaultDate);
+  const [allDay, setAllDay] = useState(event ? !event.startTime : false);
+  const [startTime, setStartTime] = useState(event?.startTime || '09:00');
+  const [endTime, setEndTime] = useState(event?.endTime || '10:00');
+  const [location, setLocation] = useState(event?.location || '');
+  const [notes, setNotes] = useState(event?.notes || '');
+  const [recurrence, setRecurrence] = useState<PersonalEventRecurrence>(event?.recurrence || 'none');
+  const [recurrenceUntil, setRecurrenceUntil] = useState(event?.recurrenceUntil || '');
+  const [reminderMinutes, setReminderMinutes] = useState<number | null>(event ? event.reminderMinutes : null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    if (!title.trim()) {
+      setError('Please enter a title');
+      return;
+    }
+    if (!allDay && endTime && endTime <= startTime) {
+      setError('The end time must be after the start time');
+      return;
+    }
+    if (recurrence !== 'none' && recurrenceUntil && recurrenceUntil < date) {
+      setError('The repeat end date must be after the first date');
+      return;
+    }
+
+    const fields = {
+      kind,
+      title: title.trim(),
+      courseId,
+      date,
+      startTime: allDay ? null : startTime,
+      endTime: allDay || !endTime ? null : endTime,
+      location: location.trim() || null,
+      notes: notes.trim() || null,
+      recurrence,
+      recurrenceUntil: recurrence !== 'none' && recurrenceUntil ? recurrenceUntil : null,
+      reminderMinutes,
+    };
+
+    if (event) {
+      updatePersonalEvent({ ...event, ...fields });
+    } else {
+      addPersonalEvent(fields);
+    }
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!event) return;
+    if (event.recurrence !== 'none' && !confirm(`Delete every occurrence of "${event.title}"?`)) return;
+    deletePersonalEvent(event.id);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.97 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-white rounded-lg shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 bg-[#002E5D] text-white">
+          <span className="font-semibold flex items-center gap-2">
+            <CalendarPlus className="w-5 h-5" />
+            {event ? 'Edit' : 'New'} {kind === 'task' ? 'Task' : 'Event'}
+          </span>
+          <button onClick={onClose} className="p-1 rounded hover:bg-white/10 transition-colors" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Task or event */}
+          <div className="flex gap-2">
+            {(['event', 'task'] as PersonalEventKind[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setKind(option)}
+                className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                  kind === option
+                    ? 'bg-[#002E5D] text-white border-[#002E5D]'
+                    : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {option === 'event' ? 'Event' : 'Task'}
+              </button>
+            ))}
+          </div>
+
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder={kind === 'task' ? 'e.g. Finish reading chapter 4' : 'e.g. Study group'}
+            className={inputClassName}
+            autoFocus
+          />
+
+          <select
+            value={courseId ?? ''}
+            onChange={(e) => setCourseId(e.target.value ? parseInt(e.target.value, 10) : null)}
+            className={inputClassName}
+          >
+            <option value="">No course</option>
+            {courses.map(course => (
+              <option key={course.canvasId} value={course.canvasId}>{course.nickname}</option>
+            ))}
+          </select>
+
+          {/* Date and time */}
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-700 col-span-2 sm:col-span-1">
+              Date
+              <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={`${inputClassName} mt-1`} />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 col-span-2 sm:col-span-1 sm:mt-6 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={allDay}
+                onChange={(e) => setAllDay(e.target.checked)}
+                className="rounded border-gray-300 text-[#002E5D] focus:ring-[#002E5D]"
+              />
+              All day
+            </label>
+            {!allDay && (
+              <>
+                <label className="text-sm text-gray-700">
+                  {kind === 'task' ? 'Due' : 'Starts'}
+                  <input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} className={`${inputClassName} mt-1`} />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Ends
+                  <input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} className={`${inputClassName} mt-1`} />
+                </label>
+              </>
+            )}
+          </div>
+
+          {/* Recurrence */}
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-700">
+              Repeats
+              <select
+                value={recurrence}
+                onChange={(e) => setRecurrence(e.target.value as PersonalEventRecurrence)}
+                className={`${inputClassName} mt-1`}
+              >
+                {(Object.keys(RECURRENCE_LABELS) as PersonalEventRecurrence[]).map(option => (
+                  <option key={option} value={option}>{RECURRENCE_LABELS[option]}</option>
+                ))}
+              </select>
+            </label>
+            {recurrence !== 'none' && (
+              <label className="text-sm text-gray-700">
+                Until (optional)
+                <input
+                  type="date"
+                  value={recurrenceUntil}
+                  min={date}
+                  onChange={(e) => setRecurrenceUntil(e.target.value)}
+                  className={`${inputClassName} mt-1`}
+                />
+              </label>
+            )}
+          </div>
+
+          <label className="block text-sm text-gray-700">
+            Reminder
+            <select
+              value={reminderMinutes ?? ''}
+              onChange={(e) => setReminderMinutes(e.target.value === '' ? null : parseInt(e.target.value, 10))}
+              className={`${inputClassName} mt-1`}
+            >
+              {REMINDER_OPTIONS.map(option => (
+                <option key={option.label} value={option.minutes ?? ''}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
+          {kind === 'event' && (
+            <input
+              type="text"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="Location (optional)"
+              className={inputClassName}
+            />
+          )}
+
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Notes (optional)"
+            rows={3}
+            className={inputClassName}
+          />
+
+          {error && <p className="text-sm text-red-700">{error}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200">
+          {event ? (
+            <button
+              onClick={handleDelete}
+              className="px-3 py-2 text-sm text-red-700 hover:bg-red-50 rounded-lg transition-colors flex items-center gap-1"
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </button>
+          ) : <span />}
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-4 py-2 bg-[#002E5D] text-white rounded-lg hover:bg-[#004080] transition-colors text-sm font-medium"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
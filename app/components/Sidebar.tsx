@@ -11,6 +11,7 @@ import {
   ChevronRight,
   Loader2,
   Calendar,
+  ListTodo,
 } from 'lucide-react';
 import { useSidebar } from './SidebarProvider';
 import { useCourses } from './CoursesProvider';
@@ -18,6 +19,7 @@ import { useCourses } from './CoursesProvider';
 const staticNavigationItems = [
   { name: 'Dashboard', href: '/', icon: LayoutDashboard },
   { name: 'Calendar', href: '/calendar', icon: Calendar },
+  { name: 'To-Do', href: '/todo', icon: ListTodo },
   { name: 'Sandbox (T-Accounts)', href: '/sandbox', icon: SquareStack },
   { name: 'Settings', href: '/settings', icon: LinkIcon },
 ];
@@ -0,0 +1,302 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { HardDrive, Trash2, Loader2, ChevronDown, ChevronRight, CheckCircle2, AlertCircle } from 'lucide-react';
+import { useCourses } from './CoursesProvider';
+import {
+  getCacheSizeSummary,
+  getStorageUsage,
+  getCacheSizeLimitMb,
+  saveCacheSizeLimitMb,
+  enforceCacheSizeLimit,
+  purgeCachedCanvasFileData,
+  deleteCachedCanvasFile,
+  clearCachedCanvasFiles,
+  clearCachedExtractedText,
+  CacheSizeSummary,
+  StorageUsage,
+} from '../lib/courseStorage';
+
+interface CourseStorageRow {
+  key: string;
+  courseId: number | null; // null for semester documents
+  name: string;
+  downloadsSize: number;
+  uploadsSize: number;
+  extractedTextSize: number;
+}
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  return (bytes / (1024 * 1024 * 1024)).toFixed(2) + ' GB';
+};
+
+export default function StorageSettings() {
+  const { courses } = useCourses();
+  const [summary, setSummary] = useState<CacheSizeSummary | null>(null);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [limitMb, setLimitMb] = useState<number>(() => getCacheSizeLimitMb());
+  const [expandedCourse, setExpandedCourse] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    const [nextSummary, nextUsage] = await Promise.all([getCacheSizeSummary(), getStorageUsage()]);
+    setSummary(nextSummary);
+    setUsage(nextUsage);
+  };
+
+  useEffect(() => {
+    refresh().catch(err => {
+      console.error('Error measuring storage:', err);
+      setError('Could not measure browser storage');
+    });
+  }, []);
+
+  // Run a cache operation, then re-measure. The action may return a more specific message.
+  const runAction = async (action: () => Promise<string | void>, successMessage: string) => {
+    setIsWorking(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const resultMessage = await action();
+      await refresh();
+      setMessage(resultMessage || successMessage);
+    } catch (err) {
+      console.error('Error updating cached files:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update cached files');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSaveLimit = () =>
+    runAction(async () => {
+      saveCacheSizeLimitMb(limitMb);
+      const evicted = await enforceCacheSizeLimit();
+      if (evicted > 0) {
+        return `Limit saved. Removed ${evicted} least recently used download${evicted !== 1 ? 's' : ''}.`;
+      }
+    }, 'Cache limit saved');
+
+  const handlePurgeDownloads = () =>
+    runAction(purgeCachedCanvasFileData, 'Downloaded Canvas files removed. Extracted text was kept.');
+
+  const getCourseName = (courseId: number | null): string => {
+    if (courseId === null) return 'Semester Documents';
+    const course = courses.find(c => c.canvasId === courseId);
+    return course ? `${course.nickname} (${course.courseCode})` : `Course ${courseId}`;
+  };
+
+  // Group everything by course
+  const rows: CourseStorageRow[] = [];
+  if (summary) {
+    const rowMap = new Map<string, CourseStorageRow>();
+    const getRow = (courseId: number | null) => {
+      const key = courseId === null ? 'semester' : String(courseId);
+      let row = rowMap.get(key);
+      if (!row) {
+        row = { key, courseId, name: getCourseName(courseId), downloadsSize: 0, uploadsSize: 0, extractedTextSize: 0 };
+        rowMap.set(key, row);
+      }
+      return row;
+    };
+
+    summary.canvasFiles.forEach(file => { getRow(file.courseId).downloadsSize += file.size; });
+    summary.uploadedFiles.forEach(file => { getRow(file.courseId).uploadsSize += file.size; });
+    Object.entries(summary.extractedText).forEach(([courseId, size]) => {
+      getRow(parseInt(courseId, 10)).extractedTextSize += size;
+    });
+
+    rows.push(...Array.from(rowMap.values()).sort((a, b) =>
+      (b.downloadsSize + b.uploadsSize + b.extractedTextSize) - (a.downloadsSize + a.uploadsSize + a.extractedTextSize)
+    ));
+  }
+
+  const totalDownloads = summary ? summary.canvasFiles.reduce((sum, file) => sum + file.size, 0) : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Overview */}
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 space-y-4">
+        <h2 className="text-xl font-semibold text-[#002E5D] flex items-center gap-2">
+          <HardDrive className="w-5 h-5" />
+          Browser Storage
+        </h2>
+        {usage && usage.quota > 0 ? (
+          <div>
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>{formatSize(usage.usage)} used</span>
+              <span>{formatSize(usage.quota)} available</span>
+            </div>
+            <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-[#002E5D]"
+                style={{ width: `${Math.min(100, (usage.usage / usage.quota) * 100)}%` }}
+              />
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">This browser doesn&apos;t report storage usage.</p>
+        )}
+
+        {/* Cache limit */}
+        <div>
+          <label htmlFor="cache-limit" className="block text-sm font-semibold text-gray-700 mb-2">
+            Downloaded Canvas files limit (MB)
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="cache-limit"
+              type="number"
+              min={0}
+              value={limitMb}
+              onChange={(e) => setLimitMb(Math.max(0, parseInt(e.target.value, 10) || 0))}
+              className="w-40 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#002E5D] focus:border-transparent"
+            />
+            <button
+              onClick={handleSaveLimit}
+              disabled={isWorking}
+              className="px-4 py-2 bg-[#002E5D] text-white rounded-lg hover:bg-[#004080] transition-colors disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            Currently {formatSize(totalDownloads)}. When the limit is exceeded, the least recently used downloads are removed. Their extracted text is kept, so the assistant can still use them.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handlePurgeDownloads}
+            disabled={isWorking || totalDownloads === 0}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 flex items-center gap-2"
+          >
+            {isWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+            Purge downloaded files (keep extracted text)
+          </button>
+          {message && (
+            <span className="text-sm text-green-700 flex items-center gap-1">
+              <CheckCircle2 className="w-4 h-4" />
+              {message}
+            </span>
+          )}
+          {error && (
+            <span className="text-sm text-red-700 flex items-center gap-1">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Per-course breakdown */}
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+        <h2 className="text-xl font-semibold text-[#002E5D] mb-4">Storage by Course</h2>
+        {!summary ? (
+          <div className="flex items-center gap-2 text-gray-600">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span className="text-sm">Measuring cached files...</span>
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing is cached yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {rows.map(row => {
+              const isExpanded = expandedCourse === row.key;
+              const courseDownloads = summary.canvasFiles.filter(file => file.courseId === row.courseId);
+              const courseUploads = summary.uploadedFiles.filter(file => file.courseId === row.courseId);
+              return (
+                <div key={row.key} className="border border-gray-200 rounded-lg">
+                  <button
+                    onClick={() => setExpandedCourse(isExpanded ? null : row.key)}
+                    className="w-full flex items-center justify-between p-4 hover:bg-gray-50 transition-colors text-left"
+                  >
+                    <div className="flex items-center gap-2 min-w-0">
+                      {isExpanded ? <ChevronDown className="w-4 h-4 flex-shrink-0" /> : <ChevronRight className="w-4 h-4 flex-shrink-0" />}
+                      <span className="font-medium text-gray-900 truncate">{row.name}</span>
+                    </div>
+                    <span className="text-sm text-gray-600 flex-shrink-0">
+                      {formatSize(row.downloadsSize + row.uploadsSize + row.extractedTextSize)}
+                    </span>
+                  </button>
+
+                  {isExpanded && (
+                    <div className="px-4 pb-4 space-y-3 text-sm">
+                      <div className="grid grid-cols-3 gap-2 text-gray-600">
+                        <div>Canvas downloads: <span className="font-medium">{formatSize(row.downloadsSize)}</span></div>
+                        <div>Uploaded files: <span className="font-medium">{formatSize(row.uploadsSize)}</span></div>
+                        <div>Extracted text: <span className="font-medium">{formatSize(row.extractedTextSize)}</span></div>
+                      </div>
+
+                      {courseDownloads.length > 0 && (
+                        <div className="space-y-1">
+                          {courseDownloads
+                            .sort((a, b) => b.size - a.size)
+                            .map(file => (
+                              <div key={file.canvasId} className="flex items-center justify-between gap-2 py-1 border-b border-gray-100">
+                                <span className="truncate text-gray-800">{file.name}</span>
+                                <div className="flex items-center gap-3 flex-shrink-0 text-gray-500">
+                                  <span>{formatSize(file.size)}</span>
+                                  <span className="hidden sm:inline">
+                                    Last used {new Date(file.lastAccessedAt || file.cachedAt).toLocaleDateString()}
+                                  </span>
+                                  <button
+                                    onClick={() => runAction(() => deleteCachedCanvasFile(file.courseId, file.canvasId), `Removed ${file.name}`)}
+                                    disabled={isWorking}
+                                    className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+                                    aria-label={`Remove ${file.name}`}
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </button>
+                                </div>
+                              </div>
+                            ))}
+                        </div>
+                      )}
+
+                      {courseUploads.length > 0 && (
+                        <div className="space-y-1">
+                          {courseUploads.map(file => (
+                            <div key={file.id} className="flex items-center justify-between gap-2 py-1 border-b border-gray-100">
+                              <span className="truncate text-gray-800">{file.name} <span className="text-gray-400">(uploaded)</span></span>
+                              <span className="text-gray-500 flex-shrink-0">{formatSize(file.size)}</span>
+                            </div>
+                          ))}
+                          <p className="text-xs text-gray-500">Manage uploaded files in the Files tab.</p>
+                        </div>
+                      )}
+
+                      {row.courseId !== null && (
+                        <div className="flex gap-2 pt-1">
+                          <button
+                            onClick={() => runAction(() => clearCachedCanvasFiles(row.courseId as number), `Cleared downloads for ${row.name}`)}
+                            disabled={isWorking || row.downloadsSize === 0}
+                            className="px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                          >
+                            Clear downloads
+                          </button>
+                          <button
+                            onClick={() => runAction(() => clearCachedExtractedText(row.courseId as number), `Cleared extracted text for ${row.name}`)}
+                            disabled={isWorking || row.extractedTextSize === 0}
+                            className="px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                          >
+                            Clear extracted text
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
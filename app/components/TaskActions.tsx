@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle2, Circle, Pin, AlarmClock, GraduationCap } from 'lucide-react';
+import { saveTaskState, saveExamTag } from '../lib/courseStorage';
+import { useTaskStates, isTaskSnoozed, getSnoozeDate } from '../lib/tasks';
+
+interface TaskActionsProps {
+  taskKey: string;
+  isExam?: boolean; // Pass the current classification to show the exam tag button
+}
+
+const SNOOZE_OPTIONS = [
+  { label: 'Tomorrow', days: 1 },
+  { label: 'In 3 days', days: 3 },
+  { label: 'Next week', days: 7 },
+];
+
+export default function TaskActions({ taskKey, isExam }: TaskActionsProps) {
+  const taskStates = useTaskStates();
+  const [isSnoozeOpen, setIsSnoozeOpen] = useState(false);
+  const state = taskStates[taskKey];
+  const isDone = !!state?.done;
+  const isPinned = !!state?.pinned;
+  const isSnoozed = isTaskSnoozed(state);
+
+  const update = (changes: { done?: boolean; snoozedUntil?: string; pinned?: boolean }) => {
+    saveTaskState(taskKey, {
+      done: state?.done,
+      snoozedUntil: state?.snoozedUntil,
+      pinned: state?.pinned,
+      ...changes,
+    });
+  };
+
+  const snoozeUntil = (date: string | undefined) => {
+    update({ snoozedUntil: date });
+    setIsSnoozeOpen(false);
+  };
+
+  return (
+    <div className="relative flex items-center gap-1 flex-shrink-0">
+      <button
+        onClick={() => update({ done: !isDone })}
+        className={`p-1.5 rounded-lg transition-colors ${
+          isDone ? 'text-green-700 hover:bg-green-50' : 'text-gray-400 hover:text-[#002E5D] hover:bg-gray-100'
+        }`}
+        aria-label={isDone ? 'Mark not done' : 'Mark done'}
+        title={isDone ? 'Mark not done' : 'Mark done'}
+      >
+        {isDone ? <CheckCircle2 className="w-4 h-4" /> : <Circle className="w-4 h-4" />}
+      </button>
+      <button
+        onClick={() => setIsSnoozeOpen(!isSnoozeOpen)}
+        className={`p-1.5 rounded-lg transition-colors ${
+          isSnoozed ? 'text-yellow-700 hover:bg-yellow-50' : 'text-gray-400 hover:text-[#002E5D] hover:bg-gray-100'
+        }`}
+        aria-label="Snooze"
+        title={isSnoozed ? `Snoozed until ${new Date(state?.snoozedUntil + 'T00:00:00').toLocaleDateString()}` : 'Snooze'}
+      >
+        <AlarmClock className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => update({ pinned: !isPinned })}
+        className={`p-1.5 rounded-lg transition-colors ${
+          isPinned ? 'text-[#002E5D] bg-blue-50 hover:bg-blue-100' : 'text-gray-400 hover:text-[#002E5D] hover:bg-gray-100'
+        }`}
+        aria-label={isPinned ? 'Unpin' : 'Pin'}
+        title={isPinned ? 'Unpin' : 'Pin'}
+      >
+        <Pin className="w-4 h-4" />
+      </button>
+      {isExam !== undefined && (
+        <button
+          onClick={() => saveExamTag(taskKey, !isExam)}
+          className={`p-1.5 rounded-lg transition-colors ${
+            isExam ? 'text-red-700 bg-red-50 hover:bg-red-100' : 'text-gray-400 hover:text-[#002E5D] hover:bg-gray-100'
+          }`}
+          aria-label={isExam ? 'This is not an exam' : 'This is an exam'}
+          title={isExam ? 'Exam (click if this is not an exam)' : 'Tag as an exam'}
+        >
+          <GraduationCap className="w-4 h-4" />
+        </button>
+      )}
+
+      {isSnoozeOpen && (
+        <div className="absolute right-0 top-full mt-1 z-20 w-44 bg-white border border-gray-200 rounded-lg shadow-lg p-2 space-y-1 text-sm">
+          {SNOOZE_OPTIONS.map(option => (
+            <button
+              key={option.days}
+              onClick={() => snoozeUntil(getSnoozeDate(option.days))}
+              className="w-full text-left px-2 py-1 rounded hover:bg-gray-100"
+            >
+              {option.label}
+            </button>
+          ))}
+          <input
+            type="date"
+            min={getSnoozeDate(1)}
+            onChange={(e) => e.target.value && snoozeUntil(e.target.value)}
+            className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-[#002E5D]"
+            aria-label="Snooze until date"
+          />
+          {isSnoozed && (
+            <button
+              onClick={() => snoozeUntil(undefined)}
+              className="w-full text-left px-2 py-1 rounded text-red-700 hover:bg-red-50"
+            >
+              Unsnooze
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
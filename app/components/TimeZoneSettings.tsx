@@ -0,0 +1,48 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Globe } from 'lucide-react';
+import { getTimeZoneSetting, saveTimeZoneSetting } from '../lib/courseStorage';
+import { useTimeZone } from '../lib/timeZone';
+import { getDeviceTimeZone, formatTime } from '../lib/dates';
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#002E5D] focus:border-transparent text-sm';
+
+export default function TimeZoneSettings() {
+  // Re-render when the setting changes; the select shows whether it's set or following the device
+  const timeZone = useTimeZone();
+  const setting = timeZone === getTimeZoneSetting() ? timeZone : '';
+  const deviceTimeZone = getDeviceTimeZone();
+
+  const timeZones = useMemo(() => {
+    const supported = Intl.supportedValuesOf('timeZone');
+    return supported.includes(timeZone) ? supported : [...supported, timeZone].sort();
+  }, [timeZone]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+      <h2 className="text-xl font-semibold text-[#002E5D] mb-2 flex items-center gap-2">
+        <Globe className="w-5 h-5" />
+        Time Zone
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Deadlines, exam countdowns and calendar days follow this timezone. Set it to your school&apos;s timezone if you
+        travel, so an 11:59 PM deadline stays on the right day.
+      </p>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <select
+          value={setting}
+          onChange={(e) => saveTimeZoneSetting(e.target.value || null)}
+          className={`${inputClassName} sm:w-80`}
+          aria-label="Time zone"
+        >
+          <option value="">Use this device ({deviceTimeZone})</option>
+          {timeZones.map(zone => (
+            <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+          ))}
+        </select>
+        <span className="text-sm text-gray-500">It&apos;s {formatTime(new Date(), timeZone)} there now</span>
+      </div>
+    </div>
+  );
+}
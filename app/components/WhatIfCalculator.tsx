@@ -0,0 +1,186 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { Calculator, RotateCcw, Target } from 'lucide-react';
+import type { CanvasCourseGrades } from '../actions/canvas';
+import {
+  calculateCourseGrade,
+  solveMinimumScore,
+  formatPercent,
+  getLetterGrade,
+  getScoreColorClass,
+  ScoreOverrides,
+  DEFAULT_GRADE_CUTOFFS,
+} from '../lib/grades';
+import { useExamClassifier } from '../lib/exams';
+import { getAssignmentTaskKey } from '../lib/tasks';
+
+interface WhatIfCalculatorProps {
+  grades: CanvasCourseGrades;
+}
+
+export default function WhatIfCalculator({ grades }: WhatIfCalculatorProps) {
+  const [overrides, setOverrides] = useState<ScoreOverrides>({});
+  const [targetPercent, setTargetPercent] = useState<number>(DEFAULT_GRADE_CUTOFFS[0].minPercent);
+  const isExam = useExamClassifier();
+
+  const ungradedAssignments = useMemo(() => {
+    return calculateCourseGrade(grades).groups.flatMap(group =>
+      group.assignments
+        .filter(assignment => assignment.score === null && !assignment.excused && assignment.pointsPossible > 0)
+        .map(assignment => ({ ...assignment, groupName: group.name }))
+    );
+  }, [grades]);
+
+  // Default to the last exam due, which is usually the final
+  const defaultSolveFor = useMemo(() => {
+    const exams = ungradedAssignments
+      .filter(assignment => isExam({
+        title: assignment.name,
+        courseId: grades.courseId,
+        taskKey: getAssignmentTaskKey(assignment.id),
+      }))
+      .sort((a, b) => new Date(b.dueAt || 0).getTime() - new Date(a.dueAt || 0).getTime());
+    return (exams[0] || ungradedAssignments[0])?.id ?? null;
+  }, [ungradedAssignments, isExam, grades.courseId]);
+  const [selectedSolveFor, setSelectedSolveFor] = useState<number | null>(null);
+  const solveFor = selectedSolveFor ?? defaultSolveFor;
+
+  const projected = calculateCourseGrade(grades, overrides);
+  const solveForAssignment = ungradedAssignments.find(assignment => assignment.id === solveFor);
+
+  // Solve using every other hypothetical score, but not one typed for the solved assignment itself
+  const minimum = useMemo(() => {
+    if (solveFor === null) return null;
+    const otherOverrides = { ...overrides };
+    delete otherOverrides[solveFor];
+    return solveMinimumScore(grades, solveFor, targetPercent, otherOverrides);
+  }, [grades, overrides, solveFor, targetPercent]);
+
+  const handleScoreChange = (assignmentId: number, value: string) => {
+    setOverrides(prev => {
+      const next = { ...prev };
+      const score = parseFloat(value);
+      if (value.trim() === '' || isNaN(score)) {
+        delete next[assignmentId];
+      } else {
+        next[assignmentId] = Math.max(0, score);
+      }
+      return next;
+    });
+  };
+
+  if (ungradedAssignments.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 italic">Every assignment in this course has been graded.</p>
+    );
+  }
+
+  const hasOverrides = Object.keys(overrides).length > 0;
+
+  return (
+    <div className="space-y-4">
+      {/* Projected score */}
+      <div className="flex items-center justify-between bg-gray-50 rounded-lg p-4">
+        <div>
+          <p className="text-sm text-gray-500 flex items-center gap-1">
+            <Calculator className="w-4 h-4" />
+            Projected score
+          </p>
+          <p className={`text-2xl font-bold ${getScoreColorClass(projected.percent)}`}>
+            {formatPercent(projected.percent)}
+            {projected.percent !== null && <span className="ml-2 text-lg">{getLetterGrade(projected.percent)}</span>}
+          </p>
+        </div>
+        {hasOverrides && (
+          <button
+            onClick={() => setOverrides({})}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-white transition-colors flex items-center gap-1"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset
+          </button>
+        )}
+      </div>
+
+      {/* Hypothetical scores */}
+      <div className="space-y-1 text-sm">
+        <p className="font-semibold text-gray-700 mb-2">Enter scores for ungraded assignments</p>
+        {ungradedAssignments.map(assignment => (
+          <label key={assignment.id} className="flex items-center justify-between gap-2 py-1 border-b border-gray-100">
+            <span className="min-w-0">
+              <span className="block truncate text-gray-800">{assignment.name}</span>
+              <span className="block text-xs text-gray-500">{assignment.groupName}</span>
+            </span>
+            <span className="flex items-center gap-1 flex-shrink-0 text-gray-600">
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={overrides[assignment.id] ?? ''}
+                onChange={(e) => handleScoreChange(assignment.id, e.target.value)}
+                placeholder="–"
+                className="w-20 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-[#002E5D] focus:border-transparent text-right"
+              />
+              / {assignment.pointsPossible}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {/* Minimum score needed */}
+      <div className="border border-gray-200 rounded-lg p-4 space-y-3 text-sm">
+        <p className="font-semibold text-gray-700 flex items-center gap-1">
+          <Target className="w-4 h-4" />
+          What do I need?
+        </p>
+        <div className="flex flex-wrap items-center gap-2 text-gray-700">
+          <span>To get</span>
+          <select
+            value={targetPercent}
+            onChange={(e) => setTargetPercent(parseFloat(e.target.value))}
+            className="px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-[#002E5D]"
+          >
+            {DEFAULT_GRADE_CUTOFFS.map(cutoff => (
+              <option key={cutoff.letter} value={cutoff.minPercent}>
+                {cutoff.letter} ({cutoff.minPercent}%)
+              </option>
+            ))}
+          </select>
+          <span>I need on</span>
+          <select
+            value={solveFor ?? ''}
+            onChange={(e) => setSelectedSolveFor(parseInt(e.target.value, 10))}
+            className="px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-[#002E5D] max-w-[16rem]"
+          >
+            {ungradedAssignments.map(assignment => (
+              <option key={assignment.id} value={assignment.id}>{assignment.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {minimum && solveForAssignment && (
+          <p className="text-gray-800">
+            {minimum.status === 'needed' && minimum.score !== null && (
+              <>
+                At least <span className="font-semibold">{minimum.score} / {minimum.pointsPossible}</span>
+                {' '}({formatPercent((minimum.score / minimum.pointsPossible) * 100)})
+              </>
+            )}
+            {minimum.status === 'already-met' && (
+              <>You&apos;ll reach {getLetterGrade(targetPercent)} even with a zero on this assignment.</>
+            )}
+            {minimum.status === 'unreachable' && (
+              <>
+                Not reachable with this assignment alone. Full marks would give you {formatPercent(minimum.percentAtMaximum)}.
+              </>
+            )}
+          </p>
+        )}
+        <p className="text-xs text-gray-500">
+          Uses the other scores you entered above. Assumes the standard BYU grade scale and may differ slightly from Canvas.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -4,10 +4,16 @@ import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { Edit2, Save, X, Calendar, FileText, Loader2, AlertCircle, EyeOff, Trash2, Folder, ExternalLink, File } from 'lucide-react';
 import { fetchCourseAssignments, fetchCourseFiles, fetchCourseFolders, fetchFolderFiles, testFolderAccess, CanvasFile, CanvasFolder } from '../../actions/canvas';
-import { getCanvasToken, getAutoRefreshInterval } from '../../lib/courseStorage';
+import { getCanvasAuth, getCanvasBaseUrl, getAutoRefreshInterval } from '../../lib/courseStorage';
+import { describeCanvasError, unwrapCanvasResult } from '../../lib/canvasErrors';
 import { useCourses } from '../../components/CoursesProvider';
 import { motion, AnimatePresence } from 'framer-motion';
 import JuniorAssistant from '../../components/JuniorAssistant';
+import GradePanel from '../../components/GradePanel';
+import TaskActions from '../../components/TaskActions';
+import { isAssignmentSubmitted } from '../../lib/assignments';
+import { useTaskStates, getAssignmentTaskKey, isTaskHidden } from '../../lib/tasks';
+import { useExamClassifier } from '../../lib/exams';
 
 export default function CoursePage() {
   const params = useParams();
@@ -20,6 +26,8 @@ export default function CoursePage() {
   const [nicknameValue, setNicknameValue] = useState('');
   const [assignments, setAssignments] = useState<any[]>([]);
   const [isLoadingAssignments, setIsLoadingAssignments] = useState(false);
+  const taskStates = useTaskStates();
+  const isExam = useExamClassifier();
   const [files, setFiles] = useState<CanvasFile[]>([]);
   const [folders, setFolders] = useState<CanvasFolder[]>([]);
   const [folderFiles, setFolderFiles] = useState<Record<number, CanvasFile[]>>({});
@@ -43,8 +51,8 @@ export default function CoursePage() {
   }, [courseId]);
 
   const loadAssignments = useCallback(async () => {
-    const token = getCanvasToken();
-    if (!token) {
+    const auth = getCanvasAuth();
+    if (!auth) {
       setError('Canvas token not found. Please sync in Canvas Sync settings.');
       return;
     }
@@ -53,10 +61,10 @@ export default function CoursePage() {
     setError(null);
 
     try {
-      const data = await fetchCourseAssignments(token, courseId);
+      const data = unwrapCanvasResult(await fetchCourseAssignments(auth, courseId));
       setAssignments(data);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load assignments');
+      setError(describeCanvasError(err, 'Failed to load assignments'));
     } finally {
       setIsLoadingAssignments(false);
     }
@@ -72,8 +80,8 @@ export default function CoursePage() {
       assignmentsIntervalRef.current = null;
     }
 
-    const token = getCanvasToken();
-    if (!token || !courseId) return;
+    const auth = getCanvasAuth();
+    if (!auth || !courseId) return;
 
     const intervalMinutes = getAutoRefreshInterval();
     if (intervalMinutes <= 0) return; // Auto-refresh disabled
@@ -107,16 +115,16 @@ export default function CoursePage() {
   }, [loadAssignments, courseId]);
 
   const loadFiles = async () => {
-    const token = getCanvasToken();
-    if (!token) return;
+    const auth = getCanvasAuth();
+    if (!auth) return;
 
     setIsLoadingFiles(true);
 
     try {
       // Fetch both files and folders
       const [filesData, foldersData] = await Promise.all([
-        fetchCourseFiles(token, courseId).catch(() => []),
-        fetchCourseFolders(token, courseId).catch(() => [])
+        fetchCourseFiles(auth, courseId).then(unwrapCanvasResult).catch(() => []),
+        fetchCourseFolders(auth, courseId).then(unwrapCanvasResult).catch(() => [])
       ]);
       
       setFiles(filesData);
@@ -131,7 +139,7 @@ export default function CoursePage() {
       // Test all folders in parallel using server action
       const testResults = await Promise.allSettled(
         foldersToTest.map(async (folder) => {
-          const isAccessible = await testFolderAccess(token, folder.id);
+          const isAccessible = await testFolderAccess(auth, folder.id);
           return { folderId: folder.id, restricted: !isAccessible };
         })
       );
@@ -167,12 +175,12 @@ export default function CoursePage() {
       });
     } else {
       // Expand - load folder files
-      const token = getCanvasToken();
-      if (!token) return;
+      const auth = getCanvasAuth();
+      if (!auth) return;
 
       if (!folderFiles[folderId]) {
         try {
-          const folderFilesData = await fetchFolderFiles(token, folderId);
+          const folderFilesData = await fetchFolderFiles(auth, folderId);
           setFolderFiles(prev => ({ ...prev, [folderId]: folderFilesData }));
           // If we get empty but folder says it has files, mark as restricted
           if (folderFilesData.length === 0) {
@@ -181,12 +189,9 @@ export default function CoursePage() {
               setRestrictedFolders(prev => new Set(prev).add(folderId));
             }
           }
-        } catch (err: any) {
+        } catch (err) {
+          // Restricted folders come back empty (handled above), so this is a network or server failure
           console.error('Error loading folder files:', err);
-          // Mark as restricted if we get a 403
-          if (err?.message?.includes('403')) {
-            setRestrictedFolders(prev => new Set(prev).add(folderId));
-          }
           setFolderFiles(prev => ({ ...prev, [folderId]: [] }));
         }
       }
@@ -258,17 +263,6 @@ export default function CoursePage() {
     return tmp.textContent || tmp.innerText || '';
   };
 
-  // Helper function to check if assignment is completed/submitted in Canvas
-  const isAssignmentSubmitted = (assignment: any): boolean => {
-    // Check if assignment has a submission object from Canvas
-    if (assignment.submission) {
-      const workflowState = assignment.submission.workflow_state;
-      // Assignment is considered completed if it's been submitted or graded
-      return workflowState === 'submitted' || workflowState === 'graded';
-    }
-    return false;
-  };
-
   const upcomingAssignments = useMemo(() => {
     return assignments
       .filter(a => {
@@ -277,15 +271,22 @@ export default function CoursePage() {
         // Filter out past due assignments
         if (new Date(a.due_at) <= new Date()) return false;
         // Filter out assignments that have been submitted/completed in Canvas
-        return !isAssignmentSubmitted(a);
+        if (isAssignmentSubmitted(a)) return false;
+        // Filter out assignments marked done or snoozed here
+        return !isTaskHidden(taskStates[getAssignmentTaskKey(a.id)]);
+      })
+      .sort((a, b) => {
+        // Pinned assignments first, then by due date
+        const pinnedA = taskStates[getAssignmentTaskKey(a.id)]?.pinned ? 0 : 1;
+        const pinnedB = taskStates[getAssignmentTaskKey(b.id)]?.pinned ? 0 : 1;
+        return pinnedA - pinnedB || new Date(a.due_at).getTime() - new Date(b.due_at).getTime();
       })
-      .sort((a, b) => new Date(a.due_at).getTime() - new Date(b.due_at).getTime())
       .map(assignment => ({
         ...assignment,
         descriptionText: assignment.description ? stripHtml(assignment.description) : ''
       }))
       .slice(0, 5);
-  }, [assignments]);
+  }, [assignments, taskStates]);
 
   return (
     <div className="space-y-6">
@@ -414,27 +415,29 @@ export default function CoursePage() {
           <div className="space-y-3">
             {upcomingAssignments.map((assignment) => {
               // Build Canvas URL if html_url is not available
-              const canvasUrl = assignment.html_url || `https://byu.instructure.com/courses/${courseId}/assignments/${assignment.id}`;
+              const canvasUrl = assignment.html_url || `${getCanvasBaseUrl()}/courses/${courseId}/assignments/${assignment.id}`;
               
               return (
-                <motion.a
+                <motion.div
                   key={assignment.id}
-                  href={canvasUrl}
-                  target="_blank"
-                  rel="noopener noreferrer"
                   initial={{ opacity: 0, y: 10 }}
                   animate={{ opacity: 1, y: 0 }}
-                  className="block border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow cursor-pointer"
+                  className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow"
                 >
                   <div className="flex items-start justify-between">
-                    <div className="flex-1 min-w-0 pr-4">
-                      <h3 className="font-semibold text-gray-900">{assignment.name}</h3>
+                    <a
+                      href={canvasUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex-1 min-w-0 pr-4"
+                    >
+                      <h3 className="font-semibold text-gray-900 hover:text-[#002E5D]">{assignment.name}</h3>
                       {assignment.descriptionText && (
                         <p className="text-sm text-gray-600 mt-1 line-clamp-1">
                           {assignment.descriptionText}
                         </p>
                       )}
-                    </div>
+                    </a>
                     <div className="ml-4 text-right flex-shrink-0">
                       <p className="text-sm font-medium text-[#002E5D]">
                         {new Date(assignment.due_at).toLocaleDateString()}
@@ -443,8 +446,14 @@ export default function CoursePage() {
                         {new Date(assignment.due_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                       </p>
                     </div>
+                    <div className="ml-2">
+                      <TaskActions
+                        taskKey={getAssignmentTaskKey(assignment.id)}
+                        isExam={isExam({ title: assignment.name, courseId, taskKey: getAssignmentTaskKey(assignment.id) })}
+                      />
+                    </div>
                   </div>
-                </motion.a>
+                </motion.div>
               );
             })}
           </div>
@@ -456,6 +465,9 @@ export default function CoursePage() {
         )}
       </div>
 
+          {/* Grades */}
+          <GradePanel courseId={courseId} />
+
           {/* Course Files Section */}
           <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
         <div className="flex items-center justify-between mb-4">
@@ -5,6 +5,7 @@ import Sidebar from "./components/Sidebar";
 import { SidebarProvider } from "./components/SidebarProvider";
 import { CoursesProvider } from "./components/CoursesProvider";
 import MainContent from "./components/MainContent";
+import NotificationScheduler from "./components/NotificationScheduler";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -33,6 +34,7 @@ export default function RootLayout({
       >
         <SidebarProvider>
           <CoursesProvider>
+            <NotificationScheduler />
             <div className="flex min-h-screen">
               <Sidebar />
               <MainContent>{children}</MainContent>
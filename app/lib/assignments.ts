@@ -0,0 +1,70 @@
+'use client';
+
+import { fetchCourseAssignments, CanvasAssignment, CanvasAuth } from '../actions/canvas';
+import { unwrapCanvasResult } from './canvasErrors';
+import { getCachedAssignments, saveCachedAssignments } from './courseStorage';
+import { getDateKeyInTimeZone, getDaysBetween } from './dates';
+import { getExamClassifier } from './exams';
+import type { ExamClassifier } from './examRules';
+import { getAssignmentTaskKey } from './tasks';
+
+export type AssignmentType = 'assignment' | 'quiz' | 'discussion' | 'exam';
+
+export type DueBucket = 'overdue' | 'today' | 'this-week' | 'later';
+
+export const DUE_BUCKET_LABELS: Record<DueBucket, string> = {
+  overdue: 'Overdue',
+  today: 'Today',
+  'this-week': 'This week',
+  later: 'Later',
+};
+
+export const ASSIGNMENT_TYPE_LABELS: Record<AssignmentType, string> = {
+  assignment: 'Assignment',
+  quiz: 'Quiz',
+  discussion: 'Discussion',
+  exam: 'Exam',
+};
+
+// Get a course's assignments, using the 5-minute cache when it's fresh
+export async function loadCourseAssignments(auth: CanvasAuth, courseId: number): Promise<CanvasAssignment[]> {
+  const cached = getCachedAssignments(courseId);
+  if (cached) {
+    return cached.assignments;
+  }
+
+  const assignments = unwrapCanvasResult(await fetchCourseAssignments(auth, courseId));
+  saveCachedAssignments(courseId, assignments);
+  return assignments;
+}
+
+// Check if an assignment has been submitted or graded in Canvas
+export function isAssignmentSubmitted(assignment: Pick<CanvasAssignment, 'submission'>): boolean {
+  const workflowState = assignment.submission?.workflow_state;
+  return workflowState === 'submitted' || workflowState === 'graded';
+}
+
+// Classify an assignment by its Canvas submission type (exams by the exam detection rules)
+export function getAssignmentType(
+  assignment: Pick<CanvasAssignment, 'id' | 'name' | 'submission_types'>,
+  courseId: number,
+  isExam: ExamClassifier = getExamClassifier()
+): AssignmentType {
+  if (isExam({ title: assignment.name || '', courseId, taskKey: getAssignmentTaskKey(assignment.id) })) {
+    return 'exam';
+  }
+  const submissionTypes = assignment.submission_types || [];
+  if (submissionTypes.includes('online_quiz')) return 'quiz';
+  if (submissionTypes.includes('discussion_topic')) return 'discussion';
+  return 'assignment';
+}
+
+// Which to-do group a due date falls in, by calendar day in the user's timezone
+export function getDueBucket(dueAt: string, timeZone: string, now: Date = new Date()): DueBucket {
+  const due = new Date(dueAt);
+  if (due.getTime() < now.getTime()) return 'overdue';
+
+  const daysAway = getDaysBetween(getDateKeyInTimeZone(now, timeZone), getDateKeyInTimeZone(due, timeZone));
+  if (daysAway === 0) return 'today';
+  return daysAway <= 7 ? 'this-week' : 'later';
+}
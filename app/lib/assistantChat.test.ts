@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChatTurn } from '../actions/chat';
+import type { LLMRequest } from './llm';
+import { generateChatReply } from './assistantChat';
+
+const generate = vi.fn(async (request: LLMRequest) => request.systemPrompt ? 'reply' : `summary ${generate.mock.calls.length}`);
+
+vi.mock('./llm', () => ({
+  getLLMProvider: () => ({ generate }),
+}));
+
+// A conversation of `count` turns, each 1000 characters, alternating student and assistant
+function makeHistory(count: number, label = 'turn'): ChatTurn[] {
+  return Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    text: `${label} ${i} `.padEnd(1000, '.'),
+  }));
+}
+
+// Prompts sent to summarize the conversation (the ones without a system prompt)
+function getSummaryPrompts(): string[] {
+  return generate.mock.calls.map(([request]) => request).filter(request => !request.systemPrompt).map(request => request.message);
+}
+
+describe('generateChatReply history summaries', () => {
+  beforeEach(() => {
+    vi.stubEnv('CHAT_HISTORY_CHAR_BUDGET', '4000');
+    generate.mockClear();
+  });
+
+  it('only folds newly dropped turns into the running summary', async () => {
+    const history = makeHistory(10, 'incremental');
+    await generateChatReply({ message: 'first', tutorMode: false, history });
+    expect(getSummaryPrompts()).toHaveLength(1);
+    expect(getSummaryPrompts()[0]).toContain('incremental 0 ');
+    expect(getSummaryPrompts()[0]).toContain('incremental 5 ');
+
+    generate.mockClear();
+    await generateChatReply({ message: 'second', tutorMode: false, history: makeHistory(12, 'incremental') });
+    const [prompt] = getSummaryPrompts();
+    expect(getSummaryPrompts()).toHaveLength(1);
+    expect(prompt).toContain('SUMMARY SO FAR:\nsummary 1');
+    expect(prompt).not.toContain('incremental 5 ');
+    expect(prompt).toContain('incremental 6 ');
+    expect(prompt).toContain('incremental 7 ');
+  });
+
+  it('reuses the summary when no more turns have dropped out', async () => {
+    const history = makeHistory(8, 'reused');
+    await generateChatReply({ message: 'first', tutorMode: false, history });
+    generate.mockClear();
+    await generateChatReply({ message: 'again', tutorMode: false, history });
+    expect(getSummaryPrompts()).toHaveLength(0);
+  });
+
+  it('caps the transcript sent with each summarization call', async () => {
+    await generateChatReply({ message: 'long', tutorMode: false, history: makeHistory(60, 'capped') });
+    const prompts = getSummaryPrompts();
+    expect(prompts.length).toBeGreaterThan(1);
+    prompts.forEach(prompt => expect(prompt.length).toBeLessThan(20000));
+    expect(prompts[prompts.length - 1]).toContain('capped 55 ');
+  });
+});
@@ -0,0 +1,241 @@
+// Server-side helpers shared by the sendChatMessage action and the /api/chat streaming route.
+// Builds the system prompt, fits the conversation into the history budget and hands the
+// request to the configured LLM provider (see lib/llm).
+
+import { createHash } from 'node:crypto';
+import type { FileContext, ChatTurn } from '../actions/chat';
+import { getLLMProvider, LLMRequest } from './llm';
+
+// How many characters of earlier conversation are sent verbatim with each message.
+// Anything older than this is folded into a running summary instead.
+// Override with CHAT_HISTORY_CHAR_BUDGET in .env.local.
+const DEFAULT_HISTORY_CHAR_BUDGET = 12000;
+
+// Cap on the transcript sent with one summarization call. Turns dropped from the budget
+// are folded into the running summary in batches of at most this many characters.
+const MAX_SUMMARY_INPUT_CHARS = 16000;
+
+// A running summary of the first turnCount turns of a conversation
+interface ConversationSummary {
+  text: string;
+  turnCount: number;
+}
+
+// Running summaries keyed by a hash of the turns they cover, so each message only folds
+// in the turns that have dropped out of the budget since the last one
+const summaryCache = new Map<string, ConversationSummary>();
+const SUMMARY_CACHE_LIMIT = 200;
+
+export interface ChatRequest {
+  message: string;
+  tutorMode: boolean;
+  courseId?: number;
+  courseNickname?: string;
+  fileContexts?: FileContext[];
+  history?: ChatTurn[];
+}
+
+// Build the system prompt for the general or course-specific assistant
+function buildSystemPrompt(
+  tutorMode: boolean,
+  courseId?: number,
+  courseNickname?: string,
+  fileContexts?: FileContext[]
+): string {
+  // Build file context string if files are provided
+  let fileContextString = '';
+  if (courseId && fileContexts && fileContexts.length > 0) {
+    const contextSections = fileContexts.map((file, index) => {
+      // Course documents arrive as retrieved passages; whole files (e.g. from sendChatMessage)
+      // are still capped at 10000 characters each to avoid token limits
+      const truncatedText = file.text.length > 10000
+        ? file.text.substring(0, 10000) + '\n\n... (content truncated for length)'
+        : file.text;
+      const sourceNumber = index + 1;
+      const label = file.page
+        ? `${file.fileName} (${file.pageKind === 'slide' ? 'slide' : 'page'} ${file.page})`
+        : file.passage ? `${file.fileName} (passage ${file.passage})` : file.fileName;
+      return `\n\n--- Source ${sourceNumber}: ${label} ---\n${truncatedText}\n--- End of Source ${sourceNumber} ---`;
+    }).join('\n');
+
+    const citationInstruction = `\n\nIMPORTANT CITATION FORMAT: When you reference information from the course documents above, cite your sources using numbered citations in square brackets. For example, if you use information from Source 1, include [1] after the relevant statement. If you use information from Source 2, include [2], and so on. You can cite multiple sources like [1][2] if information comes from multiple sources. When a source is labeled with a page or slide, include it in the citation, like [2, p. 14] or [3, slide 5]. Always cite sources when using specific information, data, or quotes from the provided documents.`;
+
+    fileContextString = `\n\nRELEVANT COURSE DOCUMENT EXCERPTS (the passages most relevant to the student's question, selected from the course files):\n${contextSections}\n\nWhen answering questions, use the information from these excerpts as your primary source. If information is not found in these excerpts, state that clearly and provide general guidance based on ${courseNickname || 'accounting'} principles.${citationInstruction}`;
+  }
+
+  if (courseId && courseNickname) {
+    // Course-specific assistant
+    const courseContext = `You are the ${courseNickname} Junior Assistant for a BYU Accounting student. You specialize in helping with ${courseNickname} coursework.${fileContexts && fileContexts.length > 0 ? ' You have access to course documents that should be your primary source of information.' : ''}`;
+
+    if (tutorMode) {
+      return `${courseContext} Tutor Mode is ON. Do not give direct answers. Instead, ask Socratic questions to help the student find the answer themselves using GAAP principles and ${courseNickname} concepts. Guide them through their thinking process step by step.${fileContextString}`;
+    }
+    return `${courseContext} Tutor Mode is OFF. Give concise, professional accounting explanations related to ${courseNickname}. Be helpful and clear while maintaining academic rigor.${fileContextString}`;
+  }
+
+  // General assistant
+  if (tutorMode) {
+    return 'You are the Junior Ledger Assistant for a BYU Accounting student. Tutor Mode is ON. Do not give direct answers. Instead, ask Socratic questions to help the student find the answer themselves using GAAP principles. Guide them through their thinking process step by step.';
+  }
+  return 'You are the Junior Ledger Assistant for a BYU Accounting student. Tutor Mode is OFF. Give concise, professional accounting explanations. Be helpful and clear while maintaining academic rigor.';
+}
+
+// Read the history budget from the environment, falling back to the default
+function getHistoryCharBudget(): number {
+  const configured = parseInt(process.env.CHAT_HISTORY_CHAR_BUDGET || '', 10);
+  return isNaN(configured) || configured < 0 ? DEFAULT_HISTORY_CHAR_BUDGET : configured;
+}
+
+// Split the conversation into turns that fit the budget (newest first) and older turns to summarize
+function splitHistoryByBudget(history: ChatTurn[], budget: number): { recent: ChatTurn[]; older: ChatTurn[] } {
+  let used = 0;
+  let splitIndex = history.length;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    used += history[i].text.length;
+    if (used > budget) break;
+    splitIndex = i;
+  }
+
+  const recent = history.slice(splitIndex);
+  const older = history.slice(0, splitIndex);
+
+  // Chat models expect the history to start with a user turn
+  while (recent.length > 0 && recent[0].role !== 'user') {
+    older.push(recent.shift()!);
+  }
+
+  return { recent, older };
+}
+
+function formatTurn(turn: ChatTurn): string {
+  const text = turn.text.length > MAX_SUMMARY_INPUT_CHARS
+    ? turn.text.substring(0, MAX_SUMMARY_INPUT_CHARS) + '\n... (message truncated for length)'
+    : turn.text;
+  return `${turn.role === 'user' ? 'Student' : 'Assistant'}: ${text}`;
+}
+
+// Hash of every prefix of the conversation: digests[n] identifies its first n turns
+function getPrefixDigests(turns: ChatTurn[]): string[] {
+  const hash = createHash('sha256');
+  const digests = [hash.copy().digest('hex')];
+  turns.forEach(turn => {
+    hash.update(JSON.stringify([turn.role, turn.text]));
+    digests.push(hash.copy().digest('hex'));
+  });
+  return digests;
+}
+
+function cacheSummary(digest: string, summary: ConversationSummary) {
+  if (summaryCache.size >= SUMMARY_CACHE_LIMIT) {
+    const oldestKey = summaryCache.keys().next().value;
+    if (oldestKey !== undefined) summaryCache.delete(oldestKey);
+  }
+  summaryCache.set(digest, summary);
+}
+
+// Ask the model to fold later turns into the summary so far (or start one)
+async function foldIntoSummary(previousSummary: string | null, transcript: string): Promise<string> {
+  const instructions = 'Keep every specific detail the student may refer back to later: journal entries (accounts, debits, credits and amounts), numbers, company names, definitions, and any questions that are still open. Number items (e.g. "first journal entry", "second journal entry") the same way the conversation did. Write at most 250 words.';
+  const prompt = previousSummary
+    ? `Below is a summary of the earlier part of a tutoring conversation with an accounting student, followed by the turns that came after it. Rewrite the summary so it also covers the new turns. ${instructions}\n\nSUMMARY SO FAR:\n${previousSummary}\n\nLATER TURNS:\n${transcript}`
+    : `Summarize the following earlier part of a tutoring conversation with an accounting student. ${instructions}\n\n${transcript}`;
+
+  return (await getLLMProvider().generate({ message: prompt })).trim();
+}
+
+// Summarize turns that no longer fit in the history budget, starting from the longest
+// stretch of them already summarized
+async function summarizeTurns(turns: ChatTurn[]): Promise<string> {
+  const digests = getPrefixDigests(turns);
+  let summary: ConversationSummary | null = null;
+  for (let count = turns.length; count > 0 && !summary; count--) {
+    summary = summaryCache.get(digests[count]) || null;
+  }
+
+  let text = summary?.text || null;
+  let turnCount = summary?.turnCount || 0;
+  while (turnCount < turns.length) {
+    // At least one turn per call (formatTurn truncates very long ones), more while they fit
+    const batch = [formatTurn(turns[turnCount])];
+    let batchChars = batch[0].length;
+    while (turnCount + batch.length < turns.length) {
+      const next = formatTurn(turns[turnCount + batch.length]);
+      if (batchChars + next.length > MAX_SUMMARY_INPUT_CHARS) break;
+      batch.push(next);
+      batchChars += next.length;
+    }
+
+    text = await foldIntoSummary(text, batch.join('\n\n'));
+    turnCount += batch.length;
+    cacheSummary(digests[turnCount], { text, turnCount });
+  }
+
+  return text || '';
+}
+
+// Build the provider request: system prompt, verbatim recent history and the new message
+async function prepareChat(request: ChatRequest): Promise<LLMRequest> {
+  let systemPrompt = buildSystemPrompt(request.tutorMode, request.courseId, request.courseNickname, request.fileContexts);
+
+  // Send as much recent conversation as fits in the budget; summarize the rest
+  const { recent, older } = splitHistoryByBudget(request.history || [], getHistoryCharBudget());
+  if (older.length > 0) {
+    try {
+      const summary = await summarizeTurns(older);
+      systemPrompt += `\n\nSUMMARY OF THE EARLIER CONVERSATION (older messages are not shown verbatim):\n${summary}`;
+    } catch (summaryError) {
+      // Carry on with just the recent turns rather than failing the whole message
+      console.error('Error summarizing earlier conversation:', summaryError);
+    }
+  }
+
+  return { systemPrompt, history: recent, message: request.message };
+}
+
+// Generate the complete reply to a chat request
+export async function generateChatReply(request: ChatRequest): Promise<string> {
+  return getLLMProvider().generate(await prepareChat(request));
+}
+
+// Stream the reply to a chat request, yielding text as the model produces it
+export async function* streamChatReply(request: ChatRequest, signal?: AbortSignal): AsyncGenerator<string> {
+  yield* getLLMProvider().stream(await prepareChat(request), signal);
+}
+
+// Turn a provider/SDK error into a message that tells the student what to do next
+export function toAssistantError(error: unknown): Error {
+  // Provide more helpful error messages
+  if (error instanceof Error) {
+    // Quota/Rate limit errors
+    if (error.message.includes('429') || error.message.includes('quota') || error.message.includes('Quota exceeded')) {
+      const retryMatch = error.message.match(/Please retry in ([\d.]+)s/);
+      const retrySeconds = retryMatch ? Math.ceil(parseFloat(retryMatch[1])) : null;
+
+      let message = 'You\'ve exceeded your free tier quota for the Gemini API. ';
+      if (retrySeconds) {
+        message += `Please wait ${retrySeconds} seconds and try again. `;
+      }
+      message += 'For more information, visit https://ai.google.dev/gemini-api/docs/rate-limits or check your usage at https://ai.dev/usage';
+
+      return new Error(message);
+    }
+
+    // API key errors
+    if (error.message.includes('API key not valid') || error.message.includes('API_KEY_INVALID')) {
+      return new Error('Invalid API key. Please check your GOOGLE_GENERATIVE_AI_API_KEY (or GOOGLE_AI_API_KEY) in .env.local and ensure it\'s correct. Get a new key from https://aistudio.google.com/apikey');
+    }
+    if (error.message.includes('API key not found')) {
+      return new Error('API key not found. Please set GOOGLE_GENERATIVE_AI_API_KEY (or GOOGLE_AI_API_KEY) in your .env.local file.');
+    }
+
+    // Model not found errors
+    if (error.message.includes('not found') || error.message.includes('404')) {
+      return new Error(`Model not available. ${error.message}`);
+    }
+
+    return new Error(`API Error: ${error.message}`);
+  }
+
+  return new Error('Failed to get response from AI assistant. Please check your API key and try again.');
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { getAllFiles, addCourseFile, clearAllCourseFiles, UploadedFile } from './courseStorage';
+
+// Backups are zip files holding a manifest.json (settings, chat histories and uploaded
+// file metadata) plus the uploaded files themselves under files/.
+// Bump BACKUP_SCHEMA_VERSION whenever the manifest shape changes, and teach
+// upgradeManifest how to read the older versions.
+export const BACKUP_FORMAT = 'junior-ledger-backup';
+export const BACKUP_SCHEMA_VERSION = 1;
+
+const STORAGE_KEY_PREFIX = 'junior-ledger-';
+const CANVAS_TOKEN_KEY = 'junior-ledger-canvas-token';
+// Credentials only exported with the Canvas token: the calendar feed token reads Canvas with it
+const CREDENTIAL_KEYS = [CANVAS_TOKEN_KEY, 'junior-ledger-calendar-export-feed'];
+// Caches rebuilt from Canvas automatically and storage bookkeeping; never exported or overwritten
+const EXCLUDED_KEY_PREFIXES = [
+  'junior-ledger-assignments-',
+  'junior-ledger-grades-',
+  'junior-ledger-course-score-',
+  'junior-ledger-idb-migrated',
+  'junior-ledger-notifications-sent',
+];
+const MANIFEST_FILE = 'manifest.json';
+
+export interface BackupFileEntry extends Omit<UploadedFile, 'data'> {
+  path: string; // Location of the file's contents inside the zip
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  includesCanvasToken: boolean;
+  settings: Record<string, string>; // Raw localStorage values by key
+  uploadedFiles: BackupFileEntry[];
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportResult {
+  settingsRestored: number;
+  filesRestored: number;
+  restoredCanvasToken: boolean;
+  exportedAt: string;
+}
+
+function isBackedUpKey(key: string): boolean {
+  return key.startsWith(STORAGE_KEY_PREFIX) && !EXCLUDED_KEY_PREFIXES.some(prefix => key.startsWith(prefix));
+}
+
+// List the localStorage keys a backup covers
+function getBackedUpKeys(): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && isBackedUpKey(key)) keys.push(key);
+  }
+  return keys;
+}
+
+/**
+ * Build a backup zip of everything stored on this device.
+ * The Canvas access token (and the calendar feed token) is left out unless includeCanvasToken is set.
+ */
+export async function exportBackup(includeCanvasToken: boolean): Promise<Blob> {
+  const JSZip = (await import('jszip')).default;
+  const zip = new JSZip();
+
+  const settings: Record<string, string> = {};
+  getBackedUpKeys().forEach(key => {
+    if (CREDENTIAL_KEYS.includes(key) && !includeCanvasToken) return;
+    const value = localStorage.getItem(key);
+    if (value !== null) settings[key] = value;
+  });
+
+  const uploadedFiles: BackupFileEntry[] = [];
+  for (const file of await getAllFiles()) {
+    const { data, ...metadata } = file;
+    const path = `files/${file.id}`;
+    // Uploaded files are stored as data URLs; fetch decodes them to bytes
+    zip.file(path, await (await fetch(data)).arrayBuffer());
+    uploadedFiles.push({ ...metadata, path });
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    includesCanvasToken: CANVAS_TOKEN_KEY in settings,
+    settings,
+    uploadedFiles,
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+// Check a parsed manifest and bring older schema versions up to the current one
+function upgradeManifest(value: unknown): BackupManifest {
+  const manifest = value as Partial<BackupManifest> | null;
+  if (!manifest || typeof manifest !== 'object' || manifest.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a Junior Ledger backup.');
+  }
+  if (typeof manifest.schemaVersion !== 'number' || manifest.schemaVersion < 1) {
+    throw new Error('This backup has an unknown format version and cannot be restored.');
+  }
+  if (manifest.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error(`This backup was made by a newer version of Junior Ledger (format ${manifest.schemaVersion}). Update the app before restoring it.`);
+  }
+  if (!manifest.settings || typeof manifest.settings !== 'object' || !Array.isArray(manifest.uploadedFiles)) {
+    throw new Error('This backup is incomplete or damaged.');
+  }
+
+  // Version 1 is the current format; future upgrades go here
+  return manifest as BackupManifest;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasId(value: unknown): value is { id: unknown } {
+  return isPlainObject(value) && 'id' in value;
+}
+
+/**
+ * Combine a stored value with the backup's value for the same key.
+ * This device wins on conflicts; the backup only fills in what's missing:
+ * objects (e.g. nicknames, course colors) are merged key by key, lists (e.g. hidden
+ * courses, chat histories) gain the backup's entries they don't already have.
+ */
+function mergeStoredValue(current: string, incoming: string): string {
+  try {
+    const currentValue = JSON.parse(current);
+    const incomingValue = JSON.parse(incoming);
+
+    if (Array.isArray(currentValue) && Array.isArray(incomingValue)) {
+      if (currentValue.every(hasId) && incomingValue.every(hasId)) {
+        const ids = new Set(currentValue.map(item => item.id));
+        return JSON.stringify([...currentValue, ...incomingValue.filter(item => !ids.has(item.id))]);
+      }
+      const seen = new Set(currentValue.map(item => JSON.stringify(item)));
+      return JSON.stringify([...currentValue, ...incomingValue.filter(item => !seen.has(JSON.stringify(item)))]);
+    }
+
+    if (isPlainObject(currentValue) && isPlainObject(incomingValue)) {
+      return JSON.stringify({ ...incomingValue, ...currentValue });
+    }
+  } catch {
+    // Not JSON (e.g. the calendar view); keep this device's value
+  }
+  return current;
+}
+
+/**
+ * Restore a backup zip.
+ * 'replace' clears this device's data first; 'merge' keeps it and adds what the backup has.
+ * The Canvas token is only restored when the backup includes one (and, when merging,
+ * only if this device doesn't already have one).
+ */
+export async function importBackup(file: Blob, mode: ImportMode): Promise<ImportResult> {
+  const JSZip = (await import('jszip')).default;
+
+  let zip: InstanceType<typeof JSZip>;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error('This file is not a Junior Ledger backup.');
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) {
+    throw new Error('This file is not a Junior Ledger backup.');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await manifestFile.async('text'));
+  } catch {
+    throw new Error('This backup is incomplete or damaged.');
+  }
+  const manifest = upgradeManifest(parsed);
+
+  // Read every file before touching existing data so a damaged zip can't leave a half-restored device
+  const restoredFiles: UploadedFile[] = [];
+  for (const entry of manifest.uploadedFiles) {
+    const zipEntry = zip.file(entry.path);
+    if (!zipEntry) {
+      throw new Error(`This backup is missing the file "${entry.name}".`);
+    }
+    const base64 = await zipEntry.async('base64');
+    restoredFiles.push({
+      id: entry.id,
+      name: entry.name,
+      type: entry.type,
+      size: entry.size,
+      uploadDate: entry.uploadDate,
+      courseId: entry.courseId,
+      data: `data:${entry.type};base64,${base64}`,
+    });
+  }
+
+  const restoredCanvasToken = CANVAS_TOKEN_KEY in manifest.settings;
+
+  if (mode === 'replace') {
+    getBackedUpKeys().forEach(key => {
+      if (CREDENTIAL_KEYS.includes(key) && !restoredCanvasToken) return;
+      localStorage.removeItem(key);
+    });
+    await clearAllCourseFiles();
+  }
+
+  let settingsRestored = 0;
+  Object.entries(manifest.settings).forEach(([key, value]) => {
+    if (!isBackedUpKey(key)) return;
+    const current = localStorage.getItem(key);
+    localStorage.setItem(key, current === null ? value : mergeStoredValue(current, value));
+    settingsRestored++;
+  });
+
+  const existingFileIds = mode === 'merge'
+    ? new Set((await getAllFiles()).map(uploaded => uploaded.id))
+    : new Set<string>();
+  let filesRestored = 0;
+  for (const uploaded of restoredFiles) {
+    if (existingFileIds.has(uploaded.id)) continue;
+    await addCourseFile(uploaded.courseId, uploaded);
+    filesRestored++;
+  }
+
+  return { settingsRestored, filesRestored, restoredCanvasToken, exportedAt: manifest.exportedAt };
+}
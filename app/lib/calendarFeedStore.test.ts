@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { getCalendarExportConfigError } from './calendarFeedStore';
+
+const personalEvent = {
+  id: 1,
+  kind: 'event',
+  title: 'Study group',
+  courseId: null,
+  date: '2026-10-20',
+  startTime: '15:00',
+  endTime: '16:00',
+  location: null,
+  notes: null,
+  recurrence: 'weekly',
+  recurrenceUntil: null,
+  reminderMinutes: 30,
+  createdAt: '2026-10-01T12:00:00.000Z',
+};
+
+const config = {
+  canvasToken: 'token',
+  canvasUrl: 'https://8.8.8.8',
+  courseIds: [101],
+  sections: ['assignments', 'personal'],
+  personalEvents: [personalEvent],
+};
+
+describe('getCalendarExportConfigError', () => {
+  it('accepts a complete config', async () => {
+    expect(await getCalendarExportConfigError(config)).toBeNull();
+  });
+
+  it('rejects bodies that aren\'t objects', async () => {
+    for (const body of [null, 'config', 42, [config]]) {
+      expect(await getCalendarExportConfigError(body)).toMatch(/JSON object/);
+    }
+  });
+
+  it('rejects Canvas URLs on the server\'s own machine or network', async () => {
+    for (const canvasUrl of ['http://canvas.example.edu', 'https://127.0.0.1:8443', 'https://10.0.0.5', 'https://192.168.1.20']) {
+      expect(await getCalendarExportConfigError({ ...config, canvasUrl }), canvasUrl).not.toBeNull();
+    }
+  });
+
+  it('rejects personal events the export can\'t build', async () => {
+    const broken = [
+      { ...personalEvent, date: undefined },
+      { ...personalEvent, recurrence: undefined },
+      { ...personalEvent, createdAt: undefined },
+      { ...personalEvent, startTime: '3pm' },
+      { ...personalEvent, recurrenceUntil: 'soon' },
+      null,
+    ];
+    for (const event of broken) {
+      expect(await getCalendarExportConfigError({ ...config, personalEvents: [event] })).toMatch(/^personalEvents\[0\]/);
+    }
+  });
+});
@@ -0,0 +1,187 @@
+// Server-side storage for calendar export subscriptions (app/api/calendar).
+// Calendar apps fetch a subscription URL from their own servers and log it, so the URL only
+// carries an opaque, revocable feed token. The Canvas token, chosen courses and personal events
+// are stored on the server, encrypted with a key derived from the feed token: the files are
+// useless without the link, and deleting one revokes it.
+// Feeds are files under CALENDAR_FEED_DIR (default .data/calendar-feeds), so the server needs
+// a persistent disk; on a read-only or ephemeral filesystem subscriptions stop working.
+
+import { createCipheriv, createDecipheriv, createHash, hkdfSync, randomBytes } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { normalizeCanvasBaseUrl } from './canvasUrl';
+import { getCanvasHostError } from './canvasHost';
+import { ICAL_EXPORT_SECTIONS, ICalExportSection } from './icalExport';
+import type { PersonalEvent } from './courseStorage';
+
+const FEED_TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/; // 32 random bytes, base64url
+const ENCRYPTION_INFO = 'junior-ledger-calendar-feed';
+
+// Everything needed to build a calendar export
+export interface CalendarExportConfig {
+  canvasToken: string;
+  canvasUrl: string; // https origin of the Canvas instance
+  courseIds: number[];
+  sections: ICalExportSection[];
+  personalEvents: PersonalEvent[];
+}
+
+interface StoredFeed {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function getFeedDirectory(): string {
+  return process.env.CALENDAR_FEED_DIR || path.join(process.cwd(), '.data', 'calendar-feeds');
+}
+
+// File for a feed, named by a hash so the token itself never touches the disk
+function getFeedPath(feedToken: string): string {
+  return path.join(getFeedDirectory(), `${createHash('sha256').update(feedToken).digest('hex')}.json`);
+}
+
+function getFeedKey(feedToken: string): Buffer {
+  return Buffer.from(hkdfSync('sha256', feedToken, '', ENCRYPTION_INFO, 32));
+}
+
+export function isFeedToken(value: string | null): value is string {
+  return !!value && FEED_TOKEN_PATTERN.test(value);
+}
+
+const PERSONAL_EVENT_KINDS = ['task', 'event'];
+const PERSONAL_EVENT_RECURRENCES = ['none', 'daily', 'weekly', 'biweekly', 'monthly'];
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isDateKey = (value: unknown) => typeof value === 'string' && DATE_KEY_PATTERN.test(value) && !isNaN(Date.parse(value));
+const isTimeOrNull = (value: unknown) => value === null || (typeof value === 'string' && TIME_PATTERN.test(value));
+const isStringOrNull = (value: unknown) => value === null || typeof value === 'string';
+const isIntegerOrNull = (value: unknown) => value === null || Number.isInteger(value);
+
+// Error message for a personal event the export can't turn into iCal, or null
+function getPersonalEventError(event: unknown): string | null {
+  if (!event || typeof event !== 'object') return 'must be an object';
+  const { id, kind, title, courseId, date, startTime, endTime, location, notes, recurrence, recurrenceUntil, reminderMinutes, createdAt } =
+    event as Record<string, unknown>;
+  if (!Number.isInteger(id)) return 'needs a numeric id';
+  if (!PERSONAL_EVENT_KINDS.includes(kind as string)) return `kind must be ${PERSONAL_EVENT_KINDS.join(' or ')}`;
+  if (typeof title !== 'string') return 'needs a title';
+  if (!isIntegerOrNull(courseId)) return 'courseId must be a Canvas course ID or null';
+  if (!isDateKey(date)) return 'date must be YYYY-MM-DD';
+  if (!isTimeOrNull(startTime) || !isTimeOrNull(endTime)) return 'startTime and endTime must be HH:MM or null';
+  if (!isStringOrNull(location) || !isStringOrNull(notes)) return 'location and notes must be text or null';
+  if (!PERSONAL_EVENT_RECURRENCES.includes(recurrence as string)) return `recurrence must be one of ${PERSONAL_EVENT_RECURRENCES.join(', ')}`;
+  if (recurrenceUntil !== null && !isDateKey(recurrenceUntil)) return 'recurrenceUntil must be YYYY-MM-DD or null';
+  if (!isIntegerOrNull(reminderMinutes)) return 'reminderMinutes must be a whole number or null';
+  if (typeof createdAt !== 'string' || isNaN(Date.parse(createdAt))) return 'createdAt must be a timestamp';
+  return null;
+}
+
+/**
+ * Check an export config sent by the browser. Returns an error message, or null if it's a
+ * usable CalendarExportConfig. Feeds are fetched by an unauthenticated route, so the Canvas
+ * URL must pass the same host checks as every Canvas request (see canvasHost.ts).
+ */
+export async function getCalendarExportConfigError(config: unknown): Promise<string | null> {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return 'The export config must be a JSON object';
+  }
+  const { canvasToken, canvasUrl, courseIds, sections, personalEvents } = config as Record<string, unknown>;
+  if (!canvasToken || typeof canvasToken !== 'string') {
+    return 'A Canvas token is required';
+  }
+  if (typeof canvasUrl !== 'string') {
+    return 'A Canvas URL is required';
+  }
+  let origin: string;
+  try {
+    origin = normalizeCanvasBaseUrl(canvasUrl);
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid Canvas URL';
+  }
+  const hostError = await getCanvasHostError(origin);
+  if (hostError) {
+    return hostError;
+  }
+  if (!Array.isArray(courseIds) || courseIds.some(id => !Number.isInteger(id))) {
+    return 'courseIds must be a list of Canvas course IDs';
+  }
+  if (!Array.isArray(sections) || sections.length === 0 ||
+      sections.some(section => !ICAL_EXPORT_SECTIONS.includes(section))) {
+    return `sections must list one or more of ${ICAL_EXPORT_SECTIONS.join(', ')}`;
+  }
+  if (!Array.isArray(personalEvents)) {
+    return 'personalEvents must be a list';
+  }
+  for (let i = 0; i < personalEvents.length; i++) {
+    const eventError = getPersonalEventError(personalEvents[i]);
+    if (eventError) {
+      return `personalEvents[${i}] ${eventError}`;
+    }
+  }
+  return null;
+}
+
+// Only keep the fields a feed uses, with the Canvas URL normalized
+function toStoredConfig(config: CalendarExportConfig): CalendarExportConfig {
+  return {
+    canvasToken: config.canvasToken,
+    canvasUrl: normalizeCanvasBaseUrl(config.canvasUrl),
+    courseIds: config.courseIds,
+    sections: config.sections,
+    personalEvents: config.personalEvents,
+  };
+}
+
+async function writeFeed(feedToken: string, config: CalendarExportConfig): Promise<void> {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getFeedKey(feedToken), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(toStoredConfig(config)), 'utf8'), cipher.final()]);
+  const stored: StoredFeed = {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+
+  await mkdir(getFeedDirectory(), { recursive: true });
+  await writeFile(getFeedPath(feedToken), JSON.stringify(stored), { mode: 0o600 });
+}
+
+// Store a new feed and return its token
+export async function createCalendarFeed(config: CalendarExportConfig): Promise<string> {
+  const feedToken = randomBytes(32).toString('base64url');
+  await writeFeed(feedToken, config);
+  return feedToken;
+}
+
+// Read a feed's config, or null if the token is unknown or revoked
+export async function readCalendarFeed(feedToken: string): Promise<CalendarExportConfig | null> {
+  if (!isFeedToken(feedToken)) return null;
+
+  let stored: StoredFeed;
+  try {
+    stored = JSON.parse(await readFile(getFeedPath(feedToken), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', getFeedKey(feedToken), Buffer.from(stored.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(stored.tag, 'base64'));
+  const json = Buffer.concat([decipher.update(Buffer.from(stored.data, 'base64')), decipher.final()]).toString('utf8');
+  return JSON.parse(json) as CalendarExportConfig;
+}
+
+// Replace what an existing feed exports. Returns false if the feed doesn't exist
+export async function updateCalendarFeed(feedToken: string, config: CalendarExportConfig): Promise<boolean> {
+  if (!(await readCalendarFeed(feedToken))) return false;
+  await writeFeed(feedToken, config);
+  return true;
+}
+
+// Revoke a feed; its URL stops working right away
+export async function deleteCalendarFeed(feedToken: string): Promise<void> {
+  if (!isFeedToken(feedToken)) return;
+  await rm(getFeedPath(feedToken), { force: true });
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { getCalendarFeeds, CalendarFeed } from './courseStorage';
+
+// Feeds are read from localStorage once and re-read when settings or the calendar save them
+let cachedCalendarFeeds: CalendarFeed[] | null = null;
+const NO_CALENDAR_FEEDS: CalendarFeed[] = [];
+
+function subscribeToCalendarFeeds(onChange: () => void): () => void {
+  const handleChange = () => {
+    cachedCalendarFeeds = null;
+    onChange();
+  };
+  window.addEventListener('calendarFeedsChanged', handleChange);
+  // Another tab saved the feeds
+  window.addEventListener('storage', handleChange);
+  return () => {
+    window.removeEventListener('calendarFeedsChanged', handleChange);
+    window.removeEventListener('storage', handleChange);
+  };
+}
+
+function getCalendarFeedsSnapshot(): CalendarFeed[] {
+  if (!cachedCalendarFeeds) {
+    cachedCalendarFeeds = getCalendarFeeds();
+  }
+  return cachedCalendarFeeds;
+}
+
+// Get every iCal feed, re-rendering when one is added, edited, hidden or removed
+export function useCalendarFeeds(): CalendarFeed[] {
+  return useSyncExternalStore(subscribeToCalendarFeeds, getCalendarFeedsSnapshot, () => NO_CALENDAR_FEEDS);
+}
+
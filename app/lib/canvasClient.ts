@@ -0,0 +1,236 @@
+// Canvas REST client used by the Canvas server actions: authorization, pagination,
+// retries with exponential backoff and a cap on concurrent requests.
+
+import type { CanvasAuth } from '../actions/canvas';
+import { normalizeCanvasBaseUrl } from './canvasUrl';
+import { getCanvasHostError, getCanvasProtocolError } from './canvasHost';
+import { CanvasError, getCanvasErrorCodeForStatus } from './canvasErrors';
+
+// Canvas list endpoints return at most 100 items per page
+export const CANVAS_PAGE_SIZE = 100;
+// Safety cap so a misbehaving Link header can't loop forever (50 pages = 5000 items)
+const MAX_PAGES = 50;
+
+// Canvas file downloads redirect once or twice, to the files domain and then storage
+const MAX_REDIRECTS = 5;
+
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10000;
+// Canvas gives each token a request "bucket" (about 700 units); slow down before it runs dry
+const LOW_RATE_LIMIT_REMAINING = 100;
+const LOW_RATE_LIMIT_DELAY_MS = 250;
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 4;
+
+export interface CanvasClientOptions {
+  maxConcurrentRequests?: number;
+}
+
+export interface CanvasClient {
+  readonly origin: string; // e.g. https://byu.instructure.com
+  // Send a request with retries; the response is returned whatever its status
+  request(pathOrUrl: string): Promise<Response>;
+  // GET a single JSON resource, throwing a CanvasError on a failed status
+  get<T>(path: string): Promise<T>;
+  // GET every page of a list endpoint by following Link: rel="next" headers
+  getAll<T>(path: string): Promise<T[]>;
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Find the rel="next" URL in a Canvas Link header
+function getNextPageUrl(linkHeader: string | null): string | null {
+  if (!linkHeader) return null;
+  for (const part of linkHeader.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="next"/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+// Canvas signals throttling with 403 "Rate Limit Exceeded" (and sometimes 429)
+async function isThrottled(response: Response): Promise<boolean> {
+  if (response.status === 429) return true;
+  if (response.status !== 403) return false;
+  const remaining = response.headers.get('X-Rate-Limit-Remaining');
+  if (remaining !== null && parseFloat(remaining) <= 0) return true;
+  const body = await response.clone().text().catch(() => '');
+  return /rate limit exceeded/i.test(body);
+}
+
+// Exponential backoff with jitter, honouring Retry-After when Canvas sends one
+function getRetryDelay(attempt: number, response?: Response): number {
+  const retryAfter = response?.headers.get('Retry-After');
+  if (retryAfter && !isNaN(Number(retryAfter))) {
+    return Math.min(Number(retryAfter) * 1000, MAX_RETRY_DELAY_MS);
+  }
+  const delay = BASE_RETRY_DELAY_MS * 2 ** attempt;
+  return Math.min(delay + Math.random() * delay * 0.25, MAX_RETRY_DELAY_MS);
+}
+
+function errorForResponse(response: Response): CanvasError {
+  const code = getCanvasErrorCodeForStatus(response.status);
+  if (code === 'invalid_token') {
+    return new CanvasError(code, 'Invalid Canvas API token. Please check your token in Canvas Sync settings.', response.status);
+  }
+  return new CanvasError(code, `Canvas API error: ${response.status} ${response.statusText}`, response.status);
+}
+
+export function createCanvasClient(auth: CanvasAuth, options: CanvasClientOptions = {}): CanvasClient {
+  let origin: string;
+  try {
+    origin = normalizeCanvasBaseUrl(auth.baseUrl);
+  } catch (error) {
+    throw new CanvasError('invalid_url', error instanceof Error ? error.message : 'Invalid Canvas URL');
+  }
+  const protocolError = getCanvasProtocolError(origin);
+  if (protocolError) {
+    throw new CanvasError('invalid_url', protocolError);
+  }
+  const apiBase = `${origin}/api/v1`;
+
+  const maxConcurrent = options.maxConcurrentRequests ?? DEFAULT_MAX_CONCURRENT_REQUESTS;
+  let activeRequests = 0;
+  const waiting: Array<() => void> = [];
+  let rateLimitRemaining: number | null = null;
+
+  // Wait for a free request slot
+  const acquireSlot = async () => {
+    if (activeRequests >= maxConcurrent) {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+    activeRequests++;
+  };
+
+  const releaseSlot = () => {
+    activeRequests--;
+    waiting.shift()?.();
+  };
+
+  const resolveUrl = (pathOrUrl: string): string => {
+    if (!/^https?:\/\//i.test(pathOrUrl)) {
+      return `${apiBase}${pathOrUrl}`;
+    }
+    // Only send the token to the student's own Canvas instance
+    if (new URL(pathOrUrl).origin !== origin) {
+      throw new CanvasError('invalid_url', `Refusing to send the Canvas token outside ${origin}`);
+    }
+    return pathOrUrl;
+  };
+
+  // Host checks per origin, so the Canvas host is only looked up once per client
+  const hostErrors = new Map<string, Promise<string | null>>();
+  const checkHost = async (url: string) => {
+    const urlOrigin = new URL(url).origin;
+    if (!hostErrors.has(urlOrigin)) {
+      hostErrors.set(urlOrigin, getCanvasHostError(url));
+    }
+    const hostError = await hostErrors.get(urlOrigin);
+    if (hostError) {
+      throw new CanvasError('invalid_url', hostError);
+    }
+  };
+
+  // Fetch a URL, following redirects by hand so every hop's host is checked. The token is
+  // only sent to the Canvas origin, not to the storage hosts file downloads redirect to.
+  const fetchChecked = async (url: string): Promise<Response> => {
+    let currentUrl = url;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      await checkHost(currentUrl);
+      const response = await fetch(currentUrl, {
+        headers: new URL(currentUrl).origin === origin ? { 'Authorization': `Bearer ${auth.token}` } : {},
+        redirect: 'manual',
+      });
+
+      const location = response.headers.get('Location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return response;
+      }
+      await response.body?.cancel();
+      currentUrl = new URL(location, currentUrl).toString();
+    }
+    throw new CanvasError('request_failed', `Canvas redirected more than ${MAX_REDIRECTS} times`);
+  };
+
+  const request = async (pathOrUrl: string): Promise<Response> => {
+    const url = resolveUrl(pathOrUrl);
+
+    for (let attempt = 0; ; attempt++) {
+      if (rateLimitRemaining !== null && rateLimitRemaining < LOW_RATE_LIMIT_REMAINING) {
+        await sleep(LOW_RATE_LIMIT_DELAY_MS);
+      }
+
+      await acquireSlot();
+      let response: Response;
+      try {
+        response = await fetchChecked(url);
+      } catch (error) {
+        // Refused hosts and redirect loops won't get better with a retry
+        if (error instanceof CanvasError) throw error;
+        if (attempt < MAX_RETRIES) {
+          await sleep(getRetryDelay(attempt));
+          continue;
+        }
+        console.error(`Could not reach Canvas at ${origin}:`, error);
+        throw new CanvasError('network', `Could not reach Canvas at ${origin}. Check the Canvas URL.`);
+      } finally {
+        releaseSlot();
+      }
+
+      const remaining = response.headers.get('X-Rate-Limit-Remaining');
+      if (remaining !== null && !isNaN(parseFloat(remaining))) {
+        rateLimitRemaining = parseFloat(remaining);
+      }
+
+      const throttled = await isThrottled(response);
+      if ((throttled || response.status >= 500) && attempt < MAX_RETRIES) {
+        await sleep(getRetryDelay(attempt, response));
+        continue;
+      }
+      if (throttled) {
+        throw new CanvasError('rate_limited', 'Canvas rate limit exceeded', response.status);
+      }
+      return response;
+    }
+  };
+
+  const get = async <T>(path: string): Promise<T> => {
+    const response = await request(path);
+    if (!response.ok) {
+      throw errorForResponse(response);
+    }
+    try {
+      return await response.json();
+    } catch {
+      throw new CanvasError('request_failed', 'Canvas returned a response that isn\'t JSON', response.status);
+    }
+  };
+
+  const getAll = async <T>(path: string): Promise<T[]> => {
+    const items: T[] = [];
+    let nextUrl: string | null = path;
+
+    for (let page = 0; nextUrl && page < MAX_PAGES; page++) {
+      const response = await request(nextUrl);
+      if (!response.ok) {
+        throw errorForResponse(response);
+      }
+
+      const pageItems: T[] = await response.json();
+      items.push(...pageItems);
+
+      nextUrl = getNextPageUrl(response.headers.get('Link'));
+      if (nextUrl && new URL(nextUrl).origin !== origin) {
+        console.warn(`Ignoring Canvas pagination link outside ${origin}`);
+        nextUrl = null;
+      }
+    }
+
+    if (nextUrl) {
+      console.warn(`Stopped after ${MAX_PAGES} pages of ${path}; remaining results were skipped`);
+    }
+    return items;
+  };
+
+  return { origin, request, get, getAll };
+}
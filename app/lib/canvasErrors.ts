@@ -0,0 +1,83 @@
+// Structured Canvas errors, shared by the Canvas server actions and the UI.
+// Production builds hide the message of anything a server action throws, so the actions
+// return a CanvasResult instead and the UI turns a failure back into a CanvasError
+// with unwrapCanvasResult.
+
+export type CanvasErrorCode =
+  | 'invalid_url'    // The Canvas URL is malformed or not a Canvas site
+  | 'invalid_token'  // 401: token missing, expired or revoked
+  | 'forbidden'      // 403: the student can't see this course, folder or file
+  | 'not_found'      // 404
+  | 'rate_limited'   // Still throttled after retrying
+  | 'server_error'   // Canvas kept returning 5xx after retrying
+  | 'network'        // Canvas couldn't be reached
+  | 'request_failed'; // Any other unexpected response
+
+export class CanvasError extends Error {
+  readonly code: CanvasErrorCode;
+  readonly status?: number;
+
+  constructor(code: CanvasErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = 'CanvasError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// What a Canvas server action returns
+export type CanvasResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; code: CanvasErrorCode; message: string };
+
+// Map an HTTP status from Canvas to an error code
+export function getCanvasErrorCodeForStatus(status: number): CanvasErrorCode {
+  if (status === 401) return 'invalid_token';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server_error';
+  return 'request_failed';
+}
+
+// Wrap anything thrown while talking to Canvas in a CanvasError
+export function toCanvasError(error: unknown, fallbackMessage: string): CanvasError {
+  if (error instanceof CanvasError) return error;
+  return new CanvasError('request_failed', error instanceof Error ? error.message : fallbackMessage);
+}
+
+// Failed result for a server action to return in place of throwing
+export function toCanvasFailure(error: unknown, fallbackMessage: string): CanvasResult<never> {
+  const canvasError = toCanvasError(error, fallbackMessage);
+  return { ok: false, code: canvasError.code, message: canvasError.message };
+}
+
+// Data from a server action's result, throwing a CanvasError if it failed
+export function unwrapCanvasResult<T>(result: CanvasResult<T>): T {
+  if (!result.ok) throw new CanvasError(result.code, result.message);
+  return result.data;
+}
+
+// Read the error code from a CanvasError
+export function getCanvasErrorCode(error: unknown): CanvasErrorCode | null {
+  return error instanceof CanvasError ? error.code : null;
+}
+
+// Message to show the student for a failed Canvas call
+export function describeCanvasError(error: unknown, fallbackMessage: string): string {
+  switch (getCanvasErrorCode(error)) {
+    case 'invalid_token':
+      return 'Invalid Canvas API token. Please check your token in Canvas Sync settings.';
+    case 'rate_limited':
+      return 'Canvas is limiting requests right now. Please wait a minute and try again.';
+    case 'server_error':
+      return 'Canvas is having problems right now. Please try again later.';
+    case 'network':
+      return 'Could not reach Canvas. Check your internet connection and Canvas URL.';
+  }
+
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  return fallbackMessage;
+}
@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getCanvasHostError, isPrivateAddress } from './canvasHost';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('isPrivateAddress', () => {
+  it('flags loopback, private and link-local addresses', () => {
+    ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.10', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']
+      .forEach(address => expect(isPrivateAddress(address), address).toBe(true));
+  });
+
+  it('allows public addresses', () => {
+    ['8.8.8.8', '172.32.0.1', '104.16.0.1', '2606:4700::1111']
+      .forEach(address => expect(isPrivateAddress(address), address).toBe(false));
+  });
+});
+
+describe('getCanvasHostError', () => {
+  it('refuses http and private hosts', async () => {
+    expect(await getCanvasHostError('http://canvas.example.edu')).toMatch(/https/);
+    expect(await getCanvasHostError('http://127.0.0.1:3000')).toMatch(/https/);
+    expect(await getCanvasHostError('https://127.0.0.1:8443')).toMatch(/private or local/);
+    expect(await getCanvasHostError('https://10.0.0.5')).toMatch(/private or local/);
+    expect(await getCanvasHostError('https://[::1]')).toMatch(/private or local/);
+    expect(await getCanvasHostError('https://localhost')).toMatch(/private or local/);
+  });
+
+  it('allows public https hosts', async () => {
+    expect(await getCanvasHostError('https://8.8.8.8')).toBeNull();
+  });
+
+  it('allows local test instances only when CANVAS_ALLOW_LOCAL_URLS is set', async () => {
+    vi.stubEnv('CANVAS_ALLOW_LOCAL_URLS', 'true');
+    expect(await getCanvasHostError('http://localhost:3000')).toBeNull();
+    expect(await getCanvasHostError('https://10.0.0.5')).toBeNull();
+  });
+});
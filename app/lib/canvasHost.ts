@@ -0,0 +1,79 @@
+// Server-side checks on the Canvas URL a student sends with each request. The server fetches
+// that URL with their token and hands back what it gets, so it must only ever reach public
+// https hosts, never a service on its own machine or private network.
+// Set CANVAS_ALLOW_LOCAL_URLS=true to allow http and private addresses (a local test Canvas).
+
+import { BlockList, isIP } from 'node:net';
+import { lookup } from 'node:dns/promises';
+
+// Loopback, private, link-local, carrier-grade NAT, benchmarking, multicast and reserved ranges
+const BLOCKED_IPV4_SUBNETS: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+];
+const BLOCKED_IPV6_SUBNETS: Array<[string, number]> = [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+];
+
+// IPv4 rules also match IPv4-mapped IPv6 addresses (::ffff:127.0.0.1)
+const BLOCKED_ADDRESSES = new BlockList();
+BLOCKED_IPV4_SUBNETS.forEach(([prefix, bits]) => BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv4'));
+BLOCKED_IPV6_SUBNETS.forEach(([prefix, bits]) => BLOCKED_ADDRESSES.addSubnet(prefix, bits, 'ipv6'));
+
+export function isLocalCanvasAllowed(): boolean {
+  return process.env.CANVAS_ALLOW_LOCAL_URLS === 'true';
+}
+
+// Whether an IP address is on this machine or a private network
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Error message if the URL's scheme isn't allowed, or null. Doesn't look up the host.
+export function getCanvasProtocolError(url: string): string | null {
+  if (new URL(url).protocol !== 'https:' && !isLocalCanvasAllowed()) {
+    return 'Canvas URL must start with https://';
+  }
+  return null;
+}
+
+/**
+ * Error message if the server must not fetch this URL, or null if it may. The host is
+ * resolved and every address it points to is checked, so a public name pointing at a
+ * private address is refused too. Hosts that don't resolve pass; fetching them fails anyway.
+ */
+export async function getCanvasHostError(url: string): Promise<string | null> {
+  const protocolError = getCanvasProtocolError(url);
+  if (protocolError || isLocalCanvasAllowed()) return protocolError;
+
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true })).map(entry => entry.address);
+    } catch {
+      return null;
+    }
+  }
+
+  if (addresses.some(isPrivateAddress)) {
+    return `${hostname} is a private or local address, not a Canvas site`;
+  }
+  return null;
+}
@@ -0,0 +1,34 @@
+// Canvas instance URL helpers, shared by the settings UI and the Canvas server actions.
+
+export const DEFAULT_CANVAS_BASE_URL = 'https://byu.instructure.com';
+
+/**
+ * Normalize a Canvas instance URL as typed by a student ("school.instructure.com",
+ * "https://canvas.school.edu/courses") to its origin ("https://canvas.school.edu").
+ * Throws if it isn't a usable Canvas address. Plain http is only accepted here for a
+ * Canvas on localhost; the server also refuses it, and any private address, unless
+ * CANVAS_ALLOW_LOCAL_URLS is set (see canvasHost.ts).
+ */
+export function normalizeCanvasBaseUrl(input: string): string {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    throw new Error('Please enter your Canvas URL (for example https://byu.instructure.com)');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    throw new Error(`"${trimmed}" is not a valid URL`);
+  }
+
+  const isLocal = url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && isLocal)) {
+    throw new Error('Canvas URL must start with https://');
+  }
+  if (url.username || url.password) {
+    throw new Error('Canvas URL must not include a username or password');
+  }
+
+  return url.origin;
+}
@@ -1,5 +1,21 @@
 'use client';
 
+import type { TextSegment } from './fileExtraction';
+import type { CanvasAuth, CanvasAssignment, CanvasCourseGrades, CanvasCourseScore } from '../actions/canvas';
+import type { AssignmentType } from './assignments';
+import { DEFAULT_EXAM_RULE_SETTINGS, ExamRuleSettings } from './examRules';
+import { DEFAULT_CANVAS_BASE_URL } from './canvasUrl';
+import { getCanvasEventId, getPersonalOccurrenceId } from './eventIds';
+import { getDeviceTimeZone, isValidTimeZone } from './dates';
+import {
+  withStore,
+  requestToPromise,
+  isQuotaExceededError,
+  UPLOADED_FILES_STORE,
+  CANVAS_FILES_STORE,
+  EXTRACTED_TEXT_STORE,
+} from './indexedDb';
+
 export interface CourseWithNickname {
   canvasId: number;
   name: string;
@@ -13,6 +29,17 @@ export interface ChatMessage {
   id: string;
   text: string;
   sender: 'user' | 'assistant';
+  isError?: boolean; // Error replies are shown to the student but never sent back to the model
+  sources?: ChatSource[]; // Passages sent with the question; citation [n] refers to sources[n - 1]
+}
+
+export interface ChatSource {
+  fileName: string;
+  passage?: number; // 1-based passage number within the file
+  excerpt?: string; // Opening words of the passage, shown when hovering a citation
+  pageKind?: 'page' | 'slide';
+  page?: number; // Page or slide the passage comes from
+  canvasId?: number; // Canvas file ID, for opening the cached file
 }
 
 export interface UploadedFile {
@@ -35,21 +62,43 @@ export interface CachedCanvasFile {
   modifiedAt: string; // Canvas file modification date
   cachedAt: string; // When we cached it
   courseId: number;
+  lastAccessedAt?: string; // When the assistant or viewer last used it (for LRU eviction)
 }
 
 const NICKNAMES_STORAGE_KEY = 'junior-ledger-course-nicknames';
 const CANVAS_TOKEN_KEY = 'junior-ledger-canvas-token';
+const CANVAS_BASE_URL_KEY = 'junior-ledger-canvas-base-url';
 const HIDDEN_COURSES_KEY = 'junior-ledger-hidden-courses';
 const CHAT_STORAGE_PREFIX = 'junior-ledger-chat-';
 const FILES_STORAGE_PREFIX = 'junior-ledger-files-';
 const CANVAS_FILES_STORAGE_PREFIX = 'junior-ledger-canvas-files-';
 const CALENDAR_COURSE_COLORS_KEY = 'junior-ledger-course-colors';
 const CALENDAR_SELECTED_COURSES_KEY = 'junior-ledger-calendar-selected-courses';
+const CALENDAR_VIEW_KEY = 'junior-ledger-calendar-view';
+const TIME_ZONE_KEY = 'junior-ledger-time-zone';
 const AUTO_REFRESH_INTERVAL_KEY = 'junior-ledger-auto-refresh-interval';
-const GOOGLE_CALENDAR_FEED_URL_KEY = 'junior-ledger-google-cal-url';
-const GOOGLE_CALENDAR_SELECTED_KEY = 'junior-ledger-google-cal-selected';
+// Single Google Calendar feed, replaced by CALENDAR_FEEDS_KEY and migrated on first read
+const LEGACY_GOOGLE_CALENDAR_FEED_URL_KEY = 'junior-ledger-google-cal-url';
+const LEGACY_GOOGLE_CALENDAR_SELECTED_KEY = 'junior-ledger-google-cal-selected';
+const CALENDAR_FEEDS_KEY = 'junior-ledger-calendar-feeds';
+const CALENDAR_EXPORT_FEED_KEY = 'junior-ledger-calendar-export-feed';
+const TASK_STATES_KEY = 'junior-ledger-task-states';
+const PERSONAL_EVENTS_KEY = 'junior-ledger-personal-events';
+const PERSONAL_EVENTS_SELECTED_KEY = 'junior-ledger-personal-events-selected';
+const NOTIFICATION_PREFERENCES_KEY = 'junior-ledger-notification-preferences';
+const SENT_NOTIFICATIONS_KEY = 'junior-ledger-notifications-sent';
+const EXAM_RULES_KEY = 'junior-ledger-exam-rules';
+const EXAM_TAGS_KEY = 'junior-ledger-exam-tags';
 const ASSIGNMENTS_STORAGE_PREFIX = 'junior-ledger-assignments-';
+const GRADES_STORAGE_PREFIX = 'junior-ledger-grades-';
+const GRADES_CACHE_DURATION_MS = 15 * 60 * 1000; // Grades change less often than assignments
+const COURSE_SCORE_STORAGE_PREFIX = 'junior-ledger-course-score-';
 const EXTRACTED_TEXT_STORAGE_PREFIX = 'junior-ledger-extracted-text-';
+const IDB_MIGRATED_KEY = 'junior-ledger-idb-migrated';
+const CACHE_SIZE_LIMIT_KEY = 'junior-ledger-cache-size-limit-mb';
+const DEFAULT_CACHE_SIZE_LIMIT_MB = 200;
+
+let migrationPromise: Promise<void> | null = null;
 
 // Get course nicknames from localStorage
 export function getCourseNicknames(): Record<number, string> {
@@ -98,6 +147,34 @@ export function saveCanvasToken(token: string): void {
   }
 }
 
+// Get the Canvas instance URL (defaults to BYU's Canvas)
+export function getCanvasBaseUrl(): string {
+  if (typeof window === 'undefined') return DEFAULT_CANVAS_BASE_URL;
+  
+  try {
+    return localStorage.getItem(CANVAS_BASE_URL_KEY) || DEFAULT_CANVAS_BASE_URL;
+  } catch {
+    return DEFAULT_CANVAS_BASE_URL;
+  }
+}
+
+// Save the Canvas instance URL (already normalized to its origin)
+export function saveCanvasBaseUrl(baseUrl: string): void {
+  if (typeof window === 'undefined') return;
+  
+  try {
+    localStorage.setItem(CANVAS_BASE_URL_KEY, baseUrl);
+  } catch (error) {
+    console.error('Error saving Canvas URL:', error);
+  }
+}
+
+// Get the token and instance URL for Canvas server actions, or null if not connected
+export function getCanvasAuth(): CanvasAuth | null {
+  const token = getCanvasToken();
+  return token ? { token, baseUrl: getCanvasBaseUrl() } : null;
+}
+
 // Get hidden course IDs
 export function getHiddenCourses(): number[] {
   if (typeof window === 'undefined') return [];
@@ -202,165 +279,261 @@ export function clearCourseChatMessages(courseId: number): void {
   }
 }
 
+// Large caches (uploaded files, downloaded Canvas files, extracted text) live in IndexedDB;
+// localStorage's ~5MB quota fills up after a handful of PDFs. Everything else stays in localStorage.
+
+// Copy caches saved by older versions from localStorage into IndexedDB, once per browser
+function migrateLargeCachesToIndexedDB(): Promise<void> {
+  if (!migrationPromise) {
+    migrationPromise = (async () => {
+      if (localStorage.getItem(IDB_MIGRATED_KEY)) return;
+
+      const keys: string[] = [];
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key && (key.startsWith(FILES_STORAGE_PREFIX) || key.startsWith(CANVAS_FILES_STORAGE_PREFIX) || key.startsWith(EXTRACTED_TEXT_STORAGE_PREFIX))) {
+          keys.push(key);
+        }
+      }
+
+      let failed = 0;
+      for (const key of keys) {
+        const stored = localStorage.getItem(key);
+        if (!stored) continue;
+
+        try {
+          const parsed = JSON.parse(stored);
+          if (key.startsWith(CANVAS_FILES_STORAGE_PREFIX)) {
+            const files = parsed as CachedCanvasFile[];
+            await withStore(CANVAS_FILES_STORE, 'readwrite', store => {
+              files.forEach(file => store.put(file));
+            });
+          } else if (key.startsWith(EXTRACTED_TEXT_STORAGE_PREFIX)) {
+            const courseId = parseInt(key.slice(EXTRACTED_TEXT_STORAGE_PREFIX.length), 10);
+            if (!isNaN(courseId)) {
+              await withStore(EXTRACTED_TEXT_STORE, 'readwrite', store => {
+                store.put({ ...(parsed as CachedExtractedTexts), courseId });
+              });
+            }
+          } else {
+            const scope = key.slice(FILES_STORAGE_PREFIX.length);
+            const files = parsed as UploadedFile[];
+            await withStore(UPLOADED_FILES_STORE, 'readwrite', store => {
+              files.forEach(file => store.put({ ...file, scope }));
+            });
+          }
+          localStorage.removeItem(key);
+        } catch (error) {
+          // Leave the localStorage copy in place and move on; the next page load retries it
+          console.error(`Error migrating ${key} to IndexedDB:`, error);
+          failed++;
+        }
+      }
+
+      if (failed === 0) {
+        localStorage.setItem(IDB_MIGRATED_KEY, new Date().toISOString());
+      }
+    })();
+  }
+  return migrationPromise;
+}
+
+// Open IndexedDB for a cache operation, migrating old localStorage caches first
+async function largeCacheStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  await migrateLargeCachesToIndexedDB();
+  return withStore(storeName, mode, work);
+}
+
+// Turn a failed IndexedDB write into the error shown to the student
+function toStorageError(error: unknown, hint: string): Error {
+  if (isQuotaExceededError(error)) {
+    return new Error(`Storage quota exceeded. ${hint}`);
+  }
+  return error instanceof Error ? error : new Error('Failed to save to browser storage');
+}
+
+// Uploaded files are grouped by course ID, or 'semester' for semester documents
+function getFileScope(courseId: number | null): string {
+  return courseId === null ? 'semester' : String(courseId);
+}
+
+// Drop the IndexedDB grouping field from a stored uploaded file
+function toUploadedFile(record: UploadedFile & { scope?: string }): UploadedFile {
+  const file = { ...record };
+  delete file.scope;
+  return file;
+}
+
 // File Storage Functions
 
 // Get uploaded files for a specific course (or semester documents if courseId is null)
-export function getCourseFiles(courseId: number | null): UploadedFile[] {
+export async function getCourseFiles(courseId: number | null): Promise<UploadedFile[]> {
   if (typeof window === 'undefined') return [];
   
   try {
-    const key = courseId === null 
-      ? `${FILES_STORAGE_PREFIX}semester` 
-      : `${FILES_STORAGE_PREFIX}${courseId}`;
-    const stored = localStorage.getItem(key);
-    return stored ? JSON.parse(stored) : [];
-  } catch {
+    const records = await largeCacheStore(UPLOADED_FILES_STORE, 'readonly', store =>
+      requestToPromise(store.index('scope').getAll(getFileScope(courseId)))
+    );
+    return (records as Array<UploadedFile & { scope?: string }>)
+      .map(toUploadedFile)
+      .sort((a, b) => a.uploadDate.localeCompare(b.uploadDate));
+  } catch (error) {
+    console.error('Error loading files:', error);
     return [];
   }
 }
 
 // Get all uploaded files across all courses
-export function getAllFiles(): UploadedFile[] {
+export async function getAllFiles(): Promise<UploadedFile[]> {
   if (typeof window === 'undefined') return [];
   
   try {
-    const allFiles: UploadedFile[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith(FILES_STORAGE_PREFIX)) {
-        const stored = localStorage.getItem(key);
-        if (stored) {
-          const files = JSON.parse(stored);
-          allFiles.push(...files);
-        }
-      }
-    }
-    return allFiles;
-  } catch {
+    const records = await largeCacheStore(UPLOADED_FILES_STORE, 'readonly', store =>
+      requestToPromise(store.getAll())
+    );
+    return (records as Array<UploadedFile & { scope?: string }>).map(toUploadedFile);
+  } catch (error) {
+    console.error('Error loading files:', error);
     return [];
   }
 }
 
 // Save uploaded files for a specific course (or semester documents if courseId is null)
-export function saveCourseFiles(courseId: number | null, files: UploadedFile[]): void {
+export async function saveCourseFiles(courseId: number | null, files: UploadedFile[]): Promise<void> {
   if (typeof window === 'undefined') return;
   
+  const scope = getFileScope(courseId);
   try {
-    const key = courseId === null 
-      ? `${FILES_STORAGE_PREFIX}semester` 
-      : `${FILES_STORAGE_PREFIX}${courseId}`;
-    localStorage.setItem(key, JSON.stringify(files));
+    await largeCacheStore(UPLOADED_FILES_STORE, 'readwrite', async store => {
+      const existingIds = await requestToPromise(store.index('scope').getAllKeys(scope));
+      existingIds.forEach(id => store.delete(id));
+      files.forEach(file => store.put({ ...file, scope }));
+    });
   } catch (error) {
     console.error('Error saving files:', error);
-    // If quota exceeded, provide helpful error
-    if (error instanceof DOMException && error.code === 22) {
-      throw new Error('Storage quota exceeded. Please delete some files to free up space.');
-    }
-    throw error;
+    throw toStorageError(error, 'Please delete some files to free up space.');
   }
 }
 
 // Add a file to a course (or semester documents if courseId is null)
-export function addCourseFile(courseId: number | null, file: UploadedFile): void {
+export async function addCourseFile(courseId: number | null, file: UploadedFile): Promise<void> {
   if (typeof window === 'undefined') return;
   
   try {
-    const files = getCourseFiles(courseId);
-    files.push(file);
-    saveCourseFiles(courseId, files);
+    await largeCacheStore(UPLOADED_FILES_STORE, 'readwrite', store => {
+      store.put({ ...file, scope: getFileScope(courseId) });
+    });
   } catch (error) {
     console.error('Error adding file:', error);
-    throw error;
+    throw toStorageError(error, 'Please delete some files to free up space.');
   }
 }
 
 // Delete a file from a course (or semester documents if courseId is null)
-export function deleteCourseFile(courseId: number | null, fileId: string): void {
+export async function deleteCourseFile(courseId: number | null, fileId: string): Promise<void> {
   if (typeof window === 'undefined') return;
   
   try {
-    const files = getCourseFiles(courseId);
-    const updated = files.filter(f => f.id !== fileId);
-    saveCourseFiles(courseId, updated);
+    await largeCacheStore(UPLOADED_FILES_STORE, 'readwrite', store => {
+      store.delete(fileId);
+    });
   } catch (error) {
     console.error('Error deleting file:', error);
   }
 }
 
+// Delete every uploaded file for every course and the semester documents
+export async function clearAllCourseFiles(): Promise<void> {
+  if (typeof window === 'undefined') return;
+  
+  try {
+    await largeCacheStore(UPLOADED_FILES_STORE, 'readwrite', store => {
+      store.clear();
+    });
+  } catch (error) {
+    console.error('Error clearing files:', error);
+    throw error;
+  }
+}
+
 // Canvas File Caching Functions
 
 // Get cached Canvas files for a specific course
-export function getCachedCanvasFiles(courseId: number): CachedCanvasFile[] {
+export async function getCachedCanvasFiles(courseId: number): Promise<CachedCanvasFile[]> {
   if (typeof window === 'undefined') return [];
   
   try {
-    const key = `${CANVAS_FILES_STORAGE_PREFIX}${courseId}`;
-    const stored = localStorage.getItem(key);
-    return stored ? JSON.parse(stored) : [];
-  } catch {
+    return await largeCacheStore(CANVAS_FILES_STORE, 'readonly', store =>
+      requestToPromise(store.index('courseId').getAll(courseId))
+    ) as CachedCanvasFile[];
+  } catch (error) {
+    console.error('Error loading cached Canvas files:', error);
     return [];
   }
 }
 
 // Save cached Canvas files for a specific course
-export function saveCachedCanvasFiles(courseId: number, files: CachedCanvasFile[]): void {
+export async function saveCachedCanvasFiles(courseId: number, files: CachedCanvasFile[]): Promise<void> {
   if (typeof window === 'undefined') return;
   
   try {
-    const key = `${CANVAS_FILES_STORAGE_PREFIX}${courseId}`;
-    localStorage.setItem(key, JSON.stringify(files));
+    await largeCacheStore(CANVAS_FILES_STORE, 'readwrite', async store => {
+      const existingKeys = await requestToPromise(store.index('courseId').getAllKeys(courseId));
+      existingKeys.forEach(key => store.delete(key));
+      files.forEach(file => store.put({ ...file, courseId }));
+    });
   } catch (error) {
     console.error('Error saving cached Canvas files:', error);
-    // If quota exceeded, provide helpful error
-    if (error instanceof DOMException && error.code === 22) {
-      throw new Error('Storage quota exceeded. Please clear some cached files to free up space.');
-    }
-    throw error;
+    throw toStorageError(error, 'Please clear some cached files to free up space.');
   }
 }
 
 // Add or update a cached Canvas file
-export function cacheCanvasFile(courseId: number, file: CachedCanvasFile): void {
+export async function cacheCanvasFile(courseId: number, file: CachedCanvasFile): Promise<void> {
   if (typeof window === 'undefined') return;
   
   try {
-    const files = getCachedCanvasFiles(courseId);
-    const existingIndex = files.findIndex(f => f.canvasId === file.canvasId);
-    
-    if (existingIndex >= 0) {
-      // Update existing file
-      files[existingIndex] = file;
-    } else {
-      // Add new file
-      files.push(file);
-    }
-    
-    saveCachedCanvasFiles(courseId, files);
+    await largeCacheStore(CANVAS_FILES_STORE, 'readwrite', store => {
+      store.put({ ...file, courseId });
+    });
   } catch (error) {
     console.error('Error caching Canvas file:', error);
-    throw error;
+    throw toStorageError(error, 'Please clear some cached files to free up space.');
   }
 }
 
 // Get a cached Canvas file by Canvas ID
-export function getCachedCanvasFile(courseId: number, canvasId: number): CachedCanvasFile | null {
+export async function getCachedCanvasFile(courseId: number, canvasId: number): Promise<CachedCanvasFile | null> {
   if (typeof window === 'undefined') return null;
   
   try {
-    const files = getCachedCanvasFiles(courseId);
-    return files.find(f => f.canvasId === canvasId) || null;
+    const file = await largeCacheStore(CANVAS_FILES_STORE, 'readwrite', async store => {
+      const stored = await requestToPromise(store.get([courseId, canvasId])) as CachedCanvasFile | undefined;
+      if (stored) {
+        stored.lastAccessedAt = new Date().toISOString();
+        store.put(stored);
+      }
+      return stored;
+    });
+    return file || null;
   } catch {
     return null;
   }
 }
 
 // Clear cached Canvas files for a specific course
-export function clearCachedCanvasFiles(courseId: number): void {
+export async function clearCachedCanvasFiles(courseId: number): Promise<void> {
   if (typeof window === 'undefined') return;
   
   try {
-    const key = `${CANVAS_FILES_STORAGE_PREFIX}${courseId}`;
-    localStorage.removeItem(key);
+    await largeCacheStore(CANVAS_FILES_STORE, 'readwrite', async store => {
+      const keys = await requestToPromise(store.index('courseId').getAllKeys(courseId));
+      keys.forEach(key => store.delete(key));
+    });
   } catch (error) {
     console.error('Error clearing cached Canvas files:', error);
   }
@@ -422,6 +595,96 @@ export function saveCalendarSelectedCourses(selectedCourseIds: Set<number> | nul
   }
 }
 
+export type CalendarView = 'month' | 'week' | 'agenda';
+
+const CALENDAR_VIEWS: CalendarView[] = ['month', 'week', 'agenda'];
+
+// Get the calendar view the student last chose (defaults to month)
+export function getCalendarView(): CalendarView {
+  if (typeof window === 'undefined') return 'month';
+
+  try {
+    const stored = localStorage.getItem(CALENDAR_VIEW_KEY);
+    return CALENDAR_VIEWS.includes(stored as CalendarView) ? (stored as CalendarView) : 'month';
+  } catch {
+    return 'month';
+  }
+}
+
+// Save the chosen calendar view
+export function saveCalendarView(view: CalendarView): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(CALENDAR_VIEW_KEY, view);
+  } catch (error) {
+    console.error('Error saving calendar view:', error);
+  }
+}
+
+// Calendar Export Functions
+
+// Get the token of the calendar subscription this browser created, if any
+export function getCalendarExportFeedToken(): string | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    return localStorage.getItem(CALENDAR_EXPORT_FEED_KEY);
+  } catch {
+    return null;
+  }
+}
+
+// Save the calendar subscription's token (null after revoking it)
+export function saveCalendarExportFeedToken(feedToken: string | null): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    if (feedToken) {
+      localStorage.setItem(CALENDAR_EXPORT_FEED_KEY, feedToken);
+    } else {
+      localStorage.removeItem(CALENDAR_EXPORT_FEED_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving calendar export feed:', error);
+  }
+}
+
+// Time Zone Functions
+
+// Get the timezone the student chose, or null to follow this device
+export function getTimeZoneSetting(): string | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = localStorage.getItem(TIME_ZONE_KEY);
+    return stored && isValidTimeZone(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+// Save the chosen timezone (null to follow this device) and tell open pages it changed
+export function saveTimeZoneSetting(timeZone: string | null): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    if (timeZone) {
+      localStorage.setItem(TIME_ZONE_KEY, timeZone);
+    } else {
+      localStorage.removeItem(TIME_ZONE_KEY);
+    }
+    window.dispatchEvent(new CustomEvent('timeZoneChanged'));
+  } catch (error) {
+    console.error('Error saving time zone:', error);
+  }
+}
+
+// Timezone dates and times are shown in: the student's choice, or this device's
+export function getUserTimeZone(): string {
+  return getTimeZoneSetting() || getDeviceTimeZone();
+}
+
 // Auto-Refresh Interval Functions
 
 // Get auto-refresh interval in minutes (default: 5 minutes, or 0 to disable)
@@ -452,89 +715,425 @@ export function saveAutoRefreshInterval(intervalMinutes: number): void {
   }
 }
 
-// Google Calendar Feed URL Functions
+// Calendar Feed Functions
+
+// An iCal subscription (Google, Outlook, a club or the academic calendar) shown on the calendar
+export interface CalendarFeed {
+  id: number;
+  label: string;
+  url: string;
+  color: string;
+  detectExams: boolean; // Run the exam rules on this feed's events
+  visible: boolean; // Shown on the calendar (toggled from the calendar sidebar)
+}
+
+export const CALENDAR_FEED_COLORS = ['#4285F4', '#0F9D58', '#F4B400', '#DB4437', '#0078D4', '#00897B', '#E67C73', '#616161'];
+
+// Move the single Google Calendar URL (also found in older backups) into the feed list
+function migrateLegacyGoogleCalendarFeed(existingFeeds: CalendarFeed[]): CalendarFeed[] {
+  const url = localStorage.getItem(LEGACY_GOOGLE_CALENDAR_FEED_URL_KEY);
+  const feeds = [...existingFeeds];
+
+  if (url && !feeds.some(feed => feed.url === url)) {
+    const id = feeds.reduce((maxId, existing) => Math.max(maxId, existing.id), 0) + 1;
+    feeds.push({
+      id,
+      label: 'Google Calendar',
+      url,
+      color: CALENDAR_FEED_COLORS[0],
+      detectExams: true,
+      visible: localStorage.getItem(LEGACY_GOOGLE_CALENDAR_SELECTED_KEY) !== 'false',
+    });
+  }
+
+  localStorage.setItem(CALENDAR_FEEDS_KEY, JSON.stringify(feeds));
+  localStorage.removeItem(LEGACY_GOOGLE_CALENDAR_FEED_URL_KEY);
+  localStorage.removeItem(LEGACY_GOOGLE_CALENDAR_SELECTED_KEY);
+  return feeds;
+}
+
+// Get every iCal feed
+export function getCalendarFeeds(): CalendarFeed[] {
+  if (typeof window === 'undefined') return [];
 
-// Get Google Calendar feed URL from localStorage
-export function getGoogleCalendarFeedUrl(): string | null {
-  if (typeof window === 'undefined') return null;
-  
   try {
-    return localStorage.getItem(GOOGLE_CALENDAR_FEED_URL_KEY);
+    const stored = localStorage.getItem(CALENDAR_FEEDS_KEY);
+    const feeds: CalendarFeed[] = stored ? JSON.parse(stored) : [];
+    const hasLegacyFeed = localStorage.getItem(LEGACY_GOOGLE_CALENDAR_FEED_URL_KEY) !== null;
+    return !stored || hasLegacyFeed ? migrateLegacyGoogleCalendarFeed(feeds) : feeds;
   } catch {
-    return null;
+    return [];
   }
 }
 
-// Save Google Calendar feed URL
-export function saveGoogleCalendarFeedUrl(url: string): void {
+// Save every iCal feed and tell open pages they changed
+export function saveCalendarFeeds(feeds: CalendarFeed[]): void {
   if (typeof window === 'undefined') return;
-  
+
+  try {
+    localStorage.setItem(CALENDAR_FEEDS_KEY, JSON.stringify(feeds));
+    window.dispatchEvent(new CustomEvent('calendarFeedsChanged'));
+  } catch (error) {
+    console.error('Error saving calendar feeds:', error);
+  }
+}
+
+// Add an iCal feed, visible and with the next unused color
+export function addCalendarFeed(label: string, url: string): CalendarFeed {
+  const feeds = getCalendarFeeds();
+  const usedColors = new Set(feeds.map(feed => feed.color));
+  const feed: CalendarFeed = {
+    id: feeds.reduce((maxId, existing) => Math.max(maxId, existing.id), 0) + 1,
+    label: label.trim(),
+    url: url.trim(),
+    color: CALENDAR_FEED_COLORS.find(color => !usedColors.has(color)) || CALENDAR_FEED_COLORS[feeds.length % CALENDAR_FEED_COLORS.length],
+    detectExams: true,
+    visible: true,
+  };
+  saveCalendarFeeds([...feeds, feed]);
+  return feed;
+}
+
+// Change some of a feed's settings
+export function updateCalendarFeed(id: number, changes: Partial<Omit<CalendarFeed, 'id'>>): void {
+  saveCalendarFeeds(getCalendarFeeds().map(feed => feed.id === id ? { ...feed, ...changes } : feed));
+}
+
+// Remove a feed
+export function deleteCalendarFeed(id: number): void {
+  saveCalendarFeeds(getCalendarFeeds().filter(feed => feed.id !== id));
+}
+
+// Task State Functions
+
+// Local done/snooze/pin state for an assignment or calendar event, keyed by task key
+export interface TaskState {
+  done?: boolean;
+  snoozedUntil?: string; // YYYY-MM-DD; the task stays out of lists until this day
+  pinned?: boolean;
+  updatedAt: string;
+}
+
+// Task keys from before events had source-qualified IDs: event-<context code>-<numeric ID>
+const LEGACY_EVENT_KEY_PATTERN = /^event-([^-]+)-(\d+)$/;
+// Old personal occurrence IDs were the personal event's ID times this plus the occurrence number
+const LEGACY_OCCURRENCE_ID_FACTOR = 100000;
+const LEGACY_RECURRENCE_STEP_DAYS: Partial<Record<PersonalEventRecurrence, number>> = { daily: 1, weekly: 7, biweekly: 14 };
+
+// New key for a legacy event key, or null when it can't be carried over. iCal feed IDs were
+// derived from UIDs one way, so those task states and tags are dropped.
+function migrateLegacyEventKey(contextCode: string, legacyId: number, personalEvents: PersonalEvent[]): string | null {
+  if (/^(course|group|user)_\d+$/.test(contextCode)) {
+    return getCanvasEventId(legacyId);
+  }
+  if (contextCode !== 'personal' && !contextCode.startsWith('personal_course_')) return null;
+
+  const event = personalEvents.find(candidate => candidate.id === Math.floor(legacyId / LEGACY_OCCURRENCE_ID_FACTOR));
+  if (!event) return null;
+  const index = legacyId % LEGACY_OCCURRENCE_ID_FACTOR;
+  const [year, month, day] = event.date.split('-').map(Number);
+  const date = event.recurrence === 'monthly'
+    ? new Date(Date.UTC(year, month - 1 + index, day))
+    : new Date(Date.UTC(year, month - 1, day + index * (LEGACY_RECURRENCE_STEP_DAYS[event.recurrence] || 0)));
+  return getPersonalOccurrenceId(event.id, date.toISOString().slice(0, 10));
+}
+
+// Read a record keyed by task key, rewriting legacy event keys (also found in older backups) in place
+function getTaskKeyedRecord<T>(storageKey: string): Record<string, T> {
+  const stored = localStorage.getItem(storageKey);
+  const record: Record<string, T> = stored ? JSON.parse(stored) : {};
+  const legacyKeys = Object.keys(record).filter(key => LEGACY_EVENT_KEY_PATTERN.test(key));
+  if (legacyKeys.length === 0) return record;
+
+  const personalEvents = getPersonalEvents();
+  legacyKeys.forEach(key => {
+    const [, contextCode, legacyId] = key.match(LEGACY_EVENT_KEY_PATTERN) as RegExpMatchArray;
+    const newKey = migrateLegacyEventKey(contextCode, parseInt(legacyId, 10), personalEvents);
+    if (newKey && !(newKey in record)) {
+      record[newKey] = record[key];
+    }
+    delete record[key];
+  });
+  localStorage.setItem(storageKey, JSON.stringify(record));
+  return record;
+}
+
+// Get every saved task state
+export function getTaskStates(): Record<string, TaskState> {
+  if (typeof window === 'undefined') return {};
+
+  try {
+    return getTaskKeyedRecord<TaskState>(TASK_STATES_KEY);
+  } catch {
+    return {};
+  }
+}
+
+// Save one task's state (removed once nothing is set) and tell open pages it changed
+export function saveTaskState(taskKey: string, state: Omit<TaskState, 'updatedAt'>): void {
+  if (typeof window === 'undefined') return;
+
   try {
-    if (url.trim() === '') {
-      localStorage.removeItem(GOOGLE_CALENDAR_FEED_URL_KEY);
-      // Also unselect Google Calendar if URL is removed
-      localStorage.removeItem(GOOGLE_CALENDAR_SELECTED_KEY);
+    const states = getTaskStates();
+    if (!state.done && !state.snoozedUntil && !state.pinned) {
+      delete states[taskKey];
     } else {
-      localStorage.setItem(GOOGLE_CALENDAR_FEED_URL_KEY, url.trim());
-      // Default to selected when URL is added
-      if (!localStorage.getItem(GOOGLE_CALENDAR_SELECTED_KEY)) {
-        localStorage.setItem(GOOGLE_CALENDAR_SELECTED_KEY, 'true');
-      }
+      states[taskKey] = {
+        ...(state.done ? { done: true } : {}),
+        ...(state.snoozedUntil ? { snoozedUntil: state.snoozedUntil } : {}),
+        ...(state.pinned ? { pinned: true } : {}),
+        updatedAt: new Date().toISOString(),
+      };
     }
+    localStorage.setItem(TASK_STATES_KEY, JSON.stringify(states));
+    window.dispatchEvent(new CustomEvent('taskStatesChanged', { detail: { taskKey } }));
   } catch (error) {
-    console.error('Error saving Google Calendar feed URL:', error);
+    console.error('Error saving task state:', error);
   }
 }
 
-// Google Calendar Selection Functions
+// Personal Event Functions
+
+export type PersonalEventKind = 'task' | 'event';
+
+export type PersonalEventRecurrence = 'none' | 'daily' | 'weekly' | 'biweekly' | 'monthly';
+
+// A study session, meeting or to-do the student added themselves
+export interface PersonalEvent {
+  id: number;
+  kind: PersonalEventKind;
+  title: string;
+  courseId: number | null;
+  date: string; // YYYY-MM-DD of the first occurrence
+  startTime: string | null; // HH:MM local time, null for all-day
+  endTime: string | null;
+  location: string | null;
+  notes: string | null;
+  recurrence: PersonalEventRecurrence;
+  recurrenceUntil: string | null; // YYYY-MM-DD, null to repeat forever
+  reminderMinutes: number | null; // Minutes before it starts, null for no reminder
+  createdAt: string;
+}
+
+// Get every personal task and event
+export function getPersonalEvents(): PersonalEvent[] {
+  if (typeof window === 'undefined') return [];
 
-// Get Google Calendar selection state (defaults to true if URL exists)
-export function getGoogleCalendarSelected(): boolean {
-  if (typeof window === 'undefined') return false;
-  
   try {
-    const url = localStorage.getItem(GOOGLE_CALENDAR_FEED_URL_KEY);
-    if (!url) return false; // Can't be selected if no URL
-    
-    const stored = localStorage.getItem(GOOGLE_CALENDAR_SELECTED_KEY);
-    if (stored === null) {
-      // Default to true (selected) if not set
-      return true;
-    }
-    return stored === 'true';
+    const stored = localStorage.getItem(PERSONAL_EVENTS_KEY);
+    return stored ? JSON.parse(stored) : [];
   } catch {
-    return false;
+    return [];
   }
 }
 
-// Save Google Calendar selection state
-export function saveGoogleCalendarSelected(selected: boolean): void {
+// Save every personal task and event and tell open pages they changed
+export function savePersonalEvents(events: PersonalEvent[]): void {
   if (typeof window === 'undefined') return;
-  
+
+  try {
+    localStorage.setItem(PERSONAL_EVENTS_KEY, JSON.stringify(events));
+    window.dispatchEvent(new CustomEvent('personalEventsChanged'));
+  } catch (error) {
+    console.error('Error saving personal events:', error);
+  }
+}
+
+// Add a personal task or event, giving it the next free ID
+export function addPersonalEvent(event: Omit<PersonalEvent, 'id' | 'createdAt'>): PersonalEvent {
+  const events = getPersonalEvents();
+  const newEvent: PersonalEvent = {
+    ...event,
+    id: events.reduce((max, existing) => Math.max(max, existing.id), 0) + 1,
+    createdAt: new Date().toISOString(),
+  };
+  savePersonalEvents([...events, newEvent]);
+  return newEvent;
+}
+
+// Update a personal task or event
+export function updatePersonalEvent(event: PersonalEvent): void {
+  savePersonalEvents(getPersonalEvents().map(existing => existing.id === event.id ? event : existing));
+}
+
+// Delete a personal task or event (every occurrence)
+export function deletePersonalEvent(id: number): void {
+  savePersonalEvents(getPersonalEvents().filter(event => event.id !== id));
+}
+
+// Get whether personal events show on the calendar (defaults to true)
+export function getPersonalEventsSelected(): boolean {
+  if (typeof window === 'undefined') return true;
+
+  try {
+    return localStorage.getItem(PERSONAL_EVENTS_SELECTED_KEY) !== 'false';
+  } catch {
+    return true;
+  }
+}
+
+// Save whether personal events show on the calendar
+export function savePersonalEventsSelected(selected: boolean): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(PERSONAL_EVENTS_SELECTED_KEY, selected ? 'true' : 'false');
+  } catch (error) {
+    console.error('Error saving personal events selection:', error);
+  }
+}
+
+// Notification Functions
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:MM local time
+  end: string; // HH:MM; earlier than start for overnight quiet hours
+}
+
+// Which deadline notifications to show, and how early
+export interface NotificationPreferences {
+  enabled: boolean;
+  leadHours: Record<AssignmentType, number | null>; // null turns a type off
+  courseLeadHours: Record<number, number | null>; // Replaces the type's lead time for a course; null mutes it
+  personalReminders: boolean; // Personal events use their own reminder time
+  quietHours: QuietHours;
+}
+
+const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  enabled: false,
+  leadHours: { assignment: 24, quiz: 24, discussion: 24, exam: 72 },
+  courseLeadHours: {},
+  personalReminders: true,
+  quietHours: { enabled: true, start: '22:00', end: '07:00' },
+};
+
+// Get notification preferences, filling in defaults for anything not saved yet
+export function getNotificationPreferences(): NotificationPreferences {
+  if (typeof window === 'undefined') return DEFAULT_NOTIFICATION_PREFERENCES;
+
+  try {
+    const stored = localStorage.getItem(NOTIFICATION_PREFERENCES_KEY);
+    if (!stored) return DEFAULT_NOTIFICATION_PREFERENCES;
+    const parsed = JSON.parse(stored) as Partial<NotificationPreferences>;
+    return {
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      ...parsed,
+      leadHours: { ...DEFAULT_NOTIFICATION_PREFERENCES.leadHours, ...parsed.leadHours },
+      quietHours: { ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours, ...parsed.quietHours },
+    };
+  } catch {
+    return DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+}
+
+// Save notification preferences and tell the scheduler they changed
+export function saveNotificationPreferences(preferences: NotificationPreferences): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(NOTIFICATION_PREFERENCES_KEY, JSON.stringify(preferences));
+    window.dispatchEvent(new CustomEvent('notificationPreferencesChanged'));
+  } catch (error) {
+    console.error('Error saving notification preferences:', error);
+  }
+}
+
+// Get notifications already shown, as notification key -> due date
+export function getSentNotifications(): Record<string, string> {
+  if (typeof window === 'undefined') return {};
+
+  try {
+    const stored = localStorage.getItem(SENT_NOTIFICATIONS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+// Save the notifications already shown
+export function saveSentNotifications(sent: Record<string, string>): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(SENT_NOTIFICATIONS_KEY, JSON.stringify(sent));
+  } catch (error) {
+    console.error('Error saving sent notifications:', error);
+  }
+}
+
+// Exam Detection Functions
+
+// Get the exam detection rules (defaults until the student edits them)
+export function getExamRuleSettings(): ExamRuleSettings {
+  if (typeof window === 'undefined') return DEFAULT_EXAM_RULE_SETTINGS;
+
+  try {
+    const stored = localStorage.getItem(EXAM_RULES_KEY);
+    return stored ? { ...DEFAULT_EXAM_RULE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_EXAM_RULE_SETTINGS;
+  } catch {
+    return DEFAULT_EXAM_RULE_SETTINGS;
+  }
+}
+
+// Save the exam detection rules and tell open pages to reclassify
+export function saveExamRuleSettings(settings: ExamRuleSettings): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(EXAM_RULES_KEY, JSON.stringify(settings));
+    window.dispatchEvent(new CustomEvent('examRulesChanged'));
+  } catch (error) {
+    console.error('Error saving exam rules:', error);
+  }
+}
+
+// Get manual exam tags by task key (true: is an exam, false: is not)
+export function getExamTags(): Record<string, boolean> {
+  if (typeof window === 'undefined') return {};
+
+  try {
+    return getTaskKeyedRecord<boolean>(EXAM_TAGS_KEY);
+  } catch {
+    return {};
+  }
+}
+
+// Tag a task as an exam or not, or pass null to go back to the rules
+export function saveExamTag(taskKey: string, isExam: boolean | null): void {
+  if (typeof window === 'undefined') return;
+
   try {
-    if (selected) {
-      localStorage.setItem(GOOGLE_CALENDAR_SELECTED_KEY, 'true');
+    const tags = getExamTags();
+    if (isExam === null) {
+      delete tags[taskKey];
     } else {
-      localStorage.setItem(GOOGLE_CALENDAR_SELECTED_KEY, 'false');
+      tags[taskKey] = isExam;
     }
+    localStorage.setItem(EXAM_TAGS_KEY, JSON.stringify(tags));
+    window.dispatchEvent(new CustomEvent('examRulesChanged'));
+  } catch (error) {
+    console.error('Error saving exam tag:', error);
+  }
+}
+
+// Remove every manual exam tag
+export function clearExamTags(): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.removeItem(EXAM_TAGS_KEY);
+    window.dispatchEvent(new CustomEvent('examRulesChanged'));
   } catch (error) {
-    console.error('Error saving Google Calendar selection:', error);
+    console.error('Error clearing exam tags:', error);
   }
 }
 
 // Assignment Caching Functions
 
-export interface CachedAssignment {
-  id: number;
-  name: string;
-  due_at: string | null;
+export interface CachedAssignment extends CanvasAssignment {
   course_id: number;
   cachedAt: string; // When we cached it
-  submission?: {
-    workflow_state: string;
-    [key: string]: any;
-  };
-  [key: string]: any; // Allow other assignment properties
 }
 
 export interface CachedAssignments {
@@ -564,13 +1163,13 @@ export function getCachedAssignments(courseId: number): CachedAssignments | null
 }
 
 // Save cached assignments for a specific course
-export function saveCachedAssignments(courseId: number, assignments: any[]): void {
+export function saveCachedAssignments(courseId: number, assignments: CanvasAssignment[]): void {
   if (typeof window === 'undefined') return;
   
   try {
     const key = `${ASSIGNMENTS_STORAGE_PREFIX}${courseId}`;
     const cached: CachedAssignments = {
-      assignments: assignments.map((assignment: any) => ({
+      assignments: assignments.map(assignment => ({
         ...assignment, // Preserve all assignment properties including submission status
         course_id: courseId,
         cachedAt: new Date().toISOString()
@@ -595,6 +1194,80 @@ export function clearCachedAssignments(courseId: number): void {
   }
 }
 
+// Grades Caching Functions
+
+export interface CachedGrades {
+  grades: CanvasCourseGrades;
+  cachedAt: string;
+}
+
+// Get cached grades for a specific course (null if missing or expired)
+export function getCachedGrades(courseId: number): CachedGrades | null {
+  if (typeof window === 'undefined') return null;
+  
+  try {
+    const stored = localStorage.getItem(`${GRADES_STORAGE_PREFIX}${courseId}`);
+    if (!stored) return null;
+    
+    const cached = JSON.parse(stored) as CachedGrades;
+    const cacheAge = Date.now() - new Date(cached.cachedAt).getTime();
+    if (cacheAge > GRADES_CACHE_DURATION_MS) {
+      return null; // Cache expired
+    }
+    return cached;
+  } catch {
+    return null;
+  }
+}
+
+// Save cached grades for a specific course
+export function saveCachedGrades(courseId: number, grades: CanvasCourseGrades): void {
+  if (typeof window === 'undefined') return;
+  
+  try {
+    const cached: CachedGrades = { grades, cachedAt: new Date().toISOString() };
+    localStorage.setItem(`${GRADES_STORAGE_PREFIX}${courseId}`, JSON.stringify(cached));
+  } catch (error) {
+    console.error('Error saving cached grades:', error);
+  }
+}
+
+export interface CachedCourseScore {
+  score: CanvasCourseScore | null; // null if Canvas hides grades for this course
+  cachedAt: string;
+}
+
+// Get the cached score shown on a class card (null if missing or expired)
+export function getCachedCourseScore(courseId: number): CachedCourseScore | null {
+  if (typeof window === 'undefined') return null;
+  
+  try {
+    const stored = localStorage.getItem(`${COURSE_SCORE_STORAGE_PREFIX}${courseId}`);
+    if (!stored) return null;
+    
+    const cached = JSON.parse(stored) as CachedCourseScore;
+    const cacheAge = Date.now() - new Date(cached.cachedAt).getTime();
+    if (cacheAge > GRADES_CACHE_DURATION_MS) {
+      return null; // Cache expired
+    }
+    return cached;
+  } catch {
+    return null;
+  }
+}
+
+// Save the score shown on a class card
+export function saveCachedCourseScore(courseId: number, score: CanvasCourseScore | null): void {
+  if (typeof window === 'undefined') return;
+  
+  try {
+    const cached: CachedCourseScore = { score, cachedAt: new Date().toISOString() };
+    localStorage.setItem(`${COURSE_SCORE_STORAGE_PREFIX}${courseId}`, JSON.stringify(cached));
+  } catch (error) {
+    console.error('Error saving cached course score:', error);
+  }
+}
+
 // Extracted Text Caching Functions
 
 export interface CachedExtractedText {
@@ -603,6 +1276,7 @@ export interface CachedExtractedText {
   text: string;
   fileModifiedAt?: string; // When the file was last modified (for Canvas files)
   extractedAt: string; // When we extracted the text
+  segments?: TextSegment[]; // Per-page/per-slide text for PDFs and PowerPoint files
 }
 
 export interface CachedExtractedTexts {
@@ -611,47 +1285,237 @@ export interface CachedExtractedTexts {
 }
 
 // Get cached extracted text for a specific course
-export function getCachedExtractedText(courseId: number): CachedExtractedTexts | null {
+export async function getCachedExtractedText(courseId: number): Promise<CachedExtractedTexts | null> {
   if (typeof window === 'undefined') return null;
   
   try {
-    const key = `${EXTRACTED_TEXT_STORAGE_PREFIX}${courseId}`;
-    const stored = localStorage.getItem(key);
-    return stored ? JSON.parse(stored) as CachedExtractedTexts : null;
+    const record = await largeCacheStore(EXTRACTED_TEXT_STORE, 'readonly', store =>
+      requestToPromise(store.get(courseId))
+    ) as (CachedExtractedTexts & { courseId: number }) | undefined;
+    if (!record) return null;
+    return { texts: record.texts, cachedAt: record.cachedAt };
   } catch {
     return null;
   }
 }
 
 // Save cached extracted text for a specific course
-export function saveCachedExtractedText(courseId: number, texts: CachedExtractedText[]): void {
+export async function saveCachedExtractedText(courseId: number, texts: CachedExtractedText[]): Promise<void> {
   if (typeof window === 'undefined') return;
   
   try {
-    const key = `${EXTRACTED_TEXT_STORAGE_PREFIX}${courseId}`;
-    const cached: CachedExtractedTexts = {
-      texts,
-      cachedAt: new Date().toISOString()
-    };
-    localStorage.setItem(key, JSON.stringify(cached));
+    await largeCacheStore(EXTRACTED_TEXT_STORE, 'readwrite', store => {
+      store.put({ courseId, texts, cachedAt: new Date().toISOString() });
+    });
   } catch (error) {
     console.error('Error saving cached extracted text:', error);
-    // If quota exceeded, provide helpful error
-    if (error instanceof DOMException && error.code === 22) {
-      throw new Error('Storage quota exceeded. Please clear some cached files to free up space.');
-    }
-    throw error;
+    throw toStorageError(error, 'Please clear some cached files to free up space.');
   }
 }
 
 // Clear cached extracted text for a specific course
-export function clearCachedExtractedText(courseId: number): void {
+export async function clearCachedExtractedText(courseId: number): Promise<void> {
   if (typeof window === 'undefined') return;
   
   try {
-    const key = `${EXTRACTED_TEXT_STORAGE_PREFIX}${courseId}`;
-    localStorage.removeItem(key);
+    await largeCacheStore(EXTRACTED_TEXT_STORE, 'readwrite', store => {
+      store.delete(courseId);
+    });
   } catch (error) {
     console.error('Error clearing cached extracted text:', error);
   }
 }
+
+// Storage Usage
+
+export interface StorageUsage {
+  usage: number; // Bytes used by this site (IndexedDB, localStorage and other storage)
+  quota: number; // Bytes the browser will let this site use
+}
+
+// Get how much browser storage the app is using, if the browser reports it
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (typeof window === 'undefined' || !navigator.storage?.estimate) return null;
+  
+  try {
+    const estimate = await navigator.storage.estimate();
+    return { usage: estimate.usage || 0, quota: estimate.quota || 0 };
+  } catch {
+    return null;
+  }
+}
+
+// Cache Size Dashboard and Eviction
+
+export interface CachedCanvasFileSummary {
+  courseId: number;
+  canvasId: number;
+  name: string;
+  size: number; // Bytes used by the cached copy
+  cachedAt: string;
+  lastAccessedAt?: string;
+}
+
+export interface UploadedFileSummary {
+  courseId: number | null; // null for semester documents
+  id: string;
+  name: string;
+  size: number; // Bytes used by the stored copy
+}
+
+export interface CacheSizeSummary {
+  canvasFiles: CachedCanvasFileSummary[];
+  uploadedFiles: UploadedFileSummary[];
+  extractedText: Record<number, number>; // Course ID -> bytes of cached extracted text
+}
+
+// Get the cap (in MB) for cached Canvas file downloads
+export function getCacheSizeLimitMb(): number {
+  if (typeof window === 'undefined') return DEFAULT_CACHE_SIZE_LIMIT_MB;
+  
+  try {
+    const stored = localStorage.getItem(CACHE_SIZE_LIMIT_KEY);
+    if (stored === null) return DEFAULT_CACHE_SIZE_LIMIT_MB;
+    const limit = parseInt(stored, 10);
+    return isNaN(limit) || limit < 0 ? DEFAULT_CACHE_SIZE_LIMIT_MB : limit;
+  } catch {
+    return DEFAULT_CACHE_SIZE_LIMIT_MB;
+  }
+}
+
+// Save the cap (in MB) for cached Canvas file downloads (0 keeps no downloads)
+export function saveCacheSizeLimitMb(limitMb: number): void {
+  if (typeof window === 'undefined') return;
+  
+  try {
+    localStorage.setItem(CACHE_SIZE_LIMIT_KEY, Math.max(0, Math.round(limitMb)).toString());
+  } catch (error) {
+    console.error('Error saving cache size limit:', error);
+  }
+}
+
+// Approximate bytes used by a stored string (base64 data URLs and JSON are ASCII)
+function storedSize(value: string): number {
+  return value.length;
+}
+
+// List every cached download, uploaded file and extracted text cache with its size
+export async function getCacheSizeSummary(): Promise<CacheSizeSummary> {
+  const summary: CacheSizeSummary = { canvasFiles: [], uploadedFiles: [], extractedText: {} };
+  if (typeof window === 'undefined') return summary;
+  
+  try {
+    // Walk the stores with cursors so only one file's data is held at a time
+    await largeCacheStore(CANVAS_FILES_STORE, 'readonly', store => new Promise<void>((resolve, reject) => {
+      const request = store.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        const file = cursor.value as CachedCanvasFile;
+        summary.canvasFiles.push({
+          courseId: file.courseId,
+          canvasId: file.canvasId,
+          name: file.name,
+          size: storedSize(file.data),
+          cachedAt: file.cachedAt,
+          lastAccessedAt: file.lastAccessedAt,
+        });
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    }));
+
+    await largeCacheStore(UPLOADED_FILES_STORE, 'readonly', store => new Promise<void>((resolve, reject) => {
+      const request = store.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        const file = cursor.value as UploadedFile;
+        summary.uploadedFiles.push({ courseId: file.courseId, id: file.id, name: file.name, size: storedSize(file.data) });
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    }));
+
+    const extracted = await largeCacheStore(EXTRACTED_TEXT_STORE, 'readonly', store =>
+      requestToPromise(store.getAll())
+    ) as Array<CachedExtractedTexts & { courseId: number }>;
+    extracted.forEach(record => {
+      summary.extractedText[record.courseId] = storedSize(JSON.stringify(record.texts));
+    });
+  } catch (error) {
+    console.error('Error measuring cache sizes:', error);
+  }
+  
+  return summary;
+}
+
+// Record that cached Canvas files were just used, so eviction keeps them longest
+export async function markCanvasFilesAccessed(courseId: number, canvasIds: number[]): Promise<void> {
+  if (typeof window === 'undefined' || canvasIds.length === 0) return;
+  
+  try {
+    const now = new Date().toISOString();
+    await largeCacheStore(CANVAS_FILES_STORE, 'readwrite', async store => {
+      for (const canvasId of canvasIds) {
+        const file = await requestToPromise(store.get([courseId, canvasId])) as CachedCanvasFile | undefined;
+        if (file) {
+          file.lastAccessedAt = now;
+          store.put(file);
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Error updating cached file access times:', error);
+  }
+}
+
+// Delete one cached Canvas download (its extracted text is kept)
+export async function deleteCachedCanvasFile(courseId: number, canvasId: number): Promise<void> {
+  if (typeof window === 'undefined') return;
+  
+  try {
+    await largeCacheStore(CANVAS_FILES_STORE, 'readwrite', store => {
+      store.delete([courseId, canvasId]);
+    });
+  } catch (error) {
+    console.error('Error deleting cached Canvas file:', error);
+  }
+}
+
+// Delete every cached Canvas download, keeping extracted text so the assistant still works
+export async function purgeCachedCanvasFileData(): Promise<void> {
+  if (typeof window === 'undefined') return;
+  
+  try {
+    await largeCacheStore(CANVAS_FILES_STORE, 'readwrite', store => {
+      store.clear();
+    });
+  } catch (error) {
+    console.error('Error purging cached Canvas files:', error);
+  }
+}
+
+// Evict least recently used Canvas downloads until the cache fits under the size limit.
+// Extracted text is kept, so evicted files don't need re-downloading unless they change.
+export async function enforceCacheSizeLimit(): Promise<number> {
+  if (typeof window === 'undefined') return 0;
+  
+  const limitBytes = getCacheSizeLimitMb() * 1024 * 1024;
+  const { canvasFiles } = await getCacheSizeSummary();
+  let total = canvasFiles.reduce((sum, file) => sum + file.size, 0);
+  if (total <= limitBytes) return 0;
+
+  const byLeastRecentlyUsed = [...canvasFiles].sort((a, b) =>
+    (a.lastAccessedAt || a.cachedAt).localeCompare(b.lastAccessedAt || b.cachedAt)
+  );
+
+  let evicted = 0;
+  for (const file of byLeastRecentlyUsed) {
+    if (total <= limitBytes) break;
+    await deleteCachedCanvasFile(file.courseId, file.canvasId);
+    total -= file.size;
+    evicted++;
+  }
+  return evicted;
+}
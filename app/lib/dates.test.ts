@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, fromWallClock, getDateKeyInTimeZone, getDaysBetween, WallClock } from './dates';
+
+// Wall-clock time from a month numbered 1-12, to read like the dates in the test names
+function wall(year: number, month: number, day: number, hour = 0, minute = 0): WallClock {
+  return { year, month: month - 1, day, hour, minute, second: 0 };
+}
+
+describe('fromWallClock', () => {
+  it('reads ordinary times with the offset in effect that day', () => {
+    expect(fromWallClock(wall(2026, 1, 15, 10), 'America/Denver').toISOString()).toBe('2026-01-15T17:00:00.000Z');
+    expect(fromWallClock(wall(2026, 7, 1, 10), 'America/Denver').toISOString()).toBe('2026-07-01T16:00:00.000Z');
+    expect(fromWallClock(wall(2026, 7, 1, 10), 'Europe/Berlin').toISOString()).toBe('2026-07-01T08:00:00.000Z');
+  });
+
+  it('moves times skipped by spring forward ahead by the change', () => {
+    // 2:30am doesn't exist on these days; it becomes 3:30am daylight time
+    expect(fromWallClock(wall(2026, 3, 8, 2, 30), 'America/Denver').toISOString()).toBe('2026-03-08T09:30:00.000Z');
+    expect(fromWallClock(wall(2026, 3, 29, 2, 30), 'Europe/Berlin').toISOString()).toBe('2026-03-29T01:30:00.000Z');
+    expect(fromWallClock(wall(2026, 10, 4, 2, 30), 'Australia/Sydney').toISOString()).toBe('2026-10-03T16:30:00.000Z');
+  });
+
+  it('uses the first of the two times repeated by fall back', () => {
+    expect(fromWallClock(wall(2026, 11, 1, 1, 30), 'America/Denver').toISOString()).toBe('2026-11-01T07:30:00.000Z');
+    expect(fromWallClock(wall(2026, 10, 25, 2, 30), 'Europe/Berlin').toISOString()).toBe('2026-10-25T00:30:00.000Z');
+  });
+
+  it('keeps times on either side of a change exact', () => {
+    expect(fromWallClock(wall(2026, 3, 8, 1, 59), 'America/Denver').toISOString()).toBe('2026-03-08T08:59:00.000Z');
+    expect(fromWallClock(wall(2026, 3, 8, 3), 'America/Denver').toISOString()).toBe('2026-03-08T09:00:00.000Z');
+    expect(fromWallClock(wall(2026, 11, 1, 2), 'America/Denver').toISOString()).toBe('2026-11-01T09:00:00.000Z');
+  });
+});
+
+describe('getDateKeyInTimeZone', () => {
+  it('uses the day in the timezone, not the UTC day', () => {
+    expect(getDateKeyInTimeZone('2026-10-20T03:00:00Z', 'America/Denver')).toBe('2026-10-19');
+    expect(getDateKeyInTimeZone('2026-10-19T23:00:00Z', 'Europe/Berlin')).toBe('2026-10-20');
+  });
+
+  it('moves to the next day at local midnight around the US changes', () => {
+    expect(getDateKeyInTimeZone('2026-03-08T06:59:00Z', 'America/Denver')).toBe('2026-03-07');
+    expect(getDateKeyInTimeZone('2026-03-08T07:00:00Z', 'America/Denver')).toBe('2026-03-08');
+    // Midnight on March 9 is daylight time, an hour earlier in UTC
+    expect(getDateKeyInTimeZone('2026-03-09T05:59:00Z', 'America/Denver')).toBe('2026-03-08');
+    expect(getDateKeyInTimeZone('2026-03-09T06:00:00Z', 'America/Denver')).toBe('2026-03-09');
+    expect(getDateKeyInTimeZone('2026-11-02T06:59:00Z', 'America/Denver')).toBe('2026-11-01');
+    expect(getDateKeyInTimeZone('2026-11-02T07:00:00Z', 'America/Denver')).toBe('2026-11-02');
+  });
+
+  it('moves to the next day at local midnight around the EU changes', () => {
+    expect(getDateKeyInTimeZone('2026-03-28T22:59:00Z', 'Europe/Berlin')).toBe('2026-03-28');
+    expect(getDateKeyInTimeZone('2026-03-29T21:59:00Z', 'Europe/Berlin')).toBe('2026-03-29');
+    expect(getDateKeyInTimeZone('2026-03-29T22:00:00Z', 'Europe/Berlin')).toBe('2026-03-30');
+    expect(getDateKeyInTimeZone('2026-10-25T22:59:00Z', 'Europe/Berlin')).toBe('2026-10-25');
+    expect(getDateKeyInTimeZone('2026-10-25T23:00:00Z', 'Europe/Berlin')).toBe('2026-10-26');
+  });
+});
+
+describe('addDays', () => {
+  it('moves by calendar days across DST changes', () => {
+    expect(addDays('2026-03-07', 1)).toBe('2026-03-08');
+    expect(addDays('2026-03-08', 1)).toBe('2026-03-09');
+    expect(addDays('2026-03-28', 2)).toBe('2026-03-30');
+    expect(addDays('2026-10-25', 1)).toBe('2026-10-26');
+    expect(addDays('2026-11-02', -2)).toBe('2026-10-31');
+  });
+
+  it('rolls over months and years', () => {
+    expect(addDays('2026-12-31', 1)).toBe('2027-01-01');
+    expect(addDays('2028-02-28', 1)).toBe('2028-02-29');
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+  });
+});
+
+describe('getDaysBetween', () => {
+  it('counts whole days across DST changes', () => {
+    expect(getDaysBetween('2026-03-07', '2026-03-09')).toBe(2);
+    expect(getDaysBetween('2026-03-28', '2026-03-30')).toBe(2);
+    expect(getDaysBetween('2026-10-24', '2026-10-26')).toBe(2);
+    expect(getDaysBetween('2026-10-31', '2026-11-02')).toBe(2);
+    expect(getDaysBetween('2026-03-01', '2026-11-30')).toBe(274);
+  });
+
+  it('is negative when the second day is earlier', () => {
+    expect(getDaysBetween('2026-11-02', '2026-10-31')).toBe(-2);
+    expect(getDaysBetween('2026-10-19', '2026-10-19')).toBe(0);
+  });
+
+  it('counts the days between instants a DST change apart in the timezone', () => {
+    // Noon to noon across spring forward is 23 hours but still one day
+    const before = getDateKeyInTimeZone('2026-03-07T19:00:00Z', 'America/Denver');
+    const after = getDateKeyInTimeZone('2026-03-08T18:00:00Z', 'America/Denver');
+    expect(getDaysBetween(before, after)).toBe(1);
+  });
+});
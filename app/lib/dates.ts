@@ -0,0 +1,151 @@
+// Date and timezone helpers, shared by the iCal server action and the UI.
+// Two kinds of values are kept apart:
+//   - instants (Date, ISO timestamps), which are read in the student's timezone setting
+//   - calendar days ("date keys", YYYY-MM-DD), which have no timezone; calendar grids hold them
+//     as Dates at local midnight and only ever read their local year, month and day
+// Never take a date key from toISOString(): that's the UTC day, which is off by one every evening
+// west of UTC and every morning east of it.
+
+export const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface WallClock {
+  year: number;
+  month: number; // 0-11
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Timezone this device is set to
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Wall-clock time of an instant in a timezone (this machine's own timezone when null)
+export function getWallClock(date: Date, timeZone: string | null): WallClock {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth(),
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+    };
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  return {
+    year: part('year'),
+    month: part('month') - 1,
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second'),
+  };
+}
+
+// Wall-clock time stored in the UTC fields of a Date, so date math skips DST changes
+export function toFloating(wall: WallClock): Date {
+  return new Date(Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute, wall.second));
+}
+
+export function fromFloating(date: Date): WallClock {
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth(),
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  };
+}
+
+// Instant at which a timezone's clocks show a wall-clock time. Times skipped by a DST change
+// move forward by the change (2:30am becomes 3:30am); repeated times use the first one.
+export function fromWallClock(wall: WallClock, timeZone: string | null): Date {
+  if (!timeZone) {
+    return new Date(wall.year, wall.month, wall.day, wall.hour, wall.minute, wall.second);
+  }
+
+  const target = toFloating(wall).getTime();
+  // A DST change near the target leaves two candidate offsets: the one before it and the one after
+  const offsetAt = (time: number) => toFloating(getWallClock(new Date(time), timeZone)).getTime() - time;
+  const before = target - offsetAt(target - MS_PER_DAY);
+  const after = target - offsetAt(target + MS_PER_DAY);
+  const matches = [before, after].filter(time => time + offsetAt(time) === target);
+  if (matches.length > 0) {
+    return new Date(Math.min(...matches));
+  }
+  // The time was skipped: reading it with the offset from before the change moves it forward
+  return new Date(before);
+}
+
+// Calendar day of a local-midnight Date (a calendar grid day) as YYYY-MM-DD
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+// YYYY-MM-DD as a local-midnight Date, for calendar grids and date labels
+export function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Calendar day an instant falls on in a timezone
+export function getDateKeyInTimeZone(date: Date | string, timeZone: string): string {
+  const wall = getWallClock(typeof date === 'string' ? new Date(date) : date, timeZone);
+  return toFloating(wall).toISOString().slice(0, 10);
+}
+
+// Move a date key by a number of days
+export function addDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// Whole calendar days from one date key to another (negative when `to` is earlier)
+export function getDaysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / MS_PER_DAY);
+}
+
+// Instant a date key and HH:MM time happen in a timezone (midnight when time is null)
+export function getInstantInTimeZone(dateKey: string, time: string | null, timeZone: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hour, minute] = (time || '00:00').split(':').map(Number);
+  return fromWallClock({ year, month: month - 1, day, hour, minute, second: 0 }, timeZone);
+}
+
+// Minutes since midnight an instant shows in a timezone
+export function getMinutesIntoDay(date: Date | string, timeZone: string): number {
+  const wall = getWallClock(typeof date === 'string' ? new Date(date) : date, timeZone);
+  return wall.hour * 60 + wall.minute;
+}
+
+// Time of day in a timezone, e.g. "3:30 PM"
+export function formatTime(date: Date | string, timeZone: string): string {
+  return new Date(date).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone });
+}
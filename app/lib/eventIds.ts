@@ -0,0 +1,90 @@
+// Source-qualified calendar event IDs, shared by the Canvas and iCal server actions and the UI.
+// Every event's ID names where it came from, so IDs from different sources can't collide and
+// stay the same between refreshes:
+//   canvas:event:<id>                         Canvas calendar event
+//   canvas:assignment:<id>[:override:<id>]    Canvas assignment, one per due date
+//   ical:<feed id>:<uid>[:<occurrence>][:day:<YYYY-MM-DD>]
+//                                             iCal feed event, its occurrence (scheduled start in UTC,
+//                                             e.g. 20261020T150000Z, or 20261020 when all-day) and its
+//                                             day when split
+//   personal:<id>:<YYYY-MM-DD>                Occurrence of a personal task or event
+
+import type { CanvasCalendarEvent } from '../actions/canvas';
+
+const CALENDAR_FEED_CONTEXT_PREFIX = 'ical_feed_';
+
+export type ParsedEventId =
+  | { source: 'canvas'; kind: 'event'; eventId: string }
+  | { source: 'canvas'; kind: 'assignment'; assignmentId: number; overrideId: number | null }
+  | { source: 'ical'; feedId: number; uid: string; occurrenceKey: string | null; dayKey: string | null }
+  | { source: 'personal'; personalEventId: number; dateKey: string };
+
+export function getCanvasEventId(eventId: number | string): string {
+  return `canvas:event:${eventId}`;
+}
+
+export function getCanvasAssignmentEventId(assignmentId: number, overrideId: number | null = null): string {
+  return overrideId === null
+    ? `canvas:assignment:${assignmentId}`
+    : `canvas:assignment:${assignmentId}:override:${overrideId}`;
+}
+
+// UIDs are free text (often containing ":" or "@"), so they're URI-encoded to keep the ID parseable
+export function getICalEventId(feedId: number, uid: string, occurrenceKey: string | null = null, dayKey: string | null = null): string {
+  return [
+    'ical',
+    feedId,
+    encodeURIComponent(uid),
+    ...(occurrenceKey ? [occurrenceKey] : []),
+    ...(dayKey ? ['day', dayKey] : []),
+  ].join(':');
+}
+
+export function getPersonalOccurrenceId(personalEventId: number, dateKey: string): string {
+  return `personal:${personalEventId}:${dateKey}`;
+}
+
+// Split an event ID into its parts, or null if it isn't one of ours
+export function parseEventId(id: string): ParsedEventId | null {
+  const parts = id.split(':');
+
+  if (parts[0] === 'canvas') {
+    if (parts[1] === 'event' && parts.length === 3) {
+      return { source: 'canvas', kind: 'event', eventId: parts[2] };
+    }
+    const assignmentId = parseInt(parts[2], 10);
+    if (parts[1] !== 'assignment' || isNaN(assignmentId)) return null;
+    const overrideId = parts[3] === 'override' ? parseInt(parts[4], 10) : NaN;
+    return { source: 'canvas', kind: 'assignment', assignmentId, overrideId: isNaN(overrideId) ? null : overrideId };
+  }
+
+  if (parts[0] === 'ical') {
+    const feedId = parseInt(parts[1], 10);
+    if (isNaN(feedId) || parts.length < 3) return null;
+    const rest = parts.slice(3);
+    const occurrenceKey = rest[0] && rest[0] !== 'day' ? rest[0] : null;
+    const dayIndex = rest.indexOf('day');
+    const dayKey = dayIndex === -1 ? null : rest[dayIndex + 1] || null;
+    return { source: 'ical', feedId, uid: decodeURIComponent(parts[2]), occurrenceKey, dayKey };
+  }
+
+  if (parts[0] === 'personal') {
+    const personalEventId = parseInt(parts[1], 10);
+    if (isNaN(personalEventId) || !parts[2]) return null;
+    return { source: 'personal', personalEventId, dateKey: parts[2] };
+  }
+
+  return null;
+}
+
+// Context code given to a feed's events
+export function getCalendarFeedContextCode(feedId: number): string {
+  return `${CALENDAR_FEED_CONTEXT_PREFIX}${feedId}`;
+}
+
+// Feed a calendar event came from, if any
+export function getCalendarFeedId(event: Pick<CanvasCalendarEvent, 'context_code'>): number | null {
+  if (!event.context_code.startsWith(CALENDAR_FEED_CONTEXT_PREFIX)) return null;
+  const feedId = parseInt(event.context_code.slice(CALENDAR_FEED_CONTEXT_PREFIX.length), 10);
+  return isNaN(feedId) ? null : feedId;
+}
@@ -0,0 +1,100 @@
+// Exam detection shared by every view: keyword and regex rules matched against titles,
+// per-course overrides, and manual tags that always win. Kept free of browser APIs so
+// it can run anywhere; app/lib/exams.ts loads the student's saved rules.
+
+// A keyword ("midterm", matched as a whole word, plural allowed) or a /regex/flags pattern
+export interface ExamRule {
+  pattern: string;
+  enabled: boolean;
+}
+
+// add: course patterns plus the global rules; replace: only the course patterns; off: never auto-detect
+export type CourseExamMode = 'add' | 'replace' | 'off';
+
+export interface CourseExamOverride {
+  mode: CourseExamMode;
+  patterns: string[];
+}
+
+export interface ExamRuleSettings {
+  rules: ExamRule[];
+  courseOverrides: Record<number, CourseExamOverride>;
+}
+
+export interface ExamCandidate {
+  title: string;
+  courseId?: number | null;
+  taskKey?: string; // Task key (see tasks.ts) used for manual tags
+}
+
+export type ExamClassifier = (candidate: ExamCandidate) => boolean;
+
+export const DEFAULT_EXAM_RULES: ExamRule[] = [
+  { pattern: 'exam', enabled: true },
+  { pattern: 'final', enabled: true },
+  { pattern: 'midterm', enabled: true },
+  { pattern: 'test', enabled: true },
+];
+
+export const DEFAULT_EXAM_RULE_SETTINGS: ExamRuleSettings = {
+  rules: DEFAULT_EXAM_RULES,
+  courseOverrides: {},
+};
+
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+// Check if a pattern is written as a /regex/
+export function isRegexPattern(pattern: string): boolean {
+  return REGEX_PATTERN.test(pattern.trim());
+}
+
+// Compile a rule pattern (always case-insensitive), or null if it's empty or invalid
+export function compileExamPattern(pattern: string): RegExp | null {
+  const trimmed = pattern.trim();
+  if (!trimmed) return null;
+
+  const regexMatch = trimmed.match(REGEX_PATTERN);
+  try {
+    if (regexMatch) {
+      const flags = regexMatch[2].replace(/[gy]/g, '');
+      return new RegExp(regexMatch[1], flags.includes('i') ? flags : flags + 'i');
+    }
+    const escaped = trimmed.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`\\b${escaped}(e?s)?\\b`, 'i');
+  } catch {
+    return null;
+  }
+}
+
+// Explain why a pattern can't be used, or null if it's fine
+export function validateExamPattern(pattern: string): string | null {
+  if (!pattern.trim()) return 'Enter a keyword or /regex/';
+  return compileExamPattern(pattern) ? null : 'That regular expression is not valid';
+}
+
+/**
+ * Build a classifier from the student's rules and manual tags. Patterns are compiled once,
+ * so build it when the rules change rather than per item.
+ */
+export function createExamClassifier(settings: ExamRuleSettings, tags: Record<string, boolean> = {}): ExamClassifier {
+  const compile = (patterns: string[]) =>
+    patterns.map(compileExamPattern).filter((regex): regex is RegExp => regex !== null);
+
+  const globalPatterns = compile(settings.rules.filter(rule => rule.enabled).map(rule => rule.pattern));
+  const coursePatterns = new Map<number, RegExp[]>();
+  Object.entries(settings.courseOverrides).forEach(([courseId, override]) => {
+    const own = compile(override.patterns);
+    coursePatterns.set(
+      Number(courseId),
+      override.mode === 'off' ? [] : override.mode === 'replace' ? own : [...globalPatterns, ...own]
+    );
+  });
+
+  return (candidate: ExamCandidate) => {
+    if (candidate.taskKey && candidate.taskKey in tags) {
+      return tags[candidate.taskKey];
+    }
+    const patterns = (candidate.courseId && coursePatterns.get(candidate.courseId)) || globalPatterns;
+    return patterns.some(regex => regex.test(candidate.title));
+  };
+}
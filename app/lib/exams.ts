@@ -0,0 +1,83 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { getExamRuleSettings, getExamTags, PersonalEvent, TaskState } from './courseStorage';
+import { createExamClassifier, DEFAULT_EXAM_RULE_SETTINGS, ExamClassifier } from './examRules';
+import { expandPersonalEvents } from './personalEvents';
+import { getDateKeyInTimeZone, addDays } from './dates';
+import { getCalendarEventTaskKey } from './tasks';
+
+// The classifier is rebuilt only when rules or tags change, since it compiles every pattern
+let cachedClassifier: ExamClassifier | null = null;
+const defaultClassifier = createExamClassifier(DEFAULT_EXAM_RULE_SETTINGS);
+
+function subscribeToExamRules(onChange: () => void): () => void {
+  const handleChange = () => {
+    cachedClassifier = null;
+    onChange();
+  };
+  window.addEventListener('examRulesChanged', handleChange);
+  // Another tab changed the rules
+  window.addEventListener('storage', handleChange);
+  return () => {
+    window.removeEventListener('examRulesChanged', handleChange);
+    window.removeEventListener('storage', handleChange);
+  };
+}
+
+let isListeningForChanges = false;
+
+// Get the exam classifier for the student's saved rules and tags
+export function getExamClassifier(): ExamClassifier {
+  if (typeof window === 'undefined') return defaultClassifier;
+
+  // Code outside React (notifications, effects) uses this too, so drop the cache on every change
+  if (!isListeningForChanges) {
+    isListeningForChanges = true;
+    subscribeToExamRules(() => {});
+  }
+  if (!cachedClassifier) {
+    cachedClassifier = createExamClassifier(getExamRuleSettings(), getExamTags());
+  }
+  return cachedClassifier;
+}
+
+// Get the exam classifier, re-rendering when rules or tags change
+export function useExamClassifier(): ExamClassifier {
+  return useSyncExternalStore(subscribeToExamRules, getExamClassifier, () => defaultClassifier);
+}
+
+// Days before an exam whose personal tasks count toward studying for it
+const STUDY_PLAN_DAYS = 14;
+
+export interface StudyProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * Study-plan progress for an exam: the personal tasks attached to its course in the two weeks
+ * leading up to it, and how many of them are marked done. Null when none are planned.
+ */
+export function getStudyProgress(
+  personalEvents: PersonalEvent[],
+  taskStates: Record<string, TaskState>,
+  courseId: number,
+  examDate: Date,
+  timeZone: string
+): StudyProgress | null {
+  const examDateKey = getDateKeyInTimeZone(examDate, timeZone);
+
+  const studyTasks = expandPersonalEvents(
+    personalEvents.filter(event => event.kind === 'task' && event.courseId === courseId),
+    addDays(examDateKey, -STUDY_PLAN_DAYS),
+    examDateKey,
+    timeZone
+  ).filter(event => new Date(event.start_at) < examDate);
+
+  if (studyTasks.length === 0) return null;
+  return {
+    done: studyTasks.filter(event => taskStates[getCalendarEventTaskKey(event)]?.done).length,
+    total: studyTasks.length,
+  };
+}
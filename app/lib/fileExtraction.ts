@@ -1,14 +1,26 @@
 'use client';
 
+export interface TextSegment {
+  kind: 'page' | 'slide';
+  number: number; // 1-based page or slide number
+  text: string;
+}
+
 export interface ExtractedText {
   fileName: string;
   text: string;
+  segments?: TextSegment[]; // Per-page (PDF) or per-slide (PPTX) text, for page-level citations
+}
+
+interface ExtractedContent {
+  text: string;
+  segments?: TextSegment[];
 }
 
 /**
  * Extract text from a PDF file
  */
-async function extractTextFromPDF(fileData: string): Promise<string> {
+async function extractTextFromPDF(fileData: string): Promise<ExtractedContent> {
   try {
     const pdfjsLib = await import('pdfjs-dist');
     
@@ -29,6 +41,7 @@ async function extractTextFromPDF(fileData: string): Promise<string> {
     const pdf = await loadingTask.promise;
     
     let fullText = '';
+    const segments: TextSegment[] = [];
     for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
       const page = await pdf.getPage(pageNum);
       const textContent = await page.getTextContent();
@@ -36,12 +49,15 @@ async function extractTextFromPDF(fileData: string): Promise<string> {
         .map((item: any) => item.str)
         .join(' ');
       fullText += pageText + '\n';
+      if (pageText.trim()) {
+        segments.push({ kind: 'page', number: pageNum, text: pageText.trim() });
+      }
     }
     
-    return fullText.trim();
+    return { text: fullText.trim(), segments };
   } catch (error) {
     console.error('Error extracting text from PDF:', error);
-    return '';
+    return { text: '' };
   }
 }
 
@@ -116,7 +132,7 @@ async function extractTextFromXlsx(fileData: string): Promise<string> {
 /**
  * Extract text from a PowerPoint file (.pptx)
  */
-async function extractTextFromPptx(fileData: string): Promise<string> {
+async function extractTextFromPptx(fileData: string): Promise<ExtractedContent> {
   try {
     const JSZip = (await import('jszip')).default;
     
@@ -131,6 +147,7 @@ async function extractTextFromPptx(fileData: string): Promise<string> {
     const zip = await JSZip.loadAsync(bytes.buffer);
     
     let fullText = '';
+    const segments: TextSegment[] = [];
     
     // PPTX files contain slides in ppt/slides/slide*.xml
     const slideFiles: Array<{ name: string; async: (type: string) => Promise<string> }> = [];
@@ -166,13 +183,14 @@ async function extractTextFromPptx(fileData: string): Promise<string> {
       
       if (slideText.trim()) {
         fullText += `Slide ${i + 1}:\n${slideText}\n\n`;
+        segments.push({ kind: 'slide', number: i + 1, text: slideText.trim() });
       }
     }
     
-    return fullText.trim();
+    return { text: fullText.trim(), segments };
   } catch (error) {
     console.error('Error extracting text from PPTX:', error);
-    return '';
+    return { text: '' };
   }
 }
 
@@ -194,6 +212,13 @@ function extractTextFromText(fileData: string): string {
  * Extract text from a file based on its MIME type
  */
 export async function extractTextFromFile(fileName: string, fileType: string, fileData: string): Promise<string> {
+  return (await extractContentFromFile(fileName, fileType, fileData)).text;
+}
+
+/**
+ * Extract text from a file, keeping page/slide boundaries for PDFs and PowerPoint files
+ */
+async function extractContentFromFile(fileName: string, fileType: string, fileData: string): Promise<ExtractedContent> {
   const lowerFileName = fileName.toLowerCase();
   
   // PDF files
@@ -206,7 +231,7 @@ export async function extractTextFromFile(fileName: string, fileType: string, fi
     fileType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
     lowerFileName.endsWith('.docx')
   ) {
-    return await extractTextFromDocx(fileData);
+    return { text: await extractTextFromDocx(fileData) };
   }
   
   // Excel files (.xlsx)
@@ -214,7 +239,7 @@ export async function extractTextFromFile(fileName: string, fileType: string, fi
     fileType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
     lowerFileName.endsWith('.xlsx')
   ) {
-    return await extractTextFromXlsx(fileData);
+    return { text: await extractTextFromXlsx(fileData) };
   }
   
   // PowerPoint files (.pptx)
@@ -231,29 +256,32 @@ export async function extractTextFromFile(fileName: string, fileType: string, fi
     lowerFileName.endsWith('.txt') ||
     lowerFileName.endsWith('.md')
   ) {
-    return extractTextFromText(fileData);
+    return { text: extractTextFromText(fileData) };
   }
   
   // For other file types, return empty string
   console.warn(`Unsupported file type for text extraction: ${fileType} (${fileName})`);
-  return '';
+  return { text: '' };
 }
 
 /**
  * Extract text from multiple files
+ * Files without any text are skipped, so each result carries the input file it came from
  */
-export async function extractTextFromFiles(
-  files: Array<{ name: string; type: string; data: string }>
-): Promise<ExtractedText[]> {
-  const extractedTexts: ExtractedText[] = [];
+export async function extractTextFromFiles<T extends { name: string; type: string; data: string }>(
+  files: T[]
+): Promise<Array<ExtractedText & { file: T }>> {
+  const extractedTexts: Array<ExtractedText & { file: T }> = [];
   
   for (const file of files) {
     try {
-      const text = await extractTextFromFile(file.name, file.type, file.data);
+      const { text, segments } = await extractContentFromFile(file.name, file.type, file.data);
       if (text && text.trim().length > 0) {
         extractedTexts.push({
           fileName: file.name,
-          text: text
+          text: text,
+          segments,
+          file
         });
       }
     } catch (error) {
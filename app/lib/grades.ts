@@ -0,0 +1,220 @@
+// Grade calculations from Canvas assignment groups, mirroring how Canvas computes
+// the "current" score: only graded, non-excused assignments count, drop rules apply
+// per group, and weighted courses rescale over the groups that have grades.
+
+import type { CanvasAssignment, CanvasAssignmentGroup, CanvasCourseGrades } from '../actions/canvas';
+
+// Hypothetical scores by assignment ID (null clears a real score)
+export type ScoreOverrides = Record<number, number | null>;
+
+export interface AssignmentGrade {
+  id: number;
+  name: string;
+  score: number | null; // null if not graded yet
+  pointsPossible: number;
+  excused: boolean;
+  dropped: boolean;
+  hypothetical: boolean; // Score comes from ScoreOverrides
+  dueAt: string | null;
+  htmlUrl: string;
+}
+
+export interface GroupGrade {
+  id: number;
+  name: string;
+  weight: number; // Percent of the final grade (0 when the course doesn't weight groups)
+  earned: number;
+  possible: number;
+  percent: number | null; // null if nothing in the group is graded
+  gradedCount: number;
+  assignments: AssignmentGrade[];
+}
+
+export interface CourseGrade {
+  percent: number | null;
+  groups: GroupGrade[];
+}
+
+function toAssignmentGrade(assignment: CanvasAssignment, overrides: ScoreOverrides): AssignmentGrade {
+  const submission = assignment.submission;
+  const hypothetical = assignment.id in overrides;
+  const excused = !hypothetical && !!submission?.excused;
+  const score = hypothetical
+    ? overrides[assignment.id]
+    : (submission && !excused && submission.score !== null && submission.score !== undefined ? submission.score : null);
+
+  return {
+    id: assignment.id,
+    name: assignment.name,
+    score,
+    pointsPossible: assignment.points_possible || 0,
+    excused,
+    dropped: false,
+    hypothetical,
+    dueAt: assignment.due_at,
+    htmlUrl: assignment.html_url,
+  };
+}
+
+// Mark the lowest/highest scores the group's drop rules remove, keeping at least one score
+function applyDropRules(group: CanvasAssignmentGroup, graded: AssignmentGrade[]): void {
+  const neverDrop = new Set(group.rules?.never_drop || []);
+  const droppable = graded
+    .filter(assignment => !neverDrop.has(assignment.id) && assignment.pointsPossible > 0)
+    .sort((a, b) => (a.score as number) / a.pointsPossible - (b.score as number) / b.pointsPossible);
+
+  const maxDrops = Math.max(0, graded.length - 1);
+  const dropLowest = Math.min(group.rules?.drop_lowest || 0, maxDrops);
+  const dropHighest = Math.min(group.rules?.drop_highest || 0, maxDrops - dropLowest);
+
+  droppable.slice(0, dropLowest).forEach(assignment => { assignment.dropped = true; });
+  droppable.slice(droppable.length - dropHighest).forEach(assignment => { assignment.dropped = true; });
+}
+
+// Score one assignment group
+export function calculateGroupGrade(
+  group: CanvasAssignmentGroup,
+  weighted: boolean,
+  overrides: ScoreOverrides = {}
+): GroupGrade {
+  const assignments = (group.assignments || [])
+    .filter(assignment => !assignment.omit_from_final_grade)
+    .map(assignment => toAssignmentGrade(assignment, overrides));
+
+  const graded = assignments.filter(assignment => assignment.score !== null);
+  applyDropRules(group, graded);
+
+  const counted = graded.filter(assignment => !assignment.dropped);
+  const earned = counted.reduce((sum, assignment) => sum + (assignment.score as number), 0);
+  const possible = counted.reduce((sum, assignment) => sum + assignment.pointsPossible, 0);
+
+  return {
+    id: group.id,
+    name: group.name,
+    weight: weighted ? group.group_weight || 0 : 0,
+    earned,
+    possible,
+    percent: possible > 0 ? (earned / possible) * 100 : null,
+    gradedCount: graded.length,
+    assignments,
+  };
+}
+
+/**
+ * Calculate the course's current score from its assignment groups.
+ * Pass overrides to see what the score would be with hypothetical scores.
+ */
+export function calculateCourseGrade(grades: CanvasCourseGrades, overrides: ScoreOverrides = {}): CourseGrade {
+  const groups = grades.assignmentGroups.map(group =>
+    calculateGroupGrade(group, grades.applyGroupWeights, overrides)
+  );
+
+  let percent: number | null = null;
+  if (grades.applyGroupWeights) {
+    // Canvas rescales over the weights of groups that have graded work
+    const scoredGroups = groups.filter(group => group.percent !== null && group.weight > 0);
+    const totalWeight = scoredGroups.reduce((sum, group) => sum + group.weight, 0);
+    if (totalWeight > 0) {
+      percent = scoredGroups.reduce((sum, group) => sum + (group.percent as number) * group.weight, 0) / totalWeight;
+    }
+  } else {
+    const earned = groups.reduce((sum, group) => sum + group.earned, 0);
+    const possible = groups.reduce((sum, group) => sum + group.possible, 0);
+    percent = possible > 0 ? (earned / possible) * 100 : null;
+  }
+
+  return { percent, groups };
+}
+
+// Format a percentage like Canvas does ("92.45%"), or a dash when there is no score
+export function formatPercent(percent: number | null): string {
+  if (percent === null || isNaN(percent)) return '–';
+  return `${Math.round(percent * 100) / 100}%`;
+}
+
+// Tailwind text color for a score
+export function getScoreColorClass(percent: number | null): string {
+  if (percent === null) return 'text-gray-500';
+  if (percent >= 90) return 'text-green-700';
+  if (percent >= 80) return 'text-[#002E5D]';
+  if (percent >= 70) return 'text-yellow-700';
+  return 'text-red-700';
+}
+
+export interface GradeCutoff {
+  letter: string;
+  minPercent: number;
+}
+
+// BYU's standard letter grade scale (Canvas's default scheme for BYU courses)
+export const DEFAULT_GRADE_CUTOFFS: GradeCutoff[] = [
+  { letter: 'A', minPercent: 93 },
+  { letter: 'A-', minPercent: 90 },
+  { letter: 'B+', minPercent: 87 },
+  { letter: 'B', minPercent: 83 },
+  { letter: 'B-', minPercent: 80 },
+  { letter: 'C+', minPercent: 77 },
+  { letter: 'C', minPercent: 73 },
+  { letter: 'C-', minPercent: 70 },
+  { letter: 'D+', minPercent: 67 },
+  { letter: 'D', minPercent: 63 },
+  { letter: 'D-', minPercent: 60 },
+];
+
+// Letter grade for a percentage on the default scale
+export function getLetterGrade(percent: number | null): string | null {
+  if (percent === null) return null;
+  return DEFAULT_GRADE_CUTOFFS.find(cutoff => percent >= cutoff.minPercent)?.letter || 'E';
+}
+
+export type MinimumScoreStatus = 'needed' | 'already-met' | 'unreachable';
+
+export interface MinimumScoreResult {
+  status: MinimumScoreStatus;
+  score: number | null; // Points needed when status is 'needed'
+  pointsPossible: number;
+  percentAtMaximum: number | null; // Course percent with full marks on the assignment
+}
+
+/**
+ * Find the lowest score on one assignment that brings the course to targetPercent,
+ * keeping any other hypothetical scores in overrides. The course percent never goes
+ * down as that score goes up, so a binary search over [0, points possible] is enough.
+ */
+export function solveMinimumScore(
+  grades: CanvasCourseGrades,
+  assignmentId: number,
+  targetPercent: number,
+  overrides: ScoreOverrides = {}
+): MinimumScoreResult {
+  const assignment = grades.assignmentGroups
+    .flatMap(group => group.assignments || [])
+    .find(candidate => candidate.id === assignmentId);
+  const pointsPossible = assignment?.points_possible || 0;
+
+  const percentWith = (score: number) =>
+    calculateCourseGrade(grades, { ...overrides, [assignmentId]: score }).percent ?? 0;
+
+  const percentAtMaximum = pointsPossible > 0 ? percentWith(pointsPossible) : null;
+  if (percentAtMaximum === null || percentAtMaximum < targetPercent) {
+    return { status: 'unreachable', score: null, pointsPossible, percentAtMaximum };
+  }
+  if (percentWith(0) >= targetPercent) {
+    return { status: 'already-met', score: 0, pointsPossible, percentAtMaximum };
+  }
+
+  let low = 0;
+  let high = pointsPossible;
+  for (let i = 0; i < 40 && high - low > 0.001; i++) {
+    const mid = (low + high) / 2;
+    if (percentWith(mid) >= targetPercent) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+
+  // Round up to the hundredth so the score shown is always enough
+  const score = Math.min(pointsPossible, Math.ceil(high * 100) / 100);
+  return { status: 'needed', score, pointsPossible, percentAtMaximum };
+}
@@ -0,0 +1,161 @@
+// iCalendar (RFC 5545) export of Canvas assignments, Canvas events and personal tasks,
+// used by the /api/calendar route. Kept free of browser APIs so it runs on the server.
+
+import type { CanvasCalendarEvent } from '../actions/canvas';
+import type { PersonalEvent, PersonalEventRecurrence } from './courseStorage';
+import { addDays } from './dates';
+
+const PRODUCT_ID = '-//Junior Ledger//Calendar Export//EN';
+const UID_DOMAIN = 'junior-ledger';
+const MAX_LINE_OCTETS = 75;
+
+export type ICalExportSection = 'assignments' | 'events' | 'personal';
+
+export const ICAL_EXPORT_SECTIONS: ICalExportSection[] = ['assignments', 'events', 'personal'];
+
+const RECURRENCE_RULES: Record<PersonalEventRecurrence, string | null> = {
+  none: null,
+  daily: 'FREQ=DAILY',
+  weekly: 'FREQ=WEEKLY',
+  biweekly: 'FREQ=WEEKLY;INTERVAL=2',
+  monthly: 'FREQ=MONTHLY',
+};
+
+// Escape a TEXT value (commas, semicolons, backslashes and newlines)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Split a content line into 75-octet pieces, continuing each with a leading space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const pieces: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      pieces.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  pieces.push(current);
+
+  return pieces.join('\r\n ');
+}
+
+// UTC date-time, e.g. 20261020T153000Z
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// YYYY-MM-DD as a DATE value
+function formatDate(dateKey: string): string {
+  return dateKey.replace(/-/g, '');
+}
+
+// YYYY-MM-DD and HH:MM as a floating DATE-TIME (shown in the subscriber's own timezone)
+function formatFloatingDateTime(dateKey: string, time: string): string {
+  return `${formatDate(dateKey)}T${time.replace(':', '')}00`;
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/[ \t]+/g, ' ').trim();
+}
+
+function buildEvent(properties: (string | null)[], alarmMinutes: number | null, alarmText: string): string[] {
+  const lines = ['BEGIN:VEVENT', ...properties.filter((line): line is string => line !== null)];
+  if (alarmMinutes !== null) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(alarmText)}`,
+      alarmMinutes === 0 ? 'TRIGGER:PT0M' : `TRIGGER:-PT${alarmMinutes}M`,
+      'END:VALARM'
+    );
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * VEVENT lines for a Canvas assignment or calendar event. Assignments are zero-length events
+ * at their due time; courseName is added as a category and in front of the title.
+ */
+export function canvasEventToICal(event: CanvasCalendarEvent, courseName: string | null, now: Date = new Date()): string[] {
+  const isAssignment = event.type === 'assignment';
+  const start = new Date(event.start_at);
+  const end = event.end_at ? new Date(event.end_at) : null;
+  const hasDuration = !isAssignment && end !== null && end.getTime() > start.getTime();
+
+  const timing = event.all_day && event.all_day_date
+    ? [`DTSTART;VALUE=DATE:${formatDate(event.all_day_date)}`, `DTEND;VALUE=DATE:${formatDate(addDays(event.all_day_date, 1))}`]
+    : [`DTSTART:${formatUtcDateTime(start)}`, hasDuration ? `DTEND:${formatUtcDateTime(end as Date)}` : null];
+
+  return buildEvent([
+    `UID:${event.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+    ...timing,
+    `SUMMARY:${escapeText(courseName ? `${courseName}: ${event.title}` : event.title)}`,
+    event.description ? `DESCRIPTION:${escapeText(stripHtml(event.description))}` : null,
+    event.location_name ? `LOCATION:${escapeText([event.location_name, event.location_address].filter(Boolean).join(', '))}` : null,
+    event.html_url ? `URL:${event.html_url}` : null,
+    `CATEGORIES:${escapeText(isAssignment ? 'Assignment' : 'Canvas Event')}${courseName ? `,${escapeText(courseName)}` : ''}`,
+    event.updated_at ? `LAST-MODIFIED:${formatUtcDateTime(new Date(event.updated_at))}` : null,
+  ], null, event.title);
+}
+
+/**
+ * VEVENT lines for a personal task or event, with its repeat rule and reminder. Times are
+ * floating, so they stay at the same wall-clock time wherever the calendar app is.
+ */
+export function personalEventToICal(event: PersonalEvent, courseName: string | null, now: Date = new Date()): string[] {
+  const isAllDay = !event.startTime;
+  const timing = isAllDay
+    ? [`DTSTART;VALUE=DATE:${formatDate(event.date)}`, `DTEND;VALUE=DATE:${formatDate(addDays(event.date, 1))}`]
+    : [
+        `DTSTART:${formatFloatingDateTime(event.date, event.startTime as string)}`,
+        event.endTime ? `DTEND:${formatFloatingDateTime(event.date, event.endTime)}` : null,
+      ];
+
+  const rule = RECURRENCE_RULES[event.recurrence];
+  const until = event.recurrenceUntil
+    ? (isAllDay ? formatDate(event.recurrenceUntil) : formatFloatingDateTime(event.recurrenceUntil, '23:59'))
+    : null;
+
+  return buildEvent([
+    `UID:personal-${event.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+    ...timing,
+    rule ? `RRULE:${rule}${until ? `;UNTIL=${until}` : ''}` : null,
+    `SUMMARY:${escapeText(event.title)}`,
+    event.notes ? `DESCRIPTION:${escapeText(event.notes)}` : null,
+    event.location ? `LOCATION:${escapeText(event.location)}` : null,
+    `CATEGORIES:${escapeText(event.kind === 'task' ? 'Task' : 'Personal')}${courseName ? `,${escapeText(courseName)}` : ''}`,
+    `CREATED:${formatUtcDateTime(new Date(event.createdAt))}`,
+  ], event.reminderMinutes, event.title);
+}
+
+// Wrap VEVENT lines in a VCALENDAR with CRLF line endings and folded lines
+export function buildICalendar(calendarName: string, eventLines: string[][]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...eventLines.flat(),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
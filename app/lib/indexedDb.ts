@@ -0,0 +1,101 @@
+'use client';
+
+// Minimal promise wrapper around IndexedDB for the large caches (uploaded files,
+// downloaded Canvas files and extracted text) that don't fit in localStorage, and for
+// data the service worker (public/sw.js) needs, since it can't read localStorage.
+
+const DB_NAME = 'junior-ledger';
+const DB_VERSION = 2;
+
+export const UPLOADED_FILES_STORE = 'uploaded-files';
+export const CANVAS_FILES_STORE = 'canvas-files';
+export const EXTRACTED_TEXT_STORE = 'extracted-text';
+export const NOTIFICATION_SCHEDULE_STORE = 'notification-schedule'; // Also read by public/sw.js
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+// Wrap an IDBRequest in a promise
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Open (and create/upgrade) the database, reusing the connection for the page's lifetime
+export function openDatabase(): Promise<IDBDatabase> {
+  if (typeof window === 'undefined' || !window.indexedDB) {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(UPLOADED_FILES_STORE)) {
+          // Uploaded files keyed by file ID, grouped by course ('semester' for semester documents)
+          const store = db.createObjectStore(UPLOADED_FILES_STORE, { keyPath: 'id' });
+          store.createIndex('scope', 'scope');
+        }
+        if (!db.objectStoreNames.contains(CANVAS_FILES_STORE)) {
+          const store = db.createObjectStore(CANVAS_FILES_STORE, { keyPath: ['courseId', 'canvasId'] });
+          store.createIndex('courseId', 'courseId');
+        }
+        if (!db.objectStoreNames.contains(EXTRACTED_TEXT_STORE)) {
+          db.createObjectStore(EXTRACTED_TEXT_STORE, { keyPath: 'courseId' });
+        }
+        if (!db.objectStoreNames.contains(NOTIFICATION_SCHEDULE_STORE)) {
+          db.createObjectStore(NOTIFICATION_SCHEDULE_STORE, { keyPath: 'id' });
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Step aside when a newer version of the app upgrades the database in another tab
+        db.onversionchange = () => {
+          db.close();
+          databasePromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab'));
+    }).catch(error => {
+      // Let the next call try again instead of caching the failure
+      databasePromise = null;
+      throw error;
+    });
+  }
+
+  return databasePromise;
+}
+
+// Run `work` inside a transaction and resolve with its result once the transaction commits
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+  });
+
+  // Await both together: a failing request also aborts the transaction, and `done`'s
+  // rejection must not go unhandled when `work` rejects first
+  const [result] = await Promise.all([work(transaction.objectStore(storeName)), done]);
+  return result;
+}
+
+// Whether an error means the browser refused to store more data
+export function isQuotaExceededError(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.code === 22)
+  );
+}
@@ -0,0 +1,72 @@
+// Deterministic fake provider for offline development and tests.
+// Replies describe what the assistant was asked, so prompts can be checked without a real model.
+// Set FAKE_LLM_DELAY_MS to slow the stream down and exercise the streaming UI.
+
+import { LLMProvider, LLMRequest } from './types';
+
+const EMBEDDING_DIMENSIONS = 64;
+
+function buildReply(request: LLMRequest): string {
+  const historyTurns = request.history?.length || 0;
+  const systemChars = request.systemPrompt?.length || 0;
+  return `[fake] You said: "${request.message}". (${historyTurns} earlier turn${historyTurns !== 1 ? 's' : ''}, ${systemChars} characters of instructions)`;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (ms <= 0 || signal?.aborted) return resolve();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+// Small, stable string hash (FNV-1a)
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Hashed bag-of-words vector: texts that share words get similar embeddings
+function embedText(text: string): number[] {
+  const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+  const tokens = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+  tokens.forEach(token => {
+    vector[hashToken(token) % EMBEDDING_DIMENSIONS] += 1;
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+export function createFakeProvider(): LLMProvider {
+  const chunkDelayMs = parseInt(process.env.FAKE_LLM_DELAY_MS || '0', 10) || 0;
+
+  return {
+    name: 'fake',
+
+    async generate(request: LLMRequest): Promise<string> {
+      return buildReply(request);
+    },
+
+    async *stream(request: LLMRequest, signal?: AbortSignal): AsyncGenerator<string> {
+      const words = buildReply(request).split(' ');
+      for (let i = 0; i < words.length; i++) {
+        const word = i < words.length - 1 ? `${words[i]} ` : words[i];
+        if (signal?.aborted) return;
+        await delay(chunkDelayMs, signal);
+        yield word;
+      }
+    },
+
+    async embed(texts: string[]): Promise<number[][]> {
+      return texts.map(embedText);
+    },
+  };
+}
@@ -0,0 +1,142 @@
+// Google Gemini provider (the default). Reads GOOGLE_GENERATIVE_AI_API_KEY or GOOGLE_AI_API_KEY.
+
+import { GoogleGenerativeAI, GenerativeModel, Content } from '@google/generative-ai';
+import { LLMProvider, LLMRequest, LLMMessage } from './types';
+
+// Based on available models: Gemini 3 Flash Preview first, then fallbacks
+// Try models in order: Gemini 3 Flash Preview -> Gemini 2.5 Flash -> Gemini 2.0 Flash, etc.
+// Override with a comma-separated GEMINI_MODELS list in .env.local.
+const DEFAULT_MODEL_NAMES = [
+  'gemini-3-flash',        // Gemini 3 Flash Preview - try first
+  'gemini-3.0-flash',      // Gemini 3 Flash Preview (alternative format)
+  'gemini-2.5-flash',      // Gemini 2.5 Flash - stable fallback
+  'gemini-2.5-pro',        // Gemini 2.5 Pro
+  'gemini-2.0-flash',      // Gemini 2.0 Flash - most stable
+  'gemini-3-pro',          // Gemini 3 Pro Preview
+  'gemini-1.5-flash',      // Fallback
+  'gemini-1.5-pro'         // Fallback
+];
+
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-004';
+
+function getApiKey(): string {
+  return process.env.GOOGLE_GENERATIVE_AI_API_KEY || process.env.GOOGLE_AI_API_KEY || '';
+}
+
+function getModelNames(): string[] {
+  const configured = (process.env.GEMINI_MODELS || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_MODEL_NAMES;
+}
+
+// Throw if the Google AI API key is missing or obviously malformed
+function assertApiKeyConfigured(): void {
+  const apiKey = getApiKey();
+
+  if (!apiKey) {
+    throw new Error('Google AI API key is not configured');
+  }
+
+  // Validate API key format (should start with AIza and be ~39 chars)
+  if (!apiKey.startsWith('AIza') || apiKey.length < 35) {
+    throw new Error('API key format appears invalid. Google AI API keys should start with "AIza" and be approximately 39 characters long.');
+  }
+}
+
+// Convert turns to Gemini chat content, merging consecutive turns from the same speaker
+function toGeminiHistory(turns: LLMMessage[]): Content[] {
+  const contents: Content[] = [];
+  turns.forEach(turn => {
+    const role = turn.role === 'user' ? 'user' : 'model';
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts.push({ text: turn.text });
+    } else {
+      contents.push({ role, parts: [{ text: turn.text }] });
+    }
+  });
+
+  // Gemini rejects chat history that doesn't start with a user turn
+  while (contents.length > 0 && contents[0].role !== 'user') {
+    contents.shift();
+  }
+  return contents;
+}
+
+export function createGeminiProvider(): LLMProvider {
+  const genAI = new GoogleGenerativeAI(getApiKey());
+
+  // Run a Gemini call, trying the other configured models if the first one isn't available
+  const runWithModelFallback = async <T>(
+    run: (model: GenerativeModel) => Promise<T>,
+    systemInstruction?: string
+  ): Promise<T> => {
+    assertApiKeyConfigured();
+    const modelNames = getModelNames();
+    const modelName = modelNames[0];
+
+    try {
+      return await run(genAI.getGenerativeModel({ model: modelName, systemInstruction }));
+    } catch (modelError) {
+      // If the model doesn't exist, try other available models
+      const modelErrorMessage = modelError instanceof Error ? modelError.message : '';
+      if (!(modelErrorMessage.includes('not found') || modelErrorMessage.includes('404'))) {
+        throw modelError;
+      }
+
+      console.log(`Model ${modelName} not found, trying alternatives...`);
+
+      // Try other models from the list
+      for (const altName of modelNames) {
+        if (altName === modelName) continue;
+        try {
+          const result = await run(genAI.getGenerativeModel({ model: altName, systemInstruction }));
+          console.log(`Successfully used model: ${altName}`);
+          return result;
+        } catch {
+          continue;
+        }
+      }
+
+      throw new Error(`No available models found. Available models in your account: Gemini 2.0 Flash, Gemini 2.5 Flash, Gemini 2.5 Pro, etc. Please check Google AI Studio for the exact model identifier.`);
+    }
+  };
+
+  return {
+    name: 'gemini',
+
+    async generate(request: LLMRequest, signal?: AbortSignal): Promise<string> {
+      const result = await runWithModelFallback(
+        model => model.startChat({ history: toGeminiHistory(request.history || []) }).sendMessage(request.message, { signal }),
+        request.systemPrompt
+      );
+      return result.response.text();
+    },
+
+    async *stream(request: LLMRequest, signal?: AbortSignal): AsyncGenerator<string> {
+      const result = await runWithModelFallback(
+        model => model.startChat({ history: toGeminiHistory(request.history || []) }).sendMessageStream(request.message, { signal }),
+        request.systemPrompt
+      );
+
+      for await (const chunk of result.stream) {
+        if (signal?.aborted) return;
+        const text = chunk.text();
+        if (text) yield text;
+      }
+    },
+
+    async embed(texts: string[]): Promise<number[][]> {
+      assertApiKeyConfigured();
+      if (texts.length === 0) return [];
+
+      const model = genAI.getGenerativeModel({ model: process.env.GEMINI_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL });
+      const result = await model.batchEmbedContents({
+        requests: texts.map(text => ({ content: { role: 'user', parts: [{ text }] } })),
+      });
+      return result.embeddings.map(embedding => embedding.values);
+    },
+  };
+}
@@ -0,0 +1,36 @@
+// Picks the language model provider from LLM_PROVIDER: "gemini" (default), "openai" or "fake".
+
+import { LLMProvider } from './types';
+import { createGeminiProvider } from './gemini';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { createFakeProvider } from './fake';
+
+export type { LLMProvider, LLMRequest, LLMMessage } from './types';
+
+let cachedProvider: LLMProvider | null = null;
+let cachedProviderName: string | null = null;
+
+export function getLLMProvider(): LLMProvider {
+  const providerName = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+  if (cachedProvider && cachedProviderName === providerName) {
+    return cachedProvider;
+  }
+
+  switch (providerName) {
+    case 'gemini':
+      cachedProvider = createGeminiProvider();
+      break;
+    case 'openai':
+    case 'openai-compatible':
+      cachedProvider = createOpenAICompatibleProvider();
+      break;
+    case 'fake':
+      cachedProvider = createFakeProvider();
+      break;
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${providerName}". Use "gemini", "openai" or "fake".`);
+  }
+
+  cachedProviderName = providerName;
+  return cachedProvider;
+}
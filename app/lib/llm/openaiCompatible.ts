@@ -0,0 +1,129 @@
+// OpenAI-compatible HTTP provider. Works with OpenAI itself and with local servers that
+// expose the same API (Ollama at http://localhost:11434/v1, llama.cpp's server, LM Studio).
+// Configure with LLM_BASE_URL, LLM_MODEL, LLM_EMBEDDING_MODEL and (if required) LLM_API_KEY.
+
+import { LLMProvider, LLMRequest } from './types';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+function getBaseUrl(): string {
+  return (process.env.LLM_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+}
+
+function getHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (process.env.LLM_API_KEY) {
+    headers['Authorization'] = `Bearer ${process.env.LLM_API_KEY}`;
+  }
+  return headers;
+}
+
+function getModel(): string {
+  const model = process.env.LLM_MODEL;
+  if (!model) {
+    throw new Error('LLM_MODEL is not configured. Set it to the model name your OpenAI-compatible server serves (e.g. llama3.1).');
+  }
+  return model;
+}
+
+function toChatMessages(request: LLMRequest): ChatCompletionMessage[] {
+  const messages: ChatCompletionMessage[] = [];
+  if (request.systemPrompt) {
+    messages.push({ role: 'system', content: request.systemPrompt });
+  }
+  (request.history || []).forEach(turn => {
+    messages.push({ role: turn.role, content: turn.text });
+  });
+  messages.push({ role: 'user', content: request.message });
+  return messages;
+}
+
+// POST to the server and throw a readable error for non-2xx responses
+async function postJson(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+  const response = await fetch(`${getBaseUrl()}${path}`, {
+    method: 'POST',
+    headers: getHeaders(),
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`LLM server error: ${response.status} ${response.statusText}${detail ? ` - ${detail.slice(0, 300)}` : ''}`);
+  }
+
+  return response;
+}
+
+export function createOpenAICompatibleProvider(): LLMProvider {
+  return {
+    name: 'openai-compatible',
+
+    async generate(request: LLMRequest, signal?: AbortSignal): Promise<string> {
+      const response = await postJson('/chat/completions', {
+        model: getModel(),
+        messages: toChatMessages(request),
+        stream: false,
+      }, signal);
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content || '';
+    },
+
+    async *stream(request: LLMRequest, signal?: AbortSignal): AsyncGenerator<string> {
+      const response = await postJson('/chat/completions', {
+        model: getModel(),
+        messages: toChatMessages(request),
+        stream: true,
+      }, signal);
+
+      if (!response.body) return;
+
+      // Server-sent events: one "data: {...}" line per chunk, ending with "data: [DONE]"
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.slice('data:'.length).trim();
+          if (payload === '[DONE]') return;
+
+          try {
+            const text = JSON.parse(payload).choices?.[0]?.delta?.content;
+            if (text) yield text;
+          } catch {
+            // Ignore keep-alive comments and malformed chunks
+          }
+        }
+      }
+    },
+
+    async embed(texts: string[]): Promise<number[][]> {
+      if (texts.length === 0) return [];
+
+      const response = await postJson('/embeddings', {
+        model: process.env.LLM_EMBEDDING_MODEL || getModel(),
+        input: texts,
+      });
+      const data = await response.json();
+      return (data.data || [])
+        .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+        .map((item: { embedding: number[] }) => item.embedding);
+    },
+  };
+}
@@ -0,0 +1,22 @@
+// Provider-neutral types for the language models behind the Junior Assistant.
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+export interface LLMRequest {
+  systemPrompt?: string;
+  history?: LLMMessage[]; // Earlier turns, oldest first, starting with a user turn
+  message: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  // Generate the complete reply
+  generate(request: LLMRequest, signal?: AbortSignal): Promise<string>;
+  // Yield the reply incrementally as the model produces it
+  stream(request: LLMRequest, signal?: AbortSignal): AsyncIterable<string>;
+  // Embed each text into a vector (same order as the input)
+  embed(texts: string[]): Promise<number[][]>;
+}
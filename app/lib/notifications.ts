@@ -0,0 +1,334 @@
+'use client';
+
+// Deadline notifications. Browsers can't schedule a notification for later without a push
+// server, so the page checks every minute while Junior Ledger is open and hands due
+// notifications to the service worker (public/sw.js), which shows them and opens the app on click.
+// Each check also saves the next two weeks of notifications to IndexedDB; where the browser
+// allows periodic background sync (Chrome, once the app is installed), the worker shows
+// those itself while every tab is closed. Elsewhere alerts need an open tab.
+
+import {
+  getCanvasAuth,
+  getNotificationPreferences,
+  getSentNotifications,
+  saveSentNotifications,
+  getPersonalEvents,
+  getTaskStates,
+  getUserTimeZone,
+  CourseWithNickname,
+  NotificationPreferences,
+  QuietHours,
+} from './courseStorage';
+import { loadCourseAssignments, isAssignmentSubmitted, getAssignmentType, ASSIGNMENT_TYPE_LABELS } from './assignments';
+import { expandPersonalEvents, getPersonalEventCourseId, getPersonalEventId } from './personalEvents';
+import { getDateKeyInTimeZone, addDays } from './dates';
+import { getAssignmentTaskKey, getCalendarEventTaskKey, isTaskHidden } from './tasks';
+import { withStore, requestToPromise, NOTIFICATION_SCHEDULE_STORE } from './indexedDb';
+
+export const NOTIFICATION_CHECK_INTERVAL_MS = 60 * 1000;
+
+// How long an at-start-time reminder can still be shown after its start time
+const LATE_GRACE_MS = 15 * 60 * 1000;
+
+// How far ahead notifications are saved for the service worker
+const SCHEDULE_AHEAD_DAYS = 14;
+
+// Periodic background sync tag handled in public/sw.js; browsers may check far less often
+const BACKGROUND_SYNC_TAG = 'junior-ledger-deadlines';
+const BACKGROUND_SYNC_INTERVAL_MS = 15 * 60 * 1000;
+
+// Key of the single schedule record in NOTIFICATION_SCHEDULE_STORE
+const SCHEDULE_ID = 'deadlines';
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+// A notification to show between notifyAt and its deadline. The body's "Due in 3 hours"
+// is worked out when it's shown, so public/sw.js can build it too.
+interface ScheduledNotification {
+  key: string;
+  title: string;
+  verb: string; // 'Due' or 'Starting'
+  detail: string | null; // Course nickname
+  notifyAt: string;
+  dueAt: string;
+  url: string;
+  shownAt?: string; // Set by the service worker when it shows the notification
+}
+
+// What the service worker reads during a background check
+interface NotificationSchedule {
+  id: typeof SCHEDULE_ID;
+  quietHours: QuietHours;
+  notifications: ScheduledNotification[];
+  savedAt: string;
+}
+
+// Periodic Background Sync isn't in TypeScript's DOM types yet
+interface PeriodicSyncManager {
+  register(tag: string, options?: { minInterval: number }): Promise<void>;
+  unregister(tag: string): Promise<void>;
+}
+
+function getPeriodicSync(registration: ServiceWorkerRegistration | null | undefined): PeriodicSyncManager | null {
+  return (registration as (ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }) | null | undefined)?.periodicSync || null;
+}
+
+// Check whether this browser can show notifications, and whether we're allowed to
+export function getNotificationPermission(): NotificationPermissionState {
+  if (typeof window === 'undefined' || !('Notification' in window) || !('serviceWorker' in navigator)) {
+    return 'unsupported';
+  }
+  return Notification.permission;
+}
+
+// Ask the student to allow notifications
+export async function requestNotificationPermission(): Promise<NotificationPermissionState> {
+  if (getNotificationPermission() === 'unsupported') return 'unsupported';
+  return Notification.requestPermission();
+}
+
+// Register the service worker that displays notifications (safe to call repeatedly)
+export async function registerNotificationWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (getNotificationPermission() === 'unsupported') return null;
+
+  try {
+    return await navigator.serviceWorker.register('/sw.js');
+  } catch (error) {
+    console.error('Error registering notification service worker:', error);
+    return null;
+  }
+}
+
+// Ask the browser to wake the service worker for background checks. Returns false where
+// periodic background sync isn't available, so alerts only appear while a tab is open.
+export async function registerBackgroundChecks(): Promise<boolean> {
+  const periodicSync = getPeriodicSync(await registerNotificationWorker());
+  if (!periodicSync || !navigator.permissions) return false;
+
+  try {
+    const status = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+    if (status.state !== 'granted') return false;
+    await periodicSync.register(BACKGROUND_SYNC_TAG, { minInterval: BACKGROUND_SYNC_INTERVAL_MS });
+    return true;
+  } catch (error) {
+    console.error('Error registering background notification checks:', error);
+    return false;
+  }
+}
+
+// Stop background checks and forget saved notifications, e.g. when notifications are turned off
+export async function stopBackgroundChecks(): Promise<void> {
+  if (getNotificationPermission() === 'unsupported') return;
+
+  try {
+    await getPeriodicSync(await navigator.serviceWorker.getRegistration('/'))?.unregister(BACKGROUND_SYNC_TAG);
+    await withStore(NOTIFICATION_SCHEDULE_STORE, 'readwrite', store => {
+      store.delete(SCHEDULE_ID);
+    });
+  } catch (error) {
+    console.error('Error stopping background notification checks:', error);
+  }
+}
+
+async function getNotificationSchedule(): Promise<NotificationSchedule | null> {
+  try {
+    const schedule = await withStore(NOTIFICATION_SCHEDULE_STORE, 'readonly', store =>
+      requestToPromise(store.get(SCHEDULE_ID) as IDBRequest<NotificationSchedule | undefined>)
+    );
+    return schedule || null;
+  } catch (error) {
+    console.error('Error reading notification schedule:', error);
+    return null;
+  }
+}
+
+async function saveNotificationSchedule(quietHours: QuietHours, notifications: ScheduledNotification[]): Promise<void> {
+  try {
+    const schedule: NotificationSchedule = { id: SCHEDULE_ID, quietHours, notifications, savedAt: new Date().toISOString() };
+    await withStore(NOTIFICATION_SCHEDULE_STORE, 'readwrite', store => {
+      store.put(schedule);
+    });
+  } catch (error) {
+    console.error('Error saving notification schedule:', error);
+  }
+}
+
+// Minutes since midnight for an HH:MM time
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Check if now falls in quiet hours, which may run overnight (e.g. 22:00 to 07:00). Mirrored in public/sw.js
+export function isInQuietHours(quietHours: QuietHours, now: Date = new Date()): boolean {
+  if (!quietHours.enabled) return false;
+  const current = now.getHours() * 60 + now.getMinutes();
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) return false;
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+// "Due in 3 hours", "Due in 2 days", "Starting now". Mirrored in public/sw.js
+function formatTimeUntil(dueAt: Date, now: Date, verb: string): string {
+  const minutes = Math.round((dueAt.getTime() - now.getTime()) / (60 * 1000));
+  if (minutes <= 1) return `${verb} now`;
+  if (minutes < 60) return `${verb} in ${minutes} minutes`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${verb} in ${hours} hour${hours === 1 ? '' : 's'}`;
+  return `${verb} in ${Math.round(hours / 24)} days`;
+}
+
+// Lead time for an assignment type in a course, or null when it shouldn't notify
+function getLeadHours(preferences: NotificationPreferences, courseId: number, typeLeadHours: number | null): number | null {
+  if (typeLeadHours === null) return null;
+  return courseId in preferences.courseLeadHours ? preferences.courseLeadHours[courseId] : typeLeadHours;
+}
+
+// Whether a notification's time has arrived and its deadline hasn't passed. Mirrored in public/sw.js
+function isNotificationDue(notification: ScheduledNotification, now: Date): boolean {
+  const notifyAt = new Date(notification.notifyAt).getTime();
+  return now.getTime() >= notifyAt &&
+    now.getTime() < Math.max(new Date(notification.dueAt).getTime(), notifyAt + LATE_GRACE_MS);
+}
+
+// Everything due now or within the next SCHEDULE_AHEAD_DAYS whose deadline hasn't passed
+async function collectNotifications(
+  courses: CourseWithNickname[],
+  preferences: NotificationPreferences,
+  now: Date
+): Promise<ScheduledNotification[]> {
+  const taskStates = getTaskStates();
+  const notifications: ScheduledNotification[] = [];
+  const scheduleEnd = now.getTime() + SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000;
+  const isInWindow = (notifyAt: Date, dueAt: Date) =>
+    notifyAt.getTime() <= scheduleEnd && now.getTime() < Math.max(dueAt.getTime(), notifyAt.getTime() + LATE_GRACE_MS);
+
+  const auth = getCanvasAuth();
+  if (auth) {
+    await Promise.all(courses.map(async (course) => {
+      try {
+        const assignments = await loadCourseAssignments(auth, course.canvasId);
+        assignments.forEach(assignment => {
+          if (!assignment.due_at || isAssignmentSubmitted(assignment)) return;
+          if (isTaskHidden(taskStates[getAssignmentTaskKey(assignment.id)], now)) return;
+
+          const type = getAssignmentType(assignment, course.canvasId);
+          const leadHours = getLeadHours(preferences, course.canvasId, preferences.leadHours[type]);
+          if (leadHours === null) return;
+
+          const dueAt = new Date(assignment.due_at);
+          const notifyAt = new Date(dueAt.getTime() - leadHours * 60 * 60 * 1000);
+          if (!isInWindow(notifyAt, dueAt)) return;
+
+          notifications.push({
+            key: `${getAssignmentTaskKey(assignment.id)}@${assignment.due_at}`,
+            title: `${ASSIGNMENT_TYPE_LABELS[type]}: ${assignment.name}`,
+            verb: 'Due',
+            detail: course.nickname,
+            notifyAt: notifyAt.toISOString(),
+            dueAt: dueAt.toISOString(),
+            url: course.href,
+          });
+        });
+      } catch (error) {
+        console.error(`Error checking notifications for course ${course.canvasId}:`, error);
+      }
+    }));
+  }
+
+  if (preferences.personalReminders) {
+    // From yesterday, so a reminder just after midnight still sees late-evening events
+    const timeZone = getUserTimeZone();
+    const today = getDateKeyInTimeZone(now, timeZone);
+    const personalEvents = getPersonalEvents().filter(event => event.reminderMinutes !== null);
+    const remindersById = new Map(personalEvents.map(event => [event.id, event.reminderMinutes]));
+
+    expandPersonalEvents(personalEvents, addDays(today, -1), addDays(today, SCHEDULE_AHEAD_DAYS + 1), timeZone).forEach(event => {
+      const personalEventId = getPersonalEventId(event);
+      const reminderMinutes = personalEventId !== null ? remindersById.get(personalEventId) : null;
+      if (reminderMinutes === null || reminderMinutes === undefined) return;
+      const courseId = getPersonalEventCourseId(event.context_code);
+      if (courseId !== null && preferences.courseLeadHours[courseId] === null) return;
+      if (isTaskHidden(taskStates[getCalendarEventTaskKey(event)], now)) return;
+
+      const dueAt = new Date(event.start_at);
+      const notifyAt = new Date(dueAt.getTime() - reminderMinutes * 60 * 1000);
+      if (!isInWindow(notifyAt, dueAt)) return;
+
+      const course = courseId !== null ? courses.find(c => c.canvasId === courseId) : null;
+      notifications.push({
+        key: `${getCalendarEventTaskKey(event)}@${event.start_at}`,
+        title: event.title,
+        verb: event.type === 'personal-task' ? 'Due' : 'Starting',
+        detail: course?.nickname || null,
+        notifyAt: notifyAt.toISOString(),
+        dueAt: dueAt.toISOString(),
+        url: '/calendar',
+      });
+    });
+  }
+
+  return notifications;
+}
+
+// Show a notification through the service worker, falling back to a page notification
+async function showNotification(title: string, body: string, tag: string, url: string): Promise<void> {
+  const registration = await registerNotificationWorker();
+  if (registration) {
+    await registration.showNotification(title, { body, tag, data: { url }, icon: '/favicon.ico' });
+  } else {
+    new Notification(title, { body, tag });
+  }
+}
+
+/**
+ * Show any deadline notifications that are due now and save upcoming ones for the service
+ * worker. Each deadline notifies once, whether from a tab or the worker; during quiet hours
+ * nothing is shown, so notifications wait until quiet hours end (as long as the deadline
+ * hasn't passed). Returns how many were shown.
+ */
+export async function checkDueNotifications(courses: CourseWithNickname[], now: Date = new Date()): Promise<number> {
+  const preferences = getNotificationPreferences();
+  if (!preferences.enabled || getNotificationPermission() !== 'granted') return 0;
+
+  // Count what the service worker showed while every tab was closed
+  const sent = getSentNotifications();
+  const previousSchedule = await getNotificationSchedule();
+  previousSchedule?.notifications.forEach(notification => {
+    if (notification.shownAt) sent[notification.key] = notification.dueAt;
+  });
+
+  const upcoming = (await collectNotifications(courses, preferences, now)).filter(notification => !sent[notification.key]);
+  const due = isInQuietHours(preferences.quietHours, now)
+    ? []
+    : upcoming.filter(notification => isNotificationDue(notification, now));
+
+  for (const notification of due) {
+    try {
+      const body = [formatTimeUntil(new Date(notification.dueAt), now, notification.verb), notification.detail]
+        .filter(Boolean)
+        .join(' · ');
+      await showNotification(notification.title, body, notification.key, notification.url);
+      sent[notification.key] = notification.dueAt;
+    } catch (error) {
+      console.error('Error showing notification:', error);
+    }
+  }
+
+  await saveNotificationSchedule(preferences.quietHours, upcoming.filter(notification => !sent[notification.key]));
+
+  // Forget notifications for deadlines more than a day old
+  const cutoff = now.getTime() - 24 * 60 * 60 * 1000;
+  Object.keys(sent).forEach(key => {
+    if (new Date(sent[key]).getTime() < cutoff) delete sent[key];
+  });
+  saveSentNotifications(sent);
+
+  return due.length;
+}
+
+// Show a sample notification so the student can check their browser settings
+export async function showTestNotification(): Promise<void> {
+  await showNotification('Junior Ledger notifications are on', 'You\'ll be notified here before deadlines.', 'junior-ledger-test', '/');
+}
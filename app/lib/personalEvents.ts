@@ -0,0 +1,163 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import type { CanvasCalendarEvent } from '../actions/canvas';
+import { getPersonalEvents, PersonalEvent, PersonalEventRecurrence } from './courseStorage';
+import { getPersonalOccurrenceId, parseEventId } from './eventIds';
+import { toDateKey, parseDateKey, getInstantInTimeZone } from './dates';
+
+export const PERSONAL_CONTEXT_CODE = 'personal';
+
+export const RECURRENCE_LABELS: Record<PersonalEventRecurrence, string> = {
+  none: 'Does not repeat',
+  daily: 'Every day',
+  weekly: 'Every week',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Every month',
+};
+
+export const REMINDER_OPTIONS: { label: string; minutes: number | null }[] = [
+  { label: 'No reminder', minutes: null },
+  { label: 'At start time', minutes: 0 },
+  { label: '15 minutes before', minutes: 15 },
+  { label: '1 hour before', minutes: 60 },
+  { label: '1 day before', minutes: 24 * 60 },
+];
+
+// Personal events are read from localStorage once and re-read when a page saves them
+let cachedPersonalEvents: PersonalEvent[] | null = null;
+const NO_PERSONAL_EVENTS: PersonalEvent[] = [];
+
+function subscribeToPersonalEvents(onChange: () => void): () => void {
+  const handleChange = () => {
+    cachedPersonalEvents = null;
+    onChange();
+  };
+  window.addEventListener('personalEventsChanged', handleChange);
+  // Another tab saved personal events
+  window.addEventListener('storage', handleChange);
+  return () => {
+    window.removeEventListener('personalEventsChanged', handleChange);
+    window.removeEventListener('storage', handleChange);
+  };
+}
+
+function getPersonalEventsSnapshot(): PersonalEvent[] {
+  if (!cachedPersonalEvents) {
+    cachedPersonalEvents = getPersonalEvents();
+  }
+  return cachedPersonalEvents;
+}
+
+// Get every personal task and event, re-rendering when one is added, edited or deleted
+export function usePersonalEvents(): PersonalEvent[] {
+  return useSyncExternalStore(subscribeToPersonalEvents, getPersonalEventsSnapshot, () => NO_PERSONAL_EVENTS);
+}
+
+const RECURRENCE_STEP_DAYS: Partial<Record<PersonalEventRecurrence, number>> = {
+  daily: 1,
+  weekly: 7,
+  biweekly: 14,
+};
+
+// Date of the nth occurrence, or null when that month has no such day (e.g. the 31st)
+function getOccurrenceDate(first: Date, recurrence: PersonalEventRecurrence, index: number): Date | null {
+  if (recurrence === 'monthly') {
+    const date = new Date(first.getFullYear(), first.getMonth() + index, first.getDate());
+    return date.getDate() === first.getDate() ? date : null;
+  }
+  const date = new Date(first);
+  date.setDate(date.getDate() + index * (RECURRENCE_STEP_DAYS[recurrence] || 0));
+  return date;
+}
+
+// First occurrence number that could fall on or after rangeStart, so old repeating events don't loop from the start
+function getFirstOccurrenceIndex(first: Date, recurrence: PersonalEventRecurrence, rangeStart: Date): number {
+  if (rangeStart <= first) return 0;
+  if (recurrence === 'monthly') {
+    return Math.max(0, (rangeStart.getFullYear() - first.getFullYear()) * 12 + rangeStart.getMonth() - first.getMonth() - 1);
+  }
+  const stepDays = RECURRENCE_STEP_DAYS[recurrence];
+  if (!stepDays) return 0;
+  const daysBetween = Math.floor((rangeStart.getTime() - first.getTime()) / (1000 * 60 * 60 * 24));
+  return Math.max(0, Math.floor(daysBetween / stepDays) - 1);
+}
+
+function toCalendarEvent(event: PersonalEvent, date: Date, timeZone: string): CanvasCalendarEvent {
+  const isAllDay = !event.startTime;
+  const dateKey = toDateKey(date);
+  return {
+    id: getPersonalOccurrenceId(event.id, dateKey),
+    title: event.title,
+    start_at: getInstantInTimeZone(dateKey, event.startTime, timeZone).toISOString(),
+    end_at: event.startTime && event.endTime ? getInstantInTimeZone(dateKey, event.endTime, timeZone).toISOString() : null,
+    description: event.notes,
+    location_name: event.location,
+    location_address: null,
+    context_code: event.courseId ? `${PERSONAL_CONTEXT_CODE}_course_${event.courseId}` : PERSONAL_CONTEXT_CODE,
+    workflow_state: 'active',
+    url: '',
+    html_url: '',
+    all_day: isAllDay,
+    all_day_date: isAllDay ? dateKey : null,
+    created_at: event.createdAt,
+    updated_at: event.createdAt,
+    type: `personal-${event.kind}`,
+  };
+}
+
+/**
+ * Expand personal events into calendar events between startDate and endDate (YYYY-MM-DD, inclusive),
+ * one per occurrence, so the calendar renders them like Canvas and Google events.
+ * Their dates and times are wall-clock times in timeZone, the student's timezone.
+ */
+export function expandPersonalEvents(events: PersonalEvent[], startDate: string, endDate: string, timeZone: string): CanvasCalendarEvent[] {
+  const rangeStart = parseDateKey(startDate);
+  const rangeEnd = parseDateKey(endDate);
+  const calendarEvents: CanvasCalendarEvent[] = [];
+
+  events.forEach(event => {
+    const first = parseDateKey(event.date);
+    if (event.recurrence === 'none') {
+      if (first >= rangeStart && first <= rangeEnd) {
+        calendarEvents.push(toCalendarEvent(event, first, timeZone));
+      }
+      return;
+    }
+
+    const until = event.recurrenceUntil ? parseDateKey(event.recurrenceUntil) : null;
+    for (let index = getFirstOccurrenceIndex(first, event.recurrence, rangeStart); ; index++) {
+      const date = getOccurrenceDate(first, event.recurrence, index);
+      if (!date) continue;
+      if (date > rangeEnd || (until && date > until)) break;
+      if (date >= rangeStart) {
+        calendarEvents.push(toCalendarEvent(event, date, timeZone));
+      }
+    }
+  });
+
+  return calendarEvents;
+}
+
+// Check if a calendar event came from a personal task or event
+export function isPersonalCalendarEvent(event: Pick<CanvasCalendarEvent, 'context_code'>): boolean {
+  return event.context_code === PERSONAL_CONTEXT_CODE || event.context_code.startsWith(`${PERSONAL_CONTEXT_CODE}_course_`);
+}
+
+// Course a personal calendar event is associated with, if any
+export function getPersonalEventCourseId(contextCode: string): number | null {
+  const match = contextCode.match(/^personal_course_(\d+)$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+// ID of the personal event a calendar occurrence was expanded from
+export function getPersonalEventId(event: Pick<CanvasCalendarEvent, 'id'>): number | null {
+  const parsed = parseEventId(event.id);
+  return parsed?.source === 'personal' ? parsed.personalEventId : null;
+}
+
+// Short description of a reminder setting
+export function formatReminder(minutes: number | null): string | null {
+  if (minutes === null) return null;
+  return REMINDER_OPTIONS.find(option => option.minutes === minutes)?.label || `${minutes} minutes before`;
+}
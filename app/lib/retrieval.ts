@@ -0,0 +1,274 @@
+'use client';
+
+import { FileContext } from '../actions/chat';
+
+export interface DocumentChunk {
+  id: string;
+  fileName: string;
+  fileIndex: number; // Index into the course's FileContext list
+  chunkIndex: number; // Position of the chunk within its file (0-based)
+  text: string;
+  pageKind?: 'page' | 'slide';
+  page?: number; // Page or slide the chunk was taken from
+  canvasId?: number;
+}
+
+export interface RetrievedPassage extends DocumentChunk {
+  score: number;
+}
+
+export interface ChunkIndex {
+  chunks: DocumentChunk[];
+  termFrequencies: Array<Map<string, number>>;
+  documentFrequencies: Map<string, number>;
+  chunkLengths: number[];
+  averageChunkLength: number;
+}
+
+// Roughly one or two textbook paragraphs per chunk, with overlap so sentences
+// that straddle a boundary are still retrievable
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+
+// How much course material goes into each prompt
+const MAX_PASSAGES = 8;
+const PASSAGE_CHAR_BUDGET = 9000;
+
+// How many BM25 candidates are considered for embedding re-ranking
+const RERANK_CANDIDATES = 24;
+
+// BM25 tuning (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that',
+  'the', 'their', 'then', 'there', 'these', 'this', 'to', 'was', 'what', 'when', 'where', 'which',
+  'who', 'why', 'will', 'with', 'you', 'your', 'about', 'would', 'should', 'could', 'we', 'our',
+]);
+
+/**
+ * Split text into lowercase terms for ranking, dropping stop words and
+ * folding simple plurals ("liabilities" -> "liability", "assets" -> "asset")
+ */
+function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+  return words
+    .filter(word => !STOP_WORDS.has(word) && (word.length > 1 || /\d/.test(word)))
+    .map(word => {
+      if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+      if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+      return word;
+    });
+}
+
+/**
+ * Split one document into overlapping chunks, preferring paragraph and sentence boundaries
+ */
+function chunkText(text: string): string[] {
+  const normalized = text.replace(/\r\n/g, '\n').trim();
+  if (normalized.length <= CHUNK_SIZE) {
+    return normalized ? [normalized] : [];
+  }
+
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length) {
+    let end = Math.min(start + CHUNK_SIZE, normalized.length);
+
+    if (end < normalized.length) {
+      // Back up to the nearest paragraph break, then sentence end, in the second half of the window
+      const window = normalized.slice(start, end);
+      const minBreak = Math.floor(CHUNK_SIZE / 2);
+      const paragraphBreak = window.lastIndexOf('\n\n');
+      const sentenceBreak = Math.max(window.lastIndexOf('. '), window.lastIndexOf('.\n'));
+      if (paragraphBreak > minBreak) {
+        end = start + paragraphBreak;
+      } else if (sentenceBreak > minBreak) {
+        end = start + sentenceBreak + 1;
+      }
+    }
+
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+
+    if (end >= normalized.length) break;
+    start = Math.max(end - CHUNK_OVERLAP, start + 1);
+  }
+
+  return chunks;
+}
+
+/**
+ * Chunk every course document and build a BM25 index over the chunks
+ */
+export function buildChunkIndex(fileContexts: FileContext[]): ChunkIndex {
+  const chunks: DocumentChunk[] = [];
+
+  fileContexts.forEach((file, fileIndex) => {
+    // Chunk page by page when page/slide boundaries are known, so every chunk can be cited by page
+    const sections = file.segments && file.segments.length > 0
+      ? file.segments.map(segment => ({ text: segment.text, pageKind: segment.kind, page: segment.number }))
+      : [{ text: file.text, pageKind: undefined, page: undefined }];
+
+    let chunkIndex = 0;
+    sections.forEach(section => {
+      chunkText(section.text).forEach(text => {
+        chunks.push({
+          id: `${fileIndex}-${chunkIndex}`,
+          fileName: file.fileName,
+          fileIndex,
+          chunkIndex: chunkIndex++,
+          text,
+          pageKind: section.pageKind,
+          page: section.page,
+          canvasId: file.canvasId,
+        });
+      });
+    });
+  });
+
+  const termFrequencies: Array<Map<string, number>> = [];
+  const documentFrequencies = new Map<string, number>();
+  const chunkLengths: number[] = [];
+
+  chunks.forEach(chunk => {
+    // Include the file name so questions that name a document ("the chapter 5 slides") match it
+    const terms = tokenize(`${chunk.fileName} ${chunk.text}`);
+    const frequencies = new Map<string, number>();
+    terms.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+
+    frequencies.forEach((_, term) => {
+      documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1);
+    });
+
+    termFrequencies.push(frequencies);
+    chunkLengths.push(terms.length);
+  });
+
+  const averageChunkLength = chunkLengths.length > 0
+    ? chunkLengths.reduce((sum, length) => sum + length, 0) / chunkLengths.length
+    : 0;
+
+  return { chunks, termFrequencies, documentFrequencies, chunkLengths, averageChunkLength };
+}
+
+/**
+ * Score every chunk against the query with BM25 and return the best matches
+ */
+export function searchChunks(index: ChunkIndex, query: string, limit: number): RetrievedPassage[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || index.chunks.length === 0) return [];
+
+  const totalChunks = index.chunks.length;
+
+  const scored = index.chunks.map((chunk, i) => {
+    const frequencies = index.termFrequencies[i];
+    const lengthRatio = index.averageChunkLength > 0 ? index.chunkLengths[i] / index.averageChunkLength : 1;
+
+    let score = 0;
+    queryTerms.forEach(term => {
+      const termFrequency = frequencies.get(term);
+      if (!termFrequency) return;
+
+      const documentFrequency = index.documentFrequencies.get(term) || 0;
+      const idf = Math.log(1 + (totalChunks - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      score += idf * (termFrequency * (BM25_K1 + 1)) / (termFrequency + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio));
+    });
+
+    return { ...chunk, score };
+  });
+
+  return scored
+    .filter(passage => passage.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+/**
+ * Re-rank BM25 candidates by blending in embedding similarity to the query.
+ * `embed` returns one vector per input text, or null if embeddings aren't available.
+ */
+export async function rerankWithEmbeddings(
+  query: string,
+  candidates: RetrievedPassage[],
+  embed: (texts: string[]) => Promise<number[][] | null>
+): Promise<RetrievedPassage[]> {
+  if (candidates.length === 0) return candidates;
+
+  const vectors = await embed([query, ...candidates.map(candidate => candidate.text)]);
+  if (!vectors || vectors.length !== candidates.length + 1) return candidates;
+
+  const [queryVector, ...candidateVectors] = vectors;
+  const maxScore = Math.max(...candidates.map(candidate => candidate.score)) || 1;
+
+  return candidates
+    .map((candidate, i) => ({
+      ...candidate,
+      score: 0.5 * (candidate.score / maxScore) + 0.5 * cosineSimilarity(queryVector, candidateVectors[i]),
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Take the highest-ranked passages that fit in the character budget
+ */
+export function selectPassagesWithinBudget(
+  passages: RetrievedPassage[],
+  maxPassages: number,
+  charBudget: number
+): RetrievedPassage[] {
+  const selected: RetrievedPassage[] = [];
+  let used = 0;
+
+  for (const passage of passages) {
+    if (selected.length >= maxPassages) break;
+    if (used + passage.text.length > charBudget && selected.length > 0) continue;
+    selected.push(passage);
+    used += passage.text.length;
+  }
+
+  return selected;
+}
+
+/**
+ * Pick the passages to send with a question: BM25 candidates, optionally re-ranked with
+ * embeddings, trimmed to the passage budget. Falls back to the opening passage of each
+ * document when the question shares no terms with the material ("summarize this").
+ */
+export async function retrievePassages(
+  index: ChunkIndex,
+  query: string,
+  embed?: (texts: string[]) => Promise<number[][] | null>
+): Promise<RetrievedPassage[]> {
+  let candidates = searchChunks(index, query, RERANK_CANDIDATES);
+
+  if (candidates.length === 0) {
+    candidates = index.chunks
+      .filter(chunk => chunk.chunkIndex === 0)
+      .map(chunk => ({ ...chunk, score: 0 }));
+  } else if (embed) {
+    try {
+      candidates = await rerankWithEmbeddings(query, candidates, embed);
+    } catch (error) {
+      // Keyword ranking alone is still useful
+      console.error('Error re-ranking passages with embeddings:', error);
+    }
+  }
+
+  return selectPassagesWithinBudget(candidates, MAX_PASSAGES, PASSAGE_CHAR_BUDGET);
+}
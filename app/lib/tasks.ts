@@ -0,0 +1,71 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import type { CanvasCalendarEvent } from '../actions/canvas';
+import { getTaskStates, getUserTimeZone, TaskState } from './courseStorage';
+import { parseEventId } from './eventIds';
+import { getDateKeyInTimeZone, addDays } from './dates';
+
+// Task states are read from localStorage once and re-read when a page saves one
+let cachedTaskStates: Record<string, TaskState> | null = null;
+const NO_TASK_STATES: Record<string, TaskState> = {};
+
+function subscribeToTaskStates(onChange: () => void): () => void {
+  const handleChange = () => {
+    cachedTaskStates = null;
+    onChange();
+  };
+  window.addEventListener('taskStatesChanged', handleChange);
+  // Another tab saved a task state
+  window.addEventListener('storage', handleChange);
+  return () => {
+    window.removeEventListener('taskStatesChanged', handleChange);
+    window.removeEventListener('storage', handleChange);
+  };
+}
+
+function getTaskStatesSnapshot(): Record<string, TaskState> {
+  if (!cachedTaskStates) {
+    cachedTaskStates = getTaskStates();
+  }
+  return cachedTaskStates;
+}
+
+// Get every task state, re-rendering when one is marked done, snoozed or pinned
+export function useTaskStates(): Record<string, TaskState> {
+  return useSyncExternalStore(subscribeToTaskStates, getTaskStatesSnapshot, () => NO_TASK_STATES);
+}
+
+// Task key for a Canvas assignment
+export function getAssignmentTaskKey(assignmentId: number): string {
+  return `assignment-${assignmentId}`;
+}
+
+// Task key for a calendar event; assignment events (every due date of one) share their assignment's key
+export function getCalendarEventTaskKey(event: Pick<CanvasCalendarEvent, 'id'>): string {
+  const parsed = parseEventId(event.id);
+  if (parsed?.source === 'canvas' && parsed.kind === 'assignment') {
+    return getAssignmentTaskKey(parsed.assignmentId);
+  }
+  return event.id;
+}
+
+// Today in the student's timezone as YYYY-MM-DD, to compare against snoozedUntil
+function getTodayKey(now: Date): string {
+  return getDateKeyInTimeZone(now, getUserTimeZone());
+}
+
+// Check if a task is snoozed past today
+export function isTaskSnoozed(state: TaskState | undefined, now: Date = new Date()): boolean {
+  return !!state?.snoozedUntil && state.snoozedUntil > getTodayKey(now);
+}
+
+// Check if a task should be left out of to-do lists (marked done or still snoozed)
+export function isTaskHidden(state: TaskState | undefined, now: Date = new Date()): boolean {
+  return !!state?.done || isTaskSnoozed(state, now);
+}
+
+// A snooze date a number of days from today, as YYYY-MM-DD
+export function getSnoozeDate(days: number, now: Date = new Date()): string {
+  return addDays(getTodayKey(now), days);
+}
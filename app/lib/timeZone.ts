@@ -0,0 +1,19 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { getUserTimeZone } from './courseStorage';
+
+function subscribeToTimeZone(onChange: () => void): () => void {
+  window.addEventListener('timeZoneChanged', onChange);
+  // Another tab changed the setting
+  window.addEventListener('storage', onChange);
+  return () => {
+    window.removeEventListener('timeZoneChanged', onChange);
+    window.removeEventListener('storage', onChange);
+  };
+}
+
+// Get the timezone dates and times are shown in, re-rendering when the setting changes
+export function useTimeZone(): string {
+  return useSyncExternalStore(subscribeToTimeZone, getUserTimeZone, () => 'UTC');
+}
@@ -1,20 +1,31 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Info, CheckCircle2, Loader2, Link as LinkIcon, Eye, EyeOff, Upload, File, Trash2, ExternalLink, AlertCircle, Calendar as CalendarIcon } from 'lucide-react';
+import { Info, CheckCircle2, Loader2, Link as LinkIcon, Eye, EyeOff, Upload, File, Trash2, ExternalLink, AlertCircle } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { saveCanvasToken, getCanvasToken, getHiddenCourses, showCourse, getAutoRefreshInterval, saveAutoRefreshInterval, getGoogleCalendarFeedUrl, saveGoogleCalendarFeedUrl } from '../lib/courseStorage';
-import { fetchCanvasCourses, CanvasCourse } from '../actions/canvas';
+import { saveCanvasToken, getCanvasToken, getCanvasAuth, getCanvasBaseUrl, saveCanvasBaseUrl, getHiddenCourses, showCourse, getAutoRefreshInterval, saveAutoRefreshInterval } from '../lib/courseStorage';
+import { fetchCanvasCourses, fetchAllStudentCourses, validateCanvasConnection } from '../actions/canvas';
+import { normalizeCanvasBaseUrl } from '../lib/canvasUrl';
+import { describeCanvasError, unwrapCanvasResult } from '../lib/canvasErrors';
 import { useCourses } from '../components/CoursesProvider';
-import { getCourseFiles, addCourseFile, deleteCourseFile, UploadedFile } from '../lib/courseStorage';
+import { getCourseFiles, addCourseFile, deleteCourseFile, UploadedFile, getStorageUsage, StorageUsage } from '../lib/courseStorage';
+import StorageSettings from '../components/StorageSettings';
+import BackupSettings from '../components/BackupSettings';
+import NotificationSettings from '../components/NotificationSettings';
+import ExamRulesSettings from '../components/ExamRulesSettings';
+import CalendarFeedSettings from '../components/CalendarFeedSettings';
+import TimeZoneSettings from '../components/TimeZoneSettings';
+import CalendarExportSettings from '../components/CalendarExportSettings';
 
-type Tab = 'canvas-sync' | 'files';
+type Tab = 'canvas-sync' | 'files' | 'notifications' | 'exams' | 'storage' | 'backup';
 
 export default function SettingsPage() {
   const [activeTab, setActiveTab] = useState<Tab>('canvas-sync');
   
   // Canvas Sync state
   const [token, setToken] = useState('');
+  const [canvasUrl, setCanvasUrl] = useState('');
+  const [connectedAs, setConnectedAs] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [showInfo, setShowInfo] = useState(false);
@@ -27,60 +38,54 @@ export default function SettingsPage() {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [fileError, setFileError] = useState<string | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
   const { courses } = useCourses();
 
   // Auto-refresh state
   const [refreshInterval, setRefreshInterval] = useState<number>(5);
 
-  // Google Calendar state
-  const [googleCalendarUrl, setGoogleCalendarUrl] = useState('');
-
   useEffect(() => {
     // Load saved token if it exists
     const savedToken = getCanvasToken();
     if (savedToken) {
       setToken(savedToken);
     }
+    setCanvasUrl(getCanvasBaseUrl());
     loadHiddenCourses();
     // Load saved auto-refresh interval
     setRefreshInterval(getAutoRefreshInterval());
-    // Load saved Google Calendar URL
-    const savedGoogleCalUrl = getGoogleCalendarFeedUrl();
-    if (savedGoogleCalUrl) {
-      setGoogleCalendarUrl(savedGoogleCalUrl);
-    }
   }, []);
 
   useEffect(() => {
     if (selectedCourseId !== null) {
       // Convert 'semester' to null for storage functions
       const courseIdForStorage = selectedCourseId === 'semester' ? null : selectedCourseId;
-      const files = getCourseFiles(courseIdForStorage);
-      setUploadedFiles(files);
+      getCourseFiles(courseIdForStorage).then(setUploadedFiles);
     } else {
       setUploadedFiles([]);
     }
   }, [selectedCourseId]);
 
+  // Refresh the browser storage usage shown under the upload box
+  const refreshStorageUsage = () => {
+    getStorageUsage().then(setStorageUsage);
+  };
+
+  useEffect(() => {
+    refreshStorageUsage();
+  }, []);
+
   const loadHiddenCourses = async () => {
-    const token = getCanvasToken();
-    if (!token) return;
+    const auth = getCanvasAuth();
+    if (!auth) return;
 
     try {
-      const response = await fetch(`https://byu.instructure.com/api/v1/courses?enrollment_type=student&enrollment_state=active&per_page=100&include[]=all_courses`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-      
-      if (response.ok) {
-        const allCourses = await response.json();
-        const hiddenIds = getHiddenCourses();
-        const hidden = allCourses
-          .filter((course: CanvasCourse) => hiddenIds.includes(course.id))
-          .map((course: CanvasCourse) => ({ id: course.id, name: course.name || course.course_code || 'Unnamed Course' }));
-        setHiddenCourses(hidden);
-      }
+      const allCourses = unwrapCanvasResult(await fetchAllStudentCourses(auth));
+      const hiddenIds = getHiddenCourses();
+      const hidden = allCourses
+        .filter(course => hiddenIds.includes(course.id))
+        .map(course => ({ id: course.id, name: course.name || course.course_code || 'Unnamed Course' }));
+      setHiddenCourses(hidden);
     } catch (err) {
       // Silently fail - hidden courses are optional
     }
@@ -100,13 +105,26 @@ export default function SettingsPage() {
       return;
     }
 
+    let baseUrl: string;
+    try {
+      baseUrl = normalizeCanvasBaseUrl(canvasUrl);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid Canvas URL');
+      return;
+    }
+
     setIsLoading(true);
     setIsSuccess(false);
     setError(null);
 
     try {
-      await fetchCanvasCourses(token);
-      saveCanvasToken(token);
+      const auth = { token: token.trim(), baseUrl };
+      const userName = unwrapCanvasResult(await validateCanvasConnection(auth));
+      unwrapCanvasResult(await fetchCanvasCourses(auth));
+      saveCanvasBaseUrl(baseUrl);
+      saveCanvasToken(auth.token);
+      setCanvasUrl(baseUrl);
+      setConnectedAs(userName);
       await refreshCourses();
       await loadHiddenCourses();
       setIsSuccess(true);
@@ -114,7 +132,7 @@ export default function SettingsPage() {
         setIsSuccess(false);
       }, 5000);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to connect to Canvas');
+      setError(describeCanvasError(err, 'Failed to connect to Canvas'));
     } finally {
       setIsLoading(false);
     }
@@ -152,8 +170,9 @@ export default function SettingsPage() {
               courseId: courseIdForStorage,
             };
 
-            addCourseFile(courseIdForStorage, uploadedFile);
+            await addCourseFile(courseIdForStorage, uploadedFile);
             setUploadedFiles(prev => [...prev, uploadedFile]);
+            refreshStorageUsage();
           } catch (err) {
             setFileError(err instanceof Error ? err.message : 'Failed to process file');
           }
@@ -174,12 +193,13 @@ export default function SettingsPage() {
     }
   };
 
-  const handleDeleteFile = (fileId: string) => {
+  const handleDeleteFile = async (fileId: string) => {
     if (selectedCourseId === null) return;
     // Convert 'semester' to null for storage functions
     const courseIdForStorage = selectedCourseId === 'semester' ? null : selectedCourseId;
-    deleteCourseFile(courseIdForStorage, fileId);
+    await deleteCourseFile(courseIdForStorage, fileId);
     setUploadedFiles(prev => prev.filter(f => f.id !== fileId));
+    refreshStorageUsage();
   };
 
   const handleOpenFile = (file: UploadedFile) => {
@@ -228,6 +248,46 @@ export default function SettingsPage() {
           >
             Files
           </button>
+          <button
+            onClick={() => setActiveTab('notifications')}
+            className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+              activeTab === 'notifications'
+                ? 'border-[#002E5D] text-[#002E5D]'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            Notifications
+          </button>
+          <button
+            onClick={() => setActiveTab('exams')}
+            className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+              activeTab === 'exams'
+                ? 'border-[#002E5D] text-[#002E5D]'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            Exams
+          </button>
+          <button
+            onClick={() => setActiveTab('storage')}
+            className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+              activeTab === 'storage'
+                ? 'border-[#002E5D] text-[#002E5D]'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            Storage
+          </button>
+          <button
+            onClick={() => setActiveTab('backup')}
+            className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+              activeTab === 'backup'
+                ? 'border-[#002E5D] text-[#002E5D]'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            Backup
+          </button>
         </nav>
       </div>
 
@@ -237,6 +297,28 @@ export default function SettingsPage() {
           {/* Settings Form */}
           <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
             <form onSubmit={handleSync} className="space-y-6">
+              {/* Canvas URL Input */}
+              <div>
+                <label
+                  htmlFor="canvas-url"
+                  className="block text-sm font-semibold text-gray-700 mb-2"
+                >
+                  Canvas URL
+                </label>
+                <input
+                  type="text"
+                  id="canvas-url"
+                  value={canvasUrl}
+                  onChange={(e) => setCanvasUrl(e.target.value)}
+                  placeholder="https://byu.instructure.com"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#002E5D] focus:border-transparent"
+                  disabled={isLoading}
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  The address you use to log in to Canvas at your school
+                </p>
+              </div>
+
               {/* Token Input */}
               <div>
                 <label
@@ -282,7 +364,7 @@ export default function SettingsPage() {
                           How to get your token
                         </h3>
                         <ol className="list-decimal list-inside space-y-1 text-sm text-blue-800">
-                          <li>Go to BYU Canvas and log in to your account</li>
+                          <li>Go to your school&apos;s Canvas site and log in to your account</li>
                           <li>Click on your profile picture in the top right</li>
                           <li>Select "Settings" from the dropdown menu</li>
                           <li>Scroll down to "Approved Integrations"</li>
@@ -328,7 +410,7 @@ export default function SettingsPage() {
                   >
                     <CheckCircle2 className="w-5 h-5 text-green-600 flex-shrink-0" />
                     <p className="text-green-800 font-medium">
-                      Connected to BYU Canvas
+                      Connected to Canvas{connectedAs ? ` as ${connectedAs}` : ''}
                     </p>
                   </motion.div>
                 )}
@@ -362,64 +444,14 @@ export default function SettingsPage() {
             </form>
           </div>
 
-          {/* Google Calendar Integration */}
-          <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
-            <h2 className="text-xl font-semibold text-[#002E5D] mb-2 flex items-center gap-2">
-              <CalendarIcon className="w-5 h-5" />
-              Google Calendar Integration
-            </h2>
-            <p className="text-sm text-gray-600 mb-4">
-              Add your Google Calendar events to the calendar view by providing your private iCal feed URL.
-            </p>
-            <div className="space-y-4">
-              <div>
-                <label
-                  htmlFor="google-calendar-url"
-                  className="block text-sm font-semibold text-gray-700 mb-2"
-                >
-                  Google Calendar Secret iCal URL
-                </label>
-                <input
-                  type="url"
-                  id="google-calendar-url"
-                  value={googleCalendarUrl}
-                  onChange={(e) => {
-                    setGoogleCalendarUrl(e.target.value);
-                    saveGoogleCalendarFeedUrl(e.target.value);
-                  }}
-                  placeholder="https://calendar.google.com/calendar/ical/..."
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#002E5D] focus:border-transparent"
-                />
-                <p className="mt-2 text-xs text-gray-500">
-                  Your Google Calendar events will appear alongside Canvas events in the calendar view.
-                </p>
-              </div>
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                <h3 className="font-semibold text-blue-900 mb-2 flex items-center gap-2">
-                  <Info className="w-4 h-4" />
-                  How to get your Google Calendar iCal URL
-                </h3>
-                <ol className="list-decimal list-inside space-y-1 text-sm text-blue-800">
-                  <li>Go to <a href="https://calendar.google.com" target="_blank" rel="noopener noreferrer" className="underline">Google Calendar</a></li>
-                  <li>Click the settings icon (⚙️) next to your calendar name</li>
-                  <li>Scroll down to "Integrate calendar" section</li>
-                  <li>Copy the "Secret address in iCal format" URL</li>
-                  <li>Paste it in the field above</li>
-                </ol>
-                <div className="mt-3 pt-3 border-t border-blue-200">
-                  <p className="text-xs text-blue-700">
-                    <strong>Note:</strong> Use the "Secret address" URL to keep your calendar private. Do not share this URL with others.
-                  </p>
-                </div>
-              </div>
-              {googleCalendarUrl && (
-                <div className="flex items-center gap-2 text-sm text-green-700">
-                  <CheckCircle2 className="w-4 h-4" />
-                  <span>Google Calendar URL saved</span>
-                </div>
-              )}
-            </div>
-          </div>
+          {/* Time Zone */}
+          <TimeZoneSettings />
+
+          {/* iCal Calendar Subscriptions */}
+          <CalendarFeedSettings />
+
+          {/* Calendar Export */}
+          <CalendarExportSettings />
 
           {/* Auto-Refresh Settings */}
           <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
@@ -516,30 +548,23 @@ export default function SettingsPage() {
             </p>
             <button
               onClick={async () => {
-                const token = getCanvasToken();
-                if (!token) {
+                const auth = getCanvasAuth();
+                if (!auth) {
                   alert('Please sync your Canvas token first');
                   return;
                 }
                 try {
-                  const response = await fetch(`https://byu.instructure.com/api/v1/courses?enrollment_type=student&per_page=100`, {
-                    headers: {
-                      'Authorization': `Bearer ${token}`,
-                    },
-                  });
-                  if (response.ok) {
-                    const allCourses = await response.json();
-                    console.log('All Canvas Courses:', allCourses);
-                    const acc409 = allCourses.find((c: any) => 
-                      c.name?.includes('409') || 
-                      c.course_code?.includes('409') ||
-                      c.name?.includes('Integrated Topics')
-                    );
-                    if (acc409) {
-                      alert(`Found ACC 409! Name: ${acc409.name}, Code: ${acc409.course_code}, State: ${acc409.workflow_state}, ID: ${acc409.id}\n\nCheck console (F12) for full list.`);
-                    } else {
-                      alert(`Checked ${allCourses.length} courses. ACC 409 not found. Check the browser console (F12) to see all courses.`);
-                    }
+                  const allCourses = unwrapCanvasResult(await fetchAllStudentCourses(auth, false));
+                  console.log('All Canvas Courses:', allCourses);
+                  const acc409 = allCourses.find(c => 
+                    c.name?.includes('409') || 
+                    c.course_code?.includes('409') ||
+                    c.name?.includes('Integrated Topics')
+                  );
+                  if (acc409) {
+                    alert(`Found ACC 409! Name: ${acc409.name}, Code: ${acc409.course_code}, State: ${acc409.workflow_state}, ID: ${acc409.id}\n\nCheck console (F12) for full list.`);
+                  } else {
+                    alert(`Checked ${allCourses.length} courses. ACC 409 not found. Check the browser console (F12) to see all courses.`);
                   }
                 } catch (err) {
                   console.error('Error fetching all courses:', err);
@@ -653,6 +678,9 @@ export default function SettingsPage() {
                 )}
                 <p className="mt-4 text-xs text-gray-500">
                   Files are stored locally in your browser. Large files may affect performance.
+                  {storageUsage && storageUsage.quota > 0 && (
+                    <> Using {formatFileSize(storageUsage.usage)} of {formatFileSize(storageUsage.quota)} available browser storage.</>
+                  )}
                 </p>
               </div>
 
@@ -716,6 +744,18 @@ export default function SettingsPage() {
           )}
         </div>
       )}
+
+      {/* Notifications Tab */}
+      {activeTab === 'notifications' && <NotificationSettings />}
+
+      {/* Exams Tab */}
+      {activeTab === 'exams' && <ExamRulesSettings />}
+
+      {/* Storage Tab */}
+      {activeTab === 'storage' && <StorageSettings />}
+
+      {/* Backup Tab */}
+      {activeTab === 'backup' && <BackupSettings />}
     </div>
   );
 }
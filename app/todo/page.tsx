@@ -0,0 +1,313 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { ListTodo, Loader2, AlertCircle, RefreshCw, ExternalLink, Pin, EyeOff } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useCourses } from '../components/CoursesProvider';
+import TaskActions from '../components/TaskActions';
+import { getCanvasAuth, clearCachedAssignments } from '../lib/courseStorage';
+import { describeCanvasError } from '../lib/canvasErrors';
+import {
+  loadCourseAssignments,
+  isAssignmentSubmitted,
+  getAssignmentType,
+  getDueBucket,
+  AssignmentType,
+  DueBucket,
+  DUE_BUCKET_LABELS,
+  ASSIGNMENT_TYPE_LABELS,
+} from '../lib/assignments';
+import { useTaskStates, getAssignmentTaskKey, isTaskHidden } from '../lib/tasks';
+import { useExamClassifier } from '../lib/exams';
+import { formatTime } from '../lib/dates';
+import { useTimeZone } from '../lib/timeZone';
+
+interface TodoItem {
+  id: number;
+  taskKey: string;
+  name: string;
+  dueAt: string;
+  htmlUrl: string;
+  submissionTypes: string[];
+  type: AssignmentType; // Set when grouping, so exam rule changes apply without reloading
+  courseId: number;
+  courseName: string;
+  courseHref: string;
+}
+
+const BUCKET_ORDER: DueBucket[] = ['overdue', 'today', 'this-week', 'later'];
+const TYPE_ORDER: AssignmentType[] = ['assignment', 'quiz', 'discussion', 'exam'];
+
+const BUCKET_HEADER_CLASSES: Record<DueBucket, string> = {
+  overdue: 'text-red-700',
+  today: 'text-[#002E5D]',
+  'this-week': 'text-[#002E5D]',
+  later: 'text-gray-600',
+};
+
+export default function TodoPage() {
+  const { courses } = useCourses();
+  const [items, setItems] = useState<TodoItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [courseFilter, setCourseFilter] = useState<number | 'all'>('all');
+  const [typeFilter, setTypeFilter] = useState<Set<AssignmentType>>(new Set(TYPE_ORDER));
+  const [showHidden, setShowHidden] = useState(false);
+  const taskStates = useTaskStates();
+  const isExam = useExamClassifier();
+  const timeZone = useTimeZone();
+
+  const loadTodos = useCallback(async () => {
+    const auth = getCanvasAuth();
+    if (!auth || courses.length === 0) {
+      setItems([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      // Hidden courses are already filtered out of useCourses()
+      const perCourse = await Promise.all(
+        courses.map(async (course) => {
+          const assignments = await loadCourseAssignments(auth, course.canvasId);
+          return assignments
+            .filter(assignment => assignment.due_at && !isAssignmentSubmitted(assignment))
+            .map((assignment): TodoItem => ({
+              id: assignment.id,
+              taskKey: getAssignmentTaskKey(assignment.id),
+              name: assignment.name,
+              dueAt: assignment.due_at as string,
+              htmlUrl: assignment.html_url,
+              submissionTypes: assignment.submission_types || [],
+              type: 'assignment',
+              courseId: course.canvasId,
+              courseName: course.nickname,
+              courseHref: course.href,
+            }));
+        })
+      );
+
+      setItems(perCourse.flat().sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime()));
+    } catch (err) {
+      console.error('Error loading to-do items:', err);
+      setError(describeCanvasError(err, 'Failed to load assignments'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [courses]);
+
+  useEffect(() => {
+    loadTodos();
+  }, [loadTodos]);
+
+  const handleRefresh = () => {
+    courses.forEach(course => clearCachedAssignments(course.canvasId));
+    loadTodos();
+  };
+
+  const toggleType = (type: AssignmentType) => {
+    setTypeFilter(prev => {
+      const next = new Set(prev);
+      if (next.has(type)) {
+        next.delete(type);
+      } else {
+        next.add(type);
+      }
+      return next;
+    });
+  };
+
+  // Pinned items get their own group on top; done and snoozed items only show when asked for
+  const { groupedItems, pinnedItems, hiddenItems } = useMemo(() => {
+    const now = new Date();
+    const groups: Record<DueBucket, TodoItem[]> = { overdue: [], today: [], 'this-week': [], later: [] };
+    const pinned: TodoItem[] = [];
+    const hidden: TodoItem[] = [];
+    items
+      .map(item => ({
+        ...item,
+        type: getAssignmentType({ id: item.id, name: item.name, submission_types: item.submissionTypes }, item.courseId, isExam),
+      }))
+      .filter(item => courseFilter === 'all' || item.courseId === courseFilter)
+      .filter(item => typeFilter.has(item.type))
+      .forEach(item => {
+        const state = taskStates[item.taskKey];
+        if (isTaskHidden(state, now)) {
+          hidden.push(item);
+        } else if (state?.pinned) {
+          pinned.push(item);
+        } else {
+          groups[getDueBucket(item.dueAt, timeZone, now)].push(item);
+        }
+      });
+    return { groupedItems: groups, pinnedItems: pinned, hiddenItems: hidden };
+  }, [items, courseFilter, typeFilter, taskStates, isExam, timeZone]);
+
+  const visibleCount = pinnedItems.length + BUCKET_ORDER.reduce((sum, bucket) => sum + groupedItems[bucket].length, 0);
+
+  const formatDue = (dueAt: string) => {
+    const date = new Date(dueAt);
+    return `${date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone })} · ${formatTime(date, timeZone)}`;
+  };
+
+  const renderItem = (item: TodoItem, isOverdue: boolean) => (
+    <motion.div
+      key={`${item.courseId}-${item.id}`}
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="flex items-start justify-between gap-4 border border-gray-200 rounded-lg p-3 hover:shadow-md transition-shadow"
+    >
+      <div className="min-w-0">
+        <a
+          href={item.htmlUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={`font-semibold text-gray-900 hover:text-[#002E5D] flex items-center gap-1 ${taskStates[item.taskKey]?.done ? 'line-through' : ''}`}
+        >
+          <span className="truncate">{item.name}</span>
+          <ExternalLink className="w-3 h-3 flex-shrink-0 text-gray-400" />
+        </a>
+        <div className="flex items-center gap-2 mt-1 text-xs">
+          <Link href={item.courseHref} className="text-gray-600 hover:text-[#002E5D]">
+            {item.courseName}
+          </Link>
+          <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full">
+            {ASSIGNMENT_TYPE_LABELS[item.type]}
+          </span>
+        </div>
+      </div>
+      <div className="flex items-center gap-3 flex-shrink-0">
+        <p className={`text-sm ${isOverdue ? 'text-red-700 font-medium' : 'text-gray-600'}`}>
+          {formatDue(item.dueAt)}
+        </p>
+        <TaskActions taskKey={item.taskKey} isExam={item.type === 'exam'} />
+      </div>
+    </motion.div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold text-[#002E5D] mb-2 flex items-center gap-3">
+            <ListTodo className="w-10 h-10" />
+            To-Do
+          </h1>
+          <p className="text-lg text-gray-600">
+            Everything you still need to submit, across all your courses
+          </p>
+        </div>
+        <button
+          onClick={handleRefresh}
+          disabled={isLoading}
+          className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 flex items-center gap-2 text-sm"
+        >
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          Refresh
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-4 flex flex-wrap items-center gap-4">
+        <select
+          value={courseFilter}
+          onChange={(e) => setCourseFilter(e.target.value === 'all' ? 'all' : parseInt(e.target.value, 10))}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#002E5D] text-sm"
+        >
+          <option value="all">All courses</option>
+          {courses.map(course => (
+            <option key={course.canvasId} value={course.canvasId}>{course.nickname}</option>
+          ))}
+        </select>
+        <div className="flex flex-wrap gap-2">
+          {TYPE_ORDER.map(type => (
+            <button
+              key={type}
+              onClick={() => toggleType(type)}
+              className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                typeFilter.has(type)
+                  ? 'bg-[#002E5D] text-white border-[#002E5D]'
+                  : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {ASSIGNMENT_TYPE_LABELS[type]}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600 ml-auto cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showHidden}
+            onChange={(e) => setShowHidden(e.target.checked)}
+            className="rounded border-gray-300 text-[#002E5D] focus:ring-[#002E5D]"
+          />
+          Show done &amp; snoozed ({hiddenItems.length})
+        </label>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* Grouped To-Do List */}
+      {isLoading && items.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">Loading assignments...</div>
+      ) : courses.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <p>No courses yet. <Link href="/settings" className="text-[#002E5D] underline">Connect Canvas</Link> to see your to-do list.</p>
+        </div>
+      ) : visibleCount === 0 && !(showHidden && hiddenItems.length > 0) ? (
+        <div className="text-center py-12 text-gray-500">
+          <ListTodo className="w-12 h-12 mx-auto mb-2 text-gray-300" />
+          <p>Nothing to do. Nice work!</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {pinnedItems.length > 0 && (
+            <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+              <h2 className="text-xl font-semibold mb-4 text-[#002E5D] flex items-center gap-2">
+                <Pin className="w-5 h-5" />
+                Pinned
+                <span className="text-sm font-normal text-gray-500">{pinnedItems.length}</span>
+              </h2>
+              <div className="space-y-2">
+                {pinnedItems.map(item => renderItem(item, getDueBucket(item.dueAt, timeZone) === 'overdue'))}
+              </div>
+            </div>
+          )}
+          {BUCKET_ORDER.filter(bucket => groupedItems[bucket].length > 0).map(bucket => (
+            <div key={bucket} className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+              <h2 className={`text-xl font-semibold mb-4 ${BUCKET_HEADER_CLASSES[bucket]}`}>
+                {DUE_BUCKET_LABELS[bucket]}
+                <span className="ml-2 text-sm font-normal text-gray-500">{groupedItems[bucket].length}</span>
+              </h2>
+              <div className="space-y-2">
+                {groupedItems[bucket].map(item => renderItem(item, bucket === 'overdue'))}
+              </div>
+            </div>
+          ))}
+          {showHidden && hiddenItems.length > 0 && (
+            <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+              <h2 className="text-xl font-semibold mb-4 text-gray-600 flex items-center gap-2">
+                <EyeOff className="w-5 h-5" />
+                Done &amp; snoozed
+                <span className="text-sm font-normal text-gray-500">{hiddenItems.length}</span>
+              </h2>
+              <div className="space-y-2 opacity-70">
+                {hiddenItems.map(item => renderItem(item, false))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+// Junior Ledger service worker: shows deadline notifications handed to it by the page
+// (see app/lib/notifications.ts) and opens the app when one is clicked. Where the browser
+// supports periodic background sync it also shows the ones the page saved to IndexedDB,
+// so deadlines still notify while every tab is closed.
+
+// Keep in sync with app/lib/indexedDb.ts and app/lib/notifications.ts
+const DB_NAME = 'junior-ledger';
+const SCHEDULE_STORE = 'notification-schedule';
+const SCHEDULE_ID = 'deadlines';
+const BACKGROUND_SYNC_TAG = 'junior-ledger-deadlines';
+const LATE_GRACE_MS = 15 * 60 * 1000;
+
+function requestToPromise(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function toMinutes(time) {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function isInQuietHours(quietHours, now) {
+  if (!quietHours || !quietHours.enabled) return false;
+  const current = now.getHours() * 60 + now.getMinutes();
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) return false;
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+function formatTimeUntil(dueAt, now, verb) {
+  const minutes = Math.round((dueAt.getTime() - now.getTime()) / (60 * 1000));
+  if (minutes <= 1) return `${verb} now`;
+  if (minutes < 60) return `${verb} in ${minutes} minutes`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${verb} in ${hours} hour${hours === 1 ? '' : 's'}`;
+  return `${verb} in ${Math.round(hours / 24)} days`;
+}
+
+function isNotificationDue(notification, now) {
+  const notifyAt = new Date(notification.notifyAt).getTime();
+  return now.getTime() >= notifyAt &&
+    now.getTime() < Math.max(new Date(notification.dueAt).getTime(), notifyAt + LATE_GRACE_MS);
+}
+
+// Show saved notifications whose time has come, marking them so the page doesn't repeat them
+async function showScheduledNotifications() {
+  if (Notification.permission !== 'granted') return;
+
+  // Open whatever version the page created; close right away so its upgrades aren't blocked
+  const db = await requestToPromise(self.indexedDB.open(DB_NAME));
+  try {
+    if (!db.objectStoreNames.contains(SCHEDULE_STORE)) return;
+
+    const schedule = await requestToPromise(db.transaction(SCHEDULE_STORE, 'readonly').objectStore(SCHEDULE_STORE).get(SCHEDULE_ID));
+    const now = new Date();
+    if (!schedule || isInQuietHours(schedule.quietHours, now)) return;
+
+    const due = schedule.notifications.filter((notification) => !notification.shownAt && isNotificationDue(notification, now));
+    if (due.length === 0) return;
+
+    for (const notification of due) {
+      const body = [formatTimeUntil(new Date(notification.dueAt), now, notification.verb), notification.detail]
+        .filter(Boolean)
+        .join(' · ');
+      await self.registration.showNotification(notification.title, {
+        body,
+        tag: notification.key,
+        data: { url: notification.url },
+        icon: '/favicon.ico',
+      });
+      notification.shownAt = now.toISOString();
+    }
+
+    await requestToPromise(db.transaction(SCHEDULE_STORE, 'readwrite').objectStore(SCHEDULE_STORE).put(schedule));
+  } finally {
+    db.close();
+  }
+}
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      // Reuse an open Junior Ledger tab if there is one
+      const client = clients.find((candidate) => new URL(candidate.url).origin === self.location.origin);
+      if (client) {
+        return client.navigate(url).then((navigated) => (navigated || client).focus());
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === BACKGROUND_SYNC_TAG) {
+    event.waitUntil(showScheduledNotifications());
+  }
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+
+// node-ical reads dates without a timezone in the server's timezone, so pin one (east of UTC,
+// where all-day dates are easiest to get wrong) to keep results the same on every machine.
+process.env.TZ = "Europe/Berlin";
+
+export default defineConfig({
+  test: {
+    include: ["app/**/*.test.ts"],
+    environment: "node",
+  },
+});